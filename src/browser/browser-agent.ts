@@ -2,12 +2,22 @@
  * Browser Agent Module
  *
  * Handles browser initialization, page navigation, and interaction
- * using Stagehand 3.0.1 (V3) and Browserbase infrastructure.
+ * using Stagehand 3.0.1 (V3) on a pluggable backend (Browserbase or local Chromium).
+ * The page emulates a device profile (desktop 1280x720 by default) so viewports don't
+ * depend on the backend's default window.
  */
 
-import { Stagehand } from '@browserbasehq/stagehand';
+import type { Stagehand } from '@browserbasehq/stagehand';
 import type { BrowserSession } from '../shared/types.js';
 import { ErrorTemplates } from '../shared/error-handler.js';
+import { createBrowserProvider, type BrowserProvider } from './browser-provider.js';
+import {
+  applyDeviceProfile,
+  DEFAULT_DEVICE_PROFILE,
+  describeDeviceProfile,
+  getDeviceProfile,
+  type DeviceProfile,
+} from './device-profiles.js';
 
 /**
  * Browser Agent for controlling game interactions
@@ -17,36 +27,34 @@ export class BrowserAgent {
   private stagehand: Stagehand | null = null;
   private session: BrowserSession | null = null;
   private readonly timeout: number;
+  private readonly provider: BrowserProvider;
+  private deviceProfile: DeviceProfile = getDeviceProfile();
+  private deviceEmulated: boolean = false;
 
-  constructor(timeout: number = 300000) {
+  constructor(timeout: number = 300000, provider: BrowserProvider = createBrowserProvider()) {
     this.timeout = timeout;
+    this.provider = provider;
   }
 
   /**
-   * Initialize browser session with Browserbase
+   * Initialize browser session with the configured provider
    *
    * @returns Initialized Stagehand instance
    */
   async initializeBrowser(): Promise<Stagehand> {
     try {
-      const apiKey = process.env.BROWSERBASE_API_KEY;
-      const projectId = process.env.BROWSERBASE_PROJECT_ID;
-
-      if (!apiKey) {
-        throw ErrorTemplates.missingApiKey('BROWSERBASE');
-      }
-
-      // Initialize Stagehand V3 with Browserbase backend
-      this.stagehand = new Stagehand({
-        apiKey,
-        projectId,
-        env: 'BROWSERBASE',
-      });
+      // Provider validates its own credentials and builds the Stagehand V3 instance
+      this.stagehand = this.provider.createStagehand();
 
       // Initialize the stagehand instance
       await this.stagehand.init();
 
-      console.log('✓ Browserbase connection initialized');
+      console.log(`✓ ${this.provider.label} connection initialized`);
+      this.deviceEmulated = await this.emulateDevice();
+      if (!this.deviceEmulated && this.deviceProfile.name !== DEFAULT_DEVICE_PROFILE) {
+        // Results from the backend's default viewport would be reported as this device's
+        throw ErrorTemplates.deviceEmulationFailed(this.deviceProfile.label);
+      }
       return this.stagehand;
     } catch (error) {
       // Re-throw if it's already a structured error
@@ -60,6 +68,56 @@ export class BrowserAgent {
     }
   }
 
+  /**
+   * Choose the device to emulate; call before initializeBrowser()
+   *
+   * @param profile - Device profile
+   */
+  setDeviceProfile(profile: DeviceProfile): void {
+    this.deviceProfile = profile;
+  }
+
+  /**
+   * Get the emulated device profile
+   *
+   * @returns Device profile
+   */
+  getDeviceProfile(): DeviceProfile {
+    return this.deviceProfile;
+  }
+
+  /**
+   * Whether the device profile was applied to the page
+   *
+   * @returns false before initializeBrowser() or when emulation failed
+   */
+  isDeviceEmulated(): boolean {
+    return this.deviceEmulated;
+  }
+
+  /**
+   * Apply the device profile to the first page (before navigation)
+   *
+   * @returns true if the profile was applied
+   */
+  private async emulateDevice(): Promise<boolean> {
+    try {
+      const pages = (this.stagehand as any)?.context?.pages?.();
+      if (!pages || pages.length === 0) {
+        throw new Error('No pages available in context');
+      }
+      await applyDeviceProfile(pages[0], this.deviceProfile);
+      console.log(`📱 Device: ${describeDeviceProfile(this.deviceProfile)}`);
+      return true;
+    } catch (error) {
+      console.warn(
+        `⚠ Could not emulate ${this.deviceProfile.label}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      // Don't throw - initializeBrowser() decides whether the backend's default viewport will do
+      return false;
+    }
+  }
+
   /**
    * Load a game URL in the browser
    *
@@ -171,6 +229,15 @@ export class BrowserAgent {
     return this.stagehand;
   }
 
+  /**
+   * Get the browser provider backing this agent
+   *
+   * @returns Browser provider
+   */
+  getProvider(): BrowserProvider {
+    return this.provider;
+  }
+
   /**
    * Get current session information
    *
@@ -213,7 +280,7 @@ export class BrowserAgent {
    */
   async cleanup(): Promise<void> {
     try {
-      // Close Stagehand instance (includes browser and Browserbase session cleanup)
+      // Close Stagehand instance (includes browser and remote session cleanup)
       if (this.stagehand) {
         try {
           console.log('  Closing Stagehand instance...');
@@ -225,10 +292,10 @@ export class BrowserAgent {
         this.stagehand = null;
       }
 
-      // Mark session as inactive for Browserbase tracking
+      // Mark session as inactive for session tracking
       if (this.session) {
         this.session.isActive = false;
-        console.log('  Marked Browserbase session as inactive');
+        console.log(`  Marked ${this.provider.label} session as inactive`);
       }
 
       console.log('✓ Browser resources cleaned up');
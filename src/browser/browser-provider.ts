@@ -0,0 +1,164 @@
+/**
+ * Browser Provider Module
+ *
+ * Abstracts where the browser runs so BrowserAgent can stay backend-agnostic:
+ * - Browserbase: managed remote Chromium sessions (requires API key)
+ * - Local: headless Chromium launched on this machine via Stagehand's LOCAL env
+ *
+ * Stagehand's act()/observe() use the configured LLM provider's 'state' model when one is
+ * passed in (otherwise Stagehand's OpenAI default).
+ */
+
+import { AISdkClient, Stagehand } from '@browserbasehq/stagehand';
+import type { BrowserProviderName } from '../shared/types.js';
+import { ErrorTemplates } from '../shared/error-handler.js';
+import type { ModelProvider } from '../shared/llm-provider.js';
+
+export const BROWSER_PROVIDERS: readonly BrowserProviderName[] = ['browserbase', 'local'];
+
+/**
+ * Options shared by all browser providers
+ */
+export interface BrowserProviderOptions {
+  headed?: boolean;
+  selfHeal?: boolean; // Let act() re-infer a selector with the LLM when a cached one fails (Stagehand default: true)
+  models?: ModelProvider; // LLM for act()/observe() (Stagehand default: OpenAI)
+}
+
+/**
+ * Stagehand LLM client on the cheap per-action ('state') model - act()/observe() run once per action
+ *
+ * @param models - Configured LLM provider
+ * @returns Client, or undefined to keep Stagehand's default
+ */
+function createLLMClient(models?: ModelProvider): AISdkClient | undefined {
+  if (!models) {
+    return undefined;
+  }
+  const model = models.getModel('state');
+  // ModelProvider always returns model instances; plain strings are AI SDK gateway ids
+  return new AISdkClient({ model: model as Exclude<typeof model, string> });
+}
+
+/**
+ * A backend capable of producing an (uninitialized) Stagehand instance
+ */
+export interface BrowserProvider {
+  readonly name: BrowserProviderName;
+  readonly label: string; // Human-readable name for log output
+
+  /**
+   * Create a Stagehand instance configured for this backend
+   * The caller is responsible for calling init() and close()
+   */
+  createStagehand(): Stagehand;
+}
+
+/**
+ * Remote browsers hosted by Browserbase
+ */
+export class BrowserbaseProvider implements BrowserProvider {
+  readonly name = 'browserbase' as const;
+  readonly label = 'Browserbase';
+  private readonly selfHeal?: boolean;
+  private readonly models?: ModelProvider;
+
+  constructor(options: BrowserProviderOptions = {}) {
+    this.selfHeal = options.selfHeal;
+    this.models = options.models;
+  }
+
+  createStagehand(): Stagehand {
+    const apiKey = process.env.BROWSERBASE_API_KEY;
+    const projectId = process.env.BROWSERBASE_PROJECT_ID;
+
+    if (!apiKey) {
+      throw ErrorTemplates.missingApiKey('BROWSERBASE');
+    }
+
+    return new Stagehand({
+      apiKey,
+      projectId,
+      env: 'BROWSERBASE',
+      selfHeal: this.selfHeal,
+      llmClient: createLLMClient(this.models),
+      // Stagehand's hosted API runs act()/observe() on its own model and ignores llmClient
+      disableAPI: this.models !== undefined,
+    });
+  }
+}
+
+/**
+ * Local Chromium launched through Stagehand's LOCAL env (chrome-launcher + CDP)
+ * Honors CHROME_PATH for machines where Chrome is not in a standard location
+ */
+export class LocalBrowserProvider implements BrowserProvider {
+  readonly name = 'local' as const;
+  readonly label = 'Local Chromium';
+  private readonly headed: boolean;
+  private readonly selfHeal?: boolean;
+  private readonly models?: ModelProvider;
+
+  constructor(options: BrowserProviderOptions = {}) {
+    this.headed = options.headed ?? false;
+    this.selfHeal = options.selfHeal;
+    this.models = options.models;
+  }
+
+  createStagehand(): Stagehand {
+    return new Stagehand({
+      env: 'LOCAL',
+      localBrowserLaunchOptions: {
+        headless: !this.headed,
+        executablePath: process.env.CHROME_PATH || undefined,
+        // Sandboxing usually fails inside containers / CI runners
+        chromiumSandbox: false,
+      },
+      selfHeal: this.selfHeal,
+      llmClient: createLLMClient(this.models),
+    });
+  }
+}
+
+/**
+ * Check whether a string names a supported browser provider
+ *
+ * @param value - Candidate provider name
+ * @returns true if value is a BrowserProviderName
+ */
+export function isBrowserProviderName(value: string): value is BrowserProviderName {
+  return (BROWSER_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a provider name from CLI/env input
+ *
+ * @param value - Raw provider name (case-insensitive)
+ * @returns Validated provider name
+ */
+export function parseBrowserProviderName(value: string): BrowserProviderName {
+  const normalized = value.trim().toLowerCase();
+  if (!isBrowserProviderName(normalized)) {
+    throw ErrorTemplates.invalidBrowserProvider(value, BROWSER_PROVIDERS);
+  }
+  return normalized;
+}
+
+/**
+ * Create a browser provider by name
+ *
+ * @param name - Provider name (defaults to Browserbase)
+ * @param options - Provider options
+ * @returns Browser provider instance
+ */
+export function createBrowserProvider(
+  name: BrowserProviderName = 'browserbase',
+  options: BrowserProviderOptions = {}
+): BrowserProvider {
+  switch (name) {
+    case 'local':
+      return new LocalBrowserProvider(options);
+    case 'browserbase':
+      return new BrowserbaseProvider(options);
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Device Profiles Module
+ *
+ * Named viewport / device emulation presets so runs are comparable across machines
+ * and backends instead of depending on the provider's default window:
+ * - Desktop: 1280x720 (default) and 1920x1080
+ * - Phone and tablet, in portrait and landscape, with touch emulation and a mobile user agent
+ *
+ * Profiles are applied over CDP on the page's main session (device metrics, touch, user agent),
+ * so they also cover Stagehand V3 pages, which have no emulation API of their own.
+ */
+
+import type { DeviceProfileName } from '../shared/types.js';
+import { ErrorTemplates } from '../shared/error-handler.js';
+
+export const DEVICE_PROFILE_NAMES: readonly DeviceProfileName[] = [
+  'desktop',
+  'desktop-hd',
+  'iphone',
+  'iphone-landscape',
+  'android-tablet',
+  'android-tablet-landscape',
+];
+
+/**
+ * Generic names accepted wherever a profile is parsed from CLI input
+ */
+export const DEVICE_PROFILE_ALIASES: Readonly<Record<string, DeviceProfileName>> = {
+  mobile: 'iphone',
+  'mobile-portrait': 'iphone',
+  'mobile-landscape': 'iphone-landscape',
+  tablet: 'android-tablet',
+  'tablet-portrait': 'android-tablet',
+  'tablet-landscape': 'android-tablet-landscape',
+};
+
+/**
+ * Profile used when a run doesn't choose one
+ */
+export const DEFAULT_DEVICE_PROFILE: DeviceProfileName = 'desktop';
+
+/**
+ * Viewport and input emulation for one device
+ */
+export interface DeviceProfile {
+  name: DeviceProfileName;
+  label: string; // Human-readable name for log output
+  width: number; // CSS pixels
+  height: number;
+  deviceScaleFactor: number;
+  mobile: boolean; // Mobile viewport rules (meta viewport, overlay scrollbars)
+  touch: boolean; // Touch events enabled; mouse input is delivered as touch
+  orientation: 'portrait' | 'landscape';
+  userAgent?: string; // Left as the browser's own when unset
+}
+
+const IPHONE_USER_AGENT =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+const ANDROID_TABLET_USER_AGENT =
+  'Mozilla/5.0 (Linux; Android 13; SM-X700) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+export const DEVICE_PROFILES: Record<DeviceProfileName, DeviceProfile> = {
+  desktop: {
+    name: 'desktop',
+    label: 'Desktop',
+    width: 1280,
+    height: 720,
+    deviceScaleFactor: 1,
+    mobile: false,
+    touch: false,
+    orientation: 'landscape',
+  },
+  'desktop-hd': {
+    name: 'desktop-hd',
+    label: 'Desktop HD',
+    width: 1920,
+    height: 1080,
+    deviceScaleFactor: 1,
+    mobile: false,
+    touch: false,
+    orientation: 'landscape',
+  },
+  iphone: {
+    name: 'iphone',
+    label: 'iPhone',
+    width: 390,
+    height: 844,
+    deviceScaleFactor: 3,
+    mobile: true,
+    touch: true,
+    orientation: 'portrait',
+    userAgent: IPHONE_USER_AGENT,
+  },
+  'iphone-landscape': {
+    name: 'iphone-landscape',
+    label: 'iPhone (landscape)',
+    width: 844,
+    height: 390,
+    deviceScaleFactor: 3,
+    mobile: true,
+    touch: true,
+    orientation: 'landscape',
+    userAgent: IPHONE_USER_AGENT,
+  },
+  'android-tablet': {
+    name: 'android-tablet',
+    label: 'Android tablet',
+    width: 800,
+    height: 1280,
+    deviceScaleFactor: 2,
+    mobile: true,
+    touch: true,
+    orientation: 'portrait',
+    userAgent: ANDROID_TABLET_USER_AGENT,
+  },
+  'android-tablet-landscape': {
+    name: 'android-tablet-landscape',
+    label: 'Android tablet (landscape)',
+    width: 1280,
+    height: 800,
+    deviceScaleFactor: 2,
+    mobile: true,
+    touch: true,
+    orientation: 'landscape',
+    userAgent: ANDROID_TABLET_USER_AGENT,
+  },
+};
+
+/**
+ * Check whether a string names a device profile
+ *
+ * @param value - Candidate profile name
+ * @returns true if value is a DeviceProfileName
+ */
+export function isDeviceProfileName(value: string): value is DeviceProfileName {
+  return (DEVICE_PROFILE_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a device profile name from CLI input
+ *
+ * @param value - Raw profile name or alias (case-insensitive)
+ * @returns Validated profile name
+ */
+export function parseDeviceProfileName(value: string): DeviceProfileName {
+  const normalized = value.trim().toLowerCase();
+  const name = DEVICE_PROFILE_ALIASES[normalized] ?? normalized;
+  if (!isDeviceProfileName(name)) {
+    throw ErrorTemplates.invalidDeviceProfile(value, [...DEVICE_PROFILE_NAMES, ...Object.keys(DEVICE_PROFILE_ALIASES)]);
+  }
+  return name;
+}
+
+/**
+ * Parse a comma-separated profile list (e.g., "desktop,mobile-portrait,mobile-landscape")
+ *
+ * @param value - Profile names or aliases
+ * @returns Profile names, deduplicated, in the given order
+ */
+export function parseDeviceProfileList(value: string): DeviceProfileName[] {
+  const names = value
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name !== '')
+    .map(parseDeviceProfileName);
+
+  if (names.length === 0) {
+    throw ErrorTemplates.invalidDeviceProfile(value, DEVICE_PROFILE_NAMES);
+  }
+  return [...new Set(names)];
+}
+
+/**
+ * Look up a device profile
+ *
+ * @param name - Profile name (defaults to DEFAULT_DEVICE_PROFILE)
+ * @returns Device profile
+ */
+export function getDeviceProfile(name: DeviceProfileName = DEFAULT_DEVICE_PROFILE): DeviceProfile {
+  return DEVICE_PROFILES[name];
+}
+
+/**
+ * One-line description for logs, e.g. "iPhone 390x844 @3x, touch"
+ *
+ * @param profile - Device profile
+ * @returns Description
+ */
+export function describeDeviceProfile(profile: DeviceProfile): string {
+  return `${profile.label} ${profile.width}x${profile.height} @${profile.deviceScaleFactor}x${profile.touch ? ', touch' : ''}`;
+}
+
+/**
+ * Emulate a device on a page
+ * Call before navigation so the game's first layout (and any touch detection) sees the device
+ *
+ * @param page - Stagehand V3 page (CDP) or Playwright page (viewport only)
+ * @param profile - Device to emulate
+ */
+export async function applyDeviceProfile(page: any, profile: DeviceProfile): Promise<void> {
+  if (typeof page?.getSessionForFrame === 'function') {
+    const session = page.getSessionForFrame(page.mainFrameId());
+    await session.send('Emulation.setDeviceMetricsOverride', {
+      width: profile.width,
+      height: profile.height,
+      deviceScaleFactor: profile.deviceScaleFactor,
+      mobile: profile.mobile,
+      screenOrientation:
+        profile.orientation === 'portrait' ? { type: 'portraitPrimary', angle: 0 } : { type: 'landscapePrimary', angle: 90 },
+    });
+    await session.send(
+      'Emulation.setTouchEmulationEnabled',
+      profile.touch ? { enabled: true, maxTouchPoints: 5 } : { enabled: false }
+    );
+    // act() clicks are mouse events - deliver them as touches on touch devices
+    await session.send('Emulation.setEmitTouchEventsForMouse', {
+      enabled: profile.touch,
+      ...(profile.touch && { configuration: 'mobile' }),
+    });
+    if (profile.userAgent) {
+      await session.send('Emulation.setUserAgentOverride', { userAgent: profile.userAgent });
+    }
+    return;
+  }
+
+  if (typeof page?.setViewportSize === 'function') {
+    // Playwright fixes touch and user agent when the context is created - only the size can change
+    await page.setViewportSize({ width: profile.width, height: profile.height });
+    if (profile.touch) {
+      console.warn(`⚠ Touch emulation is not available on this page; only the ${profile.label} viewport is applied`);
+    }
+    return;
+  }
+
+  throw new Error('Page does not support device emulation');
+}
@@ -0,0 +1,140 @@
+/**
+ * Game Source Module
+ *
+ * Resolves what the user asked to test into something the browser can load:
+ * - http(s) URLs are used as-is
+ * - Local directories, .html files, file:// URLs and .zip archives are served
+ *   by an ephemeral StaticFileServer for the duration of the test
+ */
+
+import { mkdtemp, readdir, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { LocalGameSource } from '../shared/types.js';
+import { ErrorTemplates } from '../shared/error-handler.js';
+import { extractZip } from '../shared/utils/zip.js';
+import { StaticFileServer } from './static-server.js';
+
+/**
+ * A game source ready to be loaded by the browser
+ */
+export interface ResolvedGameSource {
+  gameUrl: string; // Stable identifier for results: original URL or file:// URL of the local build
+  loadUrl: string; // URL the browser navigates to (may point at the ephemeral server)
+  local?: LocalGameSource;
+  close(): Promise<void>; // Stops the server and removes temporary files
+}
+
+/**
+ * Check whether input is a hosted (http/https) game URL
+ *
+ * @param input - Game URL or path
+ * @returns true for http:// and https:// URLs
+ */
+export function isRemoteGameUrl(input: string): boolean {
+  return /^https?:\/\//i.test(input);
+}
+
+/**
+ * Find the HTML entry point inside a directory
+ * Prefers index.html, then any top-level .html file, then a single wrapping folder
+ * (zip archives often contain one top-level directory)
+ *
+ * @param dir - Directory to search
+ * @returns Entry path relative to dir
+ */
+async function findHtmlEntry(dir: string): Promise<string> {
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  const index = entries.find((e) => e.isFile() && e.name.toLowerCase() === 'index.html');
+  if (index) {
+    return index.name;
+  }
+
+  const htmlFiles = entries
+    .filter((e) => e.isFile() && ['.html', '.htm'].includes(extname(e.name).toLowerCase()))
+    .map((e) => e.name)
+    .sort();
+  if (htmlFiles.length > 0) {
+    return htmlFiles[0]!;
+  }
+
+  const subdirs = entries.filter((e) => e.isDirectory() && !e.name.startsWith('__MACOSX'));
+  if (subdirs.length === 1) {
+    const nested = await findHtmlEntry(join(dir, subdirs[0]!.name));
+    return `${subdirs[0]!.name}/${nested}`;
+  }
+
+  throw new Error(`No HTML entry point (index.html) found in ${dir}`);
+}
+
+/**
+ * Resolve a game URL or local path into a loadable source
+ *
+ * @param input - http(s) URL, file:// URL, or filesystem path
+ * @returns Resolved source (call close() when the test finishes)
+ */
+export async function resolveGameSource(input: string): Promise<ResolvedGameSource> {
+  if (isRemoteGameUrl(input)) {
+    return {
+      gameUrl: input,
+      loadUrl: input,
+      close: async () => {},
+    };
+  }
+
+  const localPath = input.startsWith('file://') ? fileURLToPath(input) : resolve(input);
+
+  let stats;
+  try {
+    stats = await stat(localPath);
+  } catch {
+    throw ErrorTemplates.localGameNotFound(localPath);
+  }
+
+  let rootDir: string;
+  let entry: string;
+  let kind: LocalGameSource['kind'];
+  let tempDir: string | null = null;
+
+  if (stats.isDirectory()) {
+    kind = 'directory';
+    rootDir = localPath;
+    entry = await findHtmlEntry(rootDir);
+  } else if (extname(localPath).toLowerCase() === '.zip') {
+    kind = 'zip';
+    tempDir = await mkdtemp(join(tmpdir(), 'qa-game-'));
+    try {
+      const files = await extractZip(localPath, tempDir);
+      console.log(`✓ Extracted ${files.length} file(s) from ${basename(localPath)}`);
+      rootDir = tempDir;
+      entry = await findHtmlEntry(rootDir);
+    } catch (error) {
+      await rm(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+  } else {
+    kind = 'file';
+    rootDir = dirname(localPath);
+    entry = basename(localPath);
+  }
+
+  const server = new StaticFileServer(rootDir);
+  const baseUrl = await server.start();
+  const loadUrl = `${baseUrl}/${entry.split('/').map(encodeURIComponent).join('/')}`;
+
+  console.log(`📦 Serving local ${kind} build: ${localPath} (entry: ${entry})`);
+
+  return {
+    gameUrl: pathToFileURL(localPath).href,
+    loadUrl,
+    local: { path: localPath, kind, entry },
+    close: async () => {
+      await server.stop();
+      if (tempDir) {
+        await rm(tempDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Static File Server Module
+ *
+ * Ephemeral HTTP server for testing local game builds (HTML/JS/assets).
+ * Binds to 127.0.0.1 on a random free port and lives only for one test run.
+ */
+
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import { readFile, stat } from 'fs/promises';
+import { extname, join, resolve, sep } from 'path';
+import type { AddressInfo } from 'net';
+
+/**
+ * MIME types for common web game assets
+ */
+export const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.htm': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.wasm': 'application/wasm',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.bmp': 'image/bmp',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.bin': 'application/octet-stream',
+};
+
+/**
+ * Get the MIME type for a file path
+ *
+ * @param filePath - File path or name
+ * @returns MIME type (application/octet-stream if unknown)
+ */
+export function getMimeType(filePath: string): string {
+  return MIME_TYPES[extname(filePath).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Serves a single directory over HTTP
+ */
+export class StaticFileServer {
+  private readonly rootDir: string;
+  private server: Server | null = null;
+  private baseUrl: string | null = null;
+
+  constructor(rootDir: string) {
+    this.rootDir = resolve(rootDir);
+  }
+
+  /**
+   * Start listening on a random free port
+   *
+   * @returns Base URL of the server (e.g., http://127.0.0.1:54321)
+   */
+  async start(): Promise<string> {
+    if (this.baseUrl) return this.baseUrl;
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.warn(`⚠ Static server error: ${error instanceof Error ? error.message : String(error)}`);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+        }
+        res.end('Internal server error');
+      });
+    });
+
+    await new Promise<void>((resolvePromise, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolvePromise());
+    });
+
+    const address = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${address.port}`;
+
+    console.log(`✓ Static server serving ${this.rootDir} at ${this.baseUrl}`);
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop the server and release the port
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+
+    // Drop keep-alive connections so close() doesn't wait on the browser
+    server.closeAllConnections?.();
+    await new Promise<void>((resolvePromise) => server.close(() => resolvePromise()));
+    console.log('✓ Static server stopped');
+  }
+
+  /**
+   * Get the base URL (null if not started)
+   */
+  getBaseUrl(): string | null {
+    return this.baseUrl;
+  }
+
+  /**
+   * Get the directory being served
+   */
+  getRootDir(): string {
+    return this.rootDir;
+  }
+
+  /**
+   * Resolve a request path to a file inside rootDir
+   * Returns null for paths that escape the root
+   */
+  private resolveRequestPath(urlPath: string): string | null {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(urlPath.split('?')[0]!.split('#')[0]!);
+    } catch {
+      return null;
+    }
+
+    const filePath = resolve(join(this.rootDir, decoded));
+    if (filePath !== this.rootDir && !filePath.startsWith(this.rootDir + sep)) {
+      return null;
+    }
+    return filePath;
+  }
+
+  /**
+   * Handle a single HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    let filePath = this.resolveRequestPath(req.url || '/');
+    if (!filePath) {
+      res.writeHead(403, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Forbidden');
+      return;
+    }
+
+    try {
+      const stats = await stat(filePath);
+      if (stats.isDirectory()) {
+        filePath = join(filePath, 'index.html');
+      }
+      const content = await readFile(filePath);
+
+      res.writeHead(200, {
+        'Content-Type': getMimeType(filePath),
+        'Content-Length': content.length,
+        'Cache-Control': 'no-store',
+      });
+      res.end(req.method === 'HEAD' ? undefined : content);
+    } catch {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Not found');
+    }
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Baseline Module
+ *
+ * Pins one "golden" run per game and checks new runs against it:
+ * - test-results/<gameId>/baseline.json points at a run directory of that game
+ * - testGame() diffs every new run against the pinned run and embeds the result
+ *   in metadata.baseline_comparison (shown on the viewer's detail page)
+ *
+ * The pointer stores the run's directory name, not an absolute path, so the results tree can be moved.
+ */
+
+import { existsSync, statSync } from 'fs';
+import { readFile, rm, writeFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import type { TestResult } from '../shared/types.js';
+import { ErrorTemplates } from '../shared/error-handler.js';
+import {
+  diffRuns,
+  loadRun,
+  readManifest,
+  runDeviceProfile,
+  type CompareThresholds,
+  type RunComparison,
+} from './compare.js';
+
+/**
+ * Pointer file name inside a game's results directory
+ */
+export const BASELINE_FILE = 'baseline.json';
+
+/**
+ * Contents of baseline.json
+ */
+export interface BaselinePointer {
+  run: string; // Run directory name inside the game directory (e.g., "2025-01-01T12-00-00")
+  marked_at: string;
+  game_url: string;
+  status: TestResult['status'];
+  playability_score: number;
+}
+
+/**
+ * Comparison against the golden run, as embedded in result metadata
+ */
+export interface BaselineComparison extends RunComparison {
+  baseline_run: string;
+  marked_at: string;
+}
+
+/**
+ * Check whether a path is a run directory (or a file inside one)
+ * Errored runs may only have a manifest, so either file marks a run
+ */
+function isRunPath(path: string): boolean {
+  return (
+    existsSync(path) &&
+    (statSync(path).isFile() || existsSync(join(path, 'test-output.json')) || existsSync(join(path, 'manifest.json')))
+  );
+}
+
+/**
+ * Resolve the game directory for a run directory, a file in it, or the game directory itself
+ */
+function resolveGameDir(path: string): string {
+  const absolute = resolve(path);
+  if (!isRunPath(absolute)) {
+    return absolute;
+  }
+  const runDir = statSync(absolute).isFile() ? dirname(absolute) : absolute;
+  return dirname(runDir);
+}
+
+/**
+ * Read a game's baseline pointer
+ *
+ * @param gameDir - Game results directory (test-results/<gameId>)
+ * @returns Pointer, or null when no baseline is marked
+ */
+export async function readBaseline(gameDir: string): Promise<BaselinePointer | null> {
+  const path = join(gameDir, BASELINE_FILE);
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  let pointer: BaselinePointer;
+  try {
+    pointer = JSON.parse(await readFile(path, 'utf-8'));
+  } catch (error) {
+    throw ErrorTemplates.invalidBaseline(path, error instanceof Error ? error.message : String(error));
+  }
+  if (typeof pointer?.run !== 'string' || pointer.run === '') {
+    throw ErrorTemplates.invalidBaseline(path, 'missing "run"');
+  }
+  return pointer;
+}
+
+/**
+ * Mark a run as its game's golden baseline (replaces any earlier one)
+ *
+ * @param runPath - Run directory, or a file inside it
+ * @returns Written pointer
+ */
+export async function markBaseline(runPath: string): Promise<BaselinePointer> {
+  const run = await loadRun(runPath);
+  const pointer: BaselinePointer = {
+    run: basename(run.dir),
+    marked_at: new Date().toISOString(),
+    game_url: run.result.gameUrl,
+    status: run.result.status,
+    playability_score: run.result.playability_score,
+  };
+
+  await writeFile(join(dirname(run.dir), BASELINE_FILE), JSON.stringify(pointer, null, 2), 'utf-8');
+  return pointer;
+}
+
+/**
+ * Remove a game's baseline pointer
+ *
+ * @param path - Game directory, or a run directory / file of that game
+ * @returns true if a baseline was removed
+ */
+export async function clearBaseline(path: string): Promise<boolean> {
+  const pointerPath = join(resolveGameDir(path), BASELINE_FILE);
+  if (!existsSync(pointerPath)) {
+    return false;
+  }
+  await rm(pointerPath);
+  return true;
+}
+
+/**
+ * Compare a freshly finished run against its game's baseline
+ * Call after manifest.json is saved, so console errors and screenshots are compared too
+ *
+ * @param runDir - The new run's evidence directory
+ * @param result - The new run's result (test-output.json may not be written yet)
+ * @param thresholds - Regression limits
+ * @returns Comparison, or null when no baseline is marked, the run is the baseline itself or the device profiles differ
+ */
+export async function compareWithBaseline(
+  runDir: string,
+  result: TestResult,
+  thresholds: Partial<CompareThresholds> = {}
+): Promise<BaselineComparison | null> {
+  const gameDir = dirname(resolve(runDir));
+  const pointer = await readBaseline(gameDir);
+  if (!pointer || pointer.run === basename(runDir)) {
+    return null;
+  }
+
+  const baseline = await loadRun(join(gameDir, pointer.run));
+  // A run on another device (e.g., one profile of a matrix) differs in layout, size and score by design
+  if (runDeviceProfile(baseline.result) !== runDeviceProfile(result)) {
+    console.log(
+      `ℹ Baseline comparison skipped: baseline ${pointer.run} ran as ${runDeviceProfile(baseline.result)}, this run as ${runDeviceProfile(result)}`
+    );
+    return null;
+  }
+
+  const comparison = diffRuns(
+    baseline,
+    { dir: resolve(runDir), result, manifest: await readManifest(runDir) },
+    thresholds
+  );
+
+  if (comparison.regressions.length === 0) {
+    console.log(`✓ No regressions against baseline ${pointer.run} (score ${comparison.score.baseline} → ${comparison.score.candidate})`);
+  } else {
+    console.warn(`⚠ ${comparison.regressions.length} regression(s) against baseline ${pointer.run}:`);
+    for (const regression of comparison.regressions) {
+      console.warn(`  - ${regression}`);
+    }
+  }
+
+  return { ...comparison, baseline_run: pointer.run, marked_at: pointer.marked_at };
+}
+
+/**
+ * Mark, show or clear a game's baseline (shared by the CLI entry points)
+ * A run directory is marked; a game directory shows its current baseline
+ *
+ * @param path - Run directory (or a file in it), or a game directory
+ * @param options - clear: remove the game's baseline instead
+ */
+export async function runBaseline(path: string, options: { clear?: boolean } = {}): Promise<void> {
+  if (options.clear) {
+    const removed = await clearBaseline(path);
+    console.log(removed ? `✓ Baseline cleared for ${resolveGameDir(path)}` : `No baseline marked for ${resolveGameDir(path)}`);
+    return;
+  }
+
+  if (isRunPath(resolve(path))) {
+    const pointer = await markBaseline(path);
+    console.log(`✓ Baseline for ${pointer.game_url}: ${pointer.run} (${pointer.status}, score ${pointer.playability_score}/100)`);
+    return;
+  }
+
+  const gameDir = resolveGameDir(path);
+  if (!existsSync(gameDir)) {
+    throw ErrorTemplates.invalidRunDirectory(path, 'no such directory');
+  }
+  const pointer = await readBaseline(gameDir);
+  console.log(
+    pointer
+      ? `Baseline: ${pointer.run} (${pointer.status}, score ${pointer.playability_score}/100, marked ${pointer.marked_at})`
+      : `No baseline marked for ${gameDir}`
+  );
+}
@@ -0,0 +1,410 @@
+/**
+ * Batch Testing Module
+ *
+ * Runs many game tests from a manifest file with a bounded concurrency pool.
+ * Each run gets its own evidence directory; individual failures never abort the batch.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { z } from 'zod';
+import type { QAConfig, ReportFormat, TestResult } from '../shared/types.js';
+import { ErrorTemplates, handleError } from '../shared/error-handler.js';
+import { isRemoteGameUrl } from '../browser/game-source.js';
+import { applyConfigFileSettings, deviceProfileSchema, llmConfigSchema, loadConfigFile } from '../shared/config-file.js';
+import {
+  renderBatchMarkdownReport,
+  renderJUnitReport,
+  siblingReportPath,
+} from '../evidence/report-writers.js';
+import { testGame, VERSION } from './test-game.js';
+
+/**
+ * Schema for a single game entry in a batch file (object form)
+ */
+const batchGameObjectSchema = z
+  .object({
+    url: z.string().min(1).optional(),
+    gameUrl: z.string().min(1).optional(),
+    name: z.string().optional(),
+    timeout: z.number().int().positive().optional(),
+    screenshots: z.number().int().positive().optional(),
+    browser: z.enum(['browserbase', 'local']).optional(),
+    device: deviceProfileSchema.optional(),
+    headed: z.boolean().optional(),
+    llm: llmConfigSchema.optional(),
+    diffThreshold: z.number().min(0).max(1).optional(),
+  })
+  .refine((game) => game.url || game.gameUrl, { message: 'each game needs a "url"' });
+
+/**
+ * A game entry is either a bare URL/path string or an object
+ */
+const batchGameSchema = z.union([z.string().min(1), batchGameObjectSchema]);
+
+const batchDefaultsSchema = z.object({
+  timeout: z.number().int().positive().optional(),
+  screenshots: z.number().int().positive().optional(),
+  browser: z.enum(['browserbase', 'local']).optional(),
+  device: deviceProfileSchema.optional(),
+  headed: z.boolean().optional(),
+  llm: llmConfigSchema.optional(),
+  diffThreshold: z.number().min(0).max(1).optional(),
+});
+
+/**
+ * Schema for a batch file: a bare array of games, or an object with options
+ */
+const batchFileSchema = z.union([
+  z.array(batchGameSchema),
+  z.object({
+    concurrency: z.number().int().positive().optional(),
+    defaults: batchDefaultsSchema.optional(),
+    games: z.array(batchGameSchema),
+  }),
+]);
+
+/**
+ * A game config within a batch (QAConfig plus an optional display name)
+ */
+export interface BatchGameConfig extends QAConfig {
+  name?: string;
+}
+
+/**
+ * Options for testGames()
+ */
+export interface BatchOptions {
+  concurrency?: number; // Parallel browser sessions (default: 2)
+  outputDir?: string; // Results root; also where the batch summary is written
+  summaryPath?: string; // Override the summary JSON location
+  reports?: ReportFormat[]; // Batch-level reports next to the summary (default: the games' own formats)
+  onResult?: (result: TestResult, config: BatchGameConfig, index: number) => void;
+}
+
+/**
+ * Per-game line in the batch summary
+ */
+export interface BatchGameSummary {
+  index: number;
+  name?: string;
+  gameUrl: string;
+  status: TestResult['status'];
+  playability_score: number;
+  confidence: number;
+  execution_time_ms: number;
+  issue_count: number;
+  critical_issues: number;
+  evidence_dir?: string;
+}
+
+/**
+ * Batch summary written to disk after all games finish
+ */
+export interface BatchSummary {
+  batchId: string;
+  startedAt: string;
+  finishedAt: string;
+  duration_ms: number;
+  concurrency: number;
+  totals: {
+    total: number;
+    pass: number;
+    fail: number;
+    error: number;
+  };
+  average_score: number;
+  games: BatchGameSummary[];
+}
+
+/**
+ * Result of testGames()
+ */
+export interface BatchResult {
+  summary: BatchSummary;
+  summaryPath: string;
+  results: TestResult[];
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Build an error TestResult for a run that threw instead of returning
+ */
+function toErrorResult(config: QAConfig, error: unknown, startTime: number): TestResult {
+  const errorMsg = handleError(error);
+  return {
+    status: 'error',
+    gameUrl: config.gameUrl,
+    playability_score: 0,
+    confidence: 0,
+    timestamp: new Date().toISOString(),
+    execution_time_ms: Date.now() - startTime,
+    issues: [
+      {
+        type: 'other',
+        severity: 'critical',
+        description: errorMsg,
+        detected_at_ms: 0,
+      },
+    ],
+    screenshots: [],
+    metadata: {
+      actions_performed: 0,
+      screens_navigated: 0,
+      browser_errors: 0,
+      agent_version: VERSION,
+      evaluation_reasoning: errorMsg,
+    },
+  };
+}
+
+/**
+ * Summarize batch results
+ */
+function buildSummary(
+  configs: BatchGameConfig[],
+  results: TestResult[],
+  batchId: string,
+  startTime: number,
+  concurrency: number
+): BatchSummary {
+  const games: BatchGameSummary[] = results.map((result, index) => ({
+    index,
+    name: configs[index]?.name,
+    gameUrl: result.gameUrl,
+    status: result.status,
+    playability_score: result.playability_score,
+    confidence: result.confidence,
+    execution_time_ms: result.execution_time_ms,
+    issue_count: result.issues.length,
+    critical_issues: result.issues.filter((i) => i.severity === 'critical').length,
+    evidence_dir: result.metadata.evidence_dir,
+  }));
+
+  const count = (status: TestResult['status']) => results.filter((r) => r.status === status).length;
+  const totalScore = results.reduce((sum, r) => sum + r.playability_score, 0);
+  const finishedAt = Date.now();
+
+  return {
+    batchId,
+    startedAt: new Date(startTime).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    duration_ms: finishedAt - startTime,
+    concurrency,
+    totals: {
+      total: results.length,
+      pass: count('pass'),
+      fail: count('fail'),
+      error: count('error'),
+    },
+    average_score: results.length > 0 ? Math.round((totalScore / results.length) * 10) / 10 : 0,
+    games,
+  };
+}
+
+/**
+ * Run tests through a pool of at most `concurrency` parallel browser sessions
+ * Shared by batches and device matrices; a run that throws becomes an error result
+ *
+ * @param configs - Test configs (runs without a runId get b000, b001, ...)
+ * @param concurrency - Parallel browser sessions (already clamped to 1..configs.length)
+ * @param outputDir - Results root for configs without their own outputDir
+ * @param onResult - Called as each run finishes
+ * @returns Results in input order
+ */
+export async function runTestPool(
+  configs: BatchGameConfig[],
+  concurrency: number,
+  outputDir: string,
+  onResult?: BatchOptions['onResult']
+): Promise<TestResult[]> {
+  const results: TestResult[] = new Array(configs.length);
+
+  let nextIndex = 0;
+  const worker = async (): Promise<void> => {
+    while (nextIndex < configs.length) {
+      const index = nextIndex++;
+      const config = configs[index]!;
+      const label = config.name || config.gameUrl;
+      const runStart = Date.now();
+
+      console.log(`\n▶ [${index + 1}/${configs.length}] ${label}`);
+
+      let result: TestResult;
+      try {
+        result = await testGame({
+          ...config,
+          outputDir: config.outputDir ?? outputDir,
+          // Unique run directory so parallel runs of the same game never share evidence
+          runId: config.runId ?? `b${String(index).padStart(3, '0')}`,
+        });
+      } catch (error) {
+        // testGame() normally converts failures into results, but never let one run sink the batch
+        result = toErrorResult(config, error, runStart);
+      }
+
+      results[index] = result;
+      console.log(
+        `◀ [${index + 1}/${configs.length}] ${label}: ${result.status} (${result.playability_score}/100)`
+      );
+      onResult?.(result, config, index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+  return results;
+}
+
+/**
+ * Test many games with a bounded pool of parallel browser sessions
+ *
+ * @param configs - Game configs to test
+ * @param options - Batch options (concurrency, output location)
+ * @returns Per-game results (in input order) and the batch summary
+ */
+export async function testGames(
+  configs: BatchGameConfig[],
+  options: BatchOptions = {}
+): Promise<BatchResult> {
+  const startTime = Date.now();
+  const batchId = new Date(startTime).toISOString().replace(/[:.]/g, '-').substring(0, 19);
+  // A non-numeric value (e.g., NaN from a caller's parseInt) would start no workers - use the default
+  const requested = Number.isFinite(options.concurrency) ? Math.floor(options.concurrency!) : DEFAULT_CONCURRENCY;
+  const concurrency = Math.max(1, Math.min(requested, configs.length || 1));
+  const outputDir = options.outputDir ?? configs[0]?.outputDir ?? './test-results';
+
+  console.log(`📦 Starting batch of ${configs.length} game(s) with concurrency ${concurrency}`);
+  const results = await runTestPool(configs, concurrency, outputDir, options.onResult);
+
+  const summary = buildSummary(configs, results, batchId, startTime, concurrency);
+  const summaryPath = options.summaryPath ?? join(outputDir, `batch-summary-${batchId}.json`);
+
+  await mkdir(dirname(summaryPath), { recursive: true });
+  await writeFile(summaryPath, JSON.stringify(summary, null, 2), 'utf-8');
+  console.log(`\n✓ Batch summary saved: ${summaryPath}`);
+
+  // JUnit / Markdown for the whole batch go next to the summary (batch-summary-<id>.xml / .md)
+  const names = configs.map((config) => config.name);
+  for (const format of options.reports ?? configs[0]?.reports ?? []) {
+    if (format === 'json') continue;
+    const reportPath = siblingReportPath(summaryPath, format);
+    const content =
+      format === 'junit'
+        ? renderJUnitReport(results, `DreamUp QA batch ${batchId}`, names)
+        : renderBatchMarkdownReport(results, dirname(reportPath), names);
+    await writeFile(reportPath, content, 'utf-8');
+    console.log(`✓ Batch report saved: ${reportPath}`);
+  }
+
+  return { summary, summaryPath, results };
+}
+
+/**
+ * Load game configs from a batch file
+ * Relative local paths in the file are resolved against the file's directory
+ *
+ * @param filePath - Path to the batch JSON file
+ * @param overrides - Settings applied to every game (e.g., from CLI flags)
+ * @returns Game configs and the concurrency declared in the file (if any)
+ */
+export async function loadBatchFile(
+  filePath: string,
+  overrides: Partial<QAConfig> = {}
+): Promise<{ configs: BatchGameConfig[]; concurrency?: number }> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw ErrorTemplates.invalidBatchFile(filePath, error instanceof Error ? error.message : String(error));
+  }
+
+  const parsed = batchFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const reason = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw ErrorTemplates.invalidBatchFile(filePath, reason);
+  }
+
+  const file = Array.isArray(parsed.data) ? { games: parsed.data } : parsed.data;
+  const defaults = 'defaults' in file ? file.defaults ?? {} : {};
+  const baseDir = dirname(resolve(filePath));
+
+  const configs = file.games.map((game): BatchGameConfig => {
+    const entry: z.infer<typeof batchGameObjectSchema> = typeof game === 'string' ? { url: game } : game;
+    const url = (entry.url ?? entry.gameUrl)!;
+    const gameUrl = isRemoteGameUrl(url) || url.startsWith('file://') ? url : resolve(baseDir, url);
+
+    return {
+      gameUrl,
+      name: entry.name,
+      timeout: entry.timeout ?? defaults.timeout,
+      screenshotCount: entry.screenshots ?? defaults.screenshots,
+      browser: entry.browser ?? defaults.browser,
+      device: entry.device ?? defaults.device,
+      headed: entry.headed ?? defaults.headed,
+      llm: entry.llm || defaults.llm ? { ...defaults.llm, ...entry.llm } : undefined,
+      diffThreshold: entry.diffThreshold ?? defaults.diffThreshold,
+      logLevel: 'info',
+      ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined)),
+    };
+  });
+
+  return {
+    configs,
+    concurrency: 'concurrency' in file ? file.concurrency : undefined,
+  };
+}
+
+/**
+ * Print a compact batch summary table to the console
+ *
+ * @param summary - Batch summary
+ */
+export function printBatchSummary(summary: BatchSummary): void {
+  console.log('\n==============================================');
+  console.log('Batch Summary');
+  console.log('==============================================');
+  for (const game of summary.games) {
+    const icon = game.status === 'pass' ? '✓' : game.status === 'fail' ? '✗' : '⚠';
+    console.log(
+      `${icon} ${game.status.padEnd(5)} ${String(game.playability_score).padStart(3)}/100  ${game.name || game.gameUrl}`
+    );
+  }
+  console.log('----------------------------------------------');
+  console.log(
+    `Total: ${summary.totals.total}  Pass: ${summary.totals.pass}  Fail: ${summary.totals.fail}  Error: ${summary.totals.error}`
+  );
+  console.log(`Average score: ${summary.average_score}/100`);
+}
+
+/**
+ * Run a batch file end to end (shared by the CLI entry points)
+ * Settings from the config file (qa.config.*) apply underneath each game's own settings
+ *
+ * @param filePath - Path to the batch JSON file
+ * @param options - Batch options, per-game overrides from CLI flags and an explicit config file path
+ * @returns Batch result
+ */
+export async function runBatchFile(
+  filePath: string,
+  options: BatchOptions & { overrides?: Partial<QAConfig>; configPath?: string } = {}
+): Promise<BatchResult> {
+  const loaded = await loadBatchFile(filePath, options.overrides);
+  const configFile = await loadConfigFile(options.configPath);
+  if (configFile) {
+    console.log(`⚙️  Config: ${configFile.path}`);
+  }
+  const configs = loaded.configs.map(
+    (config): BatchGameConfig => ({ ...applyConfigFileSettings(config, configFile), name: config.name })
+  );
+  const concurrency = loaded.concurrency;
+
+  const result = await testGames(configs, {
+    ...options,
+    concurrency: options.concurrency ?? concurrency,
+  });
+  printBatchSummary(result.summary);
+  return result;
+}
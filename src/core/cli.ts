@@ -0,0 +1,395 @@
+/**
+ * Command Line Interface
+ *
+ * One commander program for every way of starting the agent: qa-agent, src/index.ts and
+ * core/index.ts all hand process.argv to runCli(). Subcommands (batch, matrix, replay, scenario,
+ * compare, baseline) are matched first; anything else is a game URL or local build for testGame().
+ */
+
+import { Command } from 'commander';
+import type { QAConfig, TestResult } from '../shared/types.js';
+import { BrowserAgent } from '../browser/browser-agent.js';
+import { createBrowserProvider, parseBrowserProviderName } from '../browser/browser-provider.js';
+import { parseDeviceProfileList, parseDeviceProfileName } from '../browser/device-profiles.js';
+import { isRemoteGameUrl } from '../browser/game-source.js';
+import { parseLLMCliOptions } from '../shared/llm-provider.js';
+import { applyConfigFile } from '../shared/config-file.js';
+import { ErrorTemplates, handleError } from '../shared/error-handler.js';
+import { parseReportFormats } from '../evidence/report-writers.js';
+import { testGame, VERSION } from './test-game.js';
+import { runBatchFile } from './batch.js';
+import { DEFAULT_MATRIX_PROFILES, matrixPassed, runMatrix } from './matrix.js';
+import { runReplayFile } from './replay.js';
+import { runScenarioFile } from './scenario.js';
+import { runCompare } from './compare.js';
+import { runBaseline } from './baseline.js';
+
+/**
+ * Examples shown under --help and after a usage error
+ */
+const EXAMPLES = `
+Examples:
+  qa-agent https://example.com/game
+  qa-agent ./dist/my-game   (local build: directory, .html or .zip)
+  qa-agent batch games.json --concurrency 3
+  qa-agent matrix ./dist/my-game --profiles desktop,mobile-portrait,mobile-landscape
+  qa-agent replay test-results/<game>/<run>/session.json
+  qa-agent scenario wordle.yaml
+  qa-agent compare test-results/<game>/<runA> test-results/<game>/<runB>
+  qa-agent baseline test-results/<game>/<run>`;
+
+/**
+ * Read a count option such as --concurrency, --timeout or --screenshots
+ *
+ * @param value - Raw option value
+ * @param option - Option name, for the error message
+ * @returns Positive integer
+ * @throws QAError when the value is not a positive whole number
+ */
+function parsePositiveInteger(value: string, option: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw ErrorTemplates.invalidOptionValue(option, value, 'a positive whole number');
+  }
+  return parsed;
+}
+
+/**
+ * Read a limit option such as --max-score-drop
+ *
+ * @param value - Raw option value
+ * @param option - Option name, for the error message
+ * @param integer - Only accept whole numbers (counts)
+ * @returns Finite number, 0 or more
+ * @throws QAError when the value is not a number (NaN would silently turn the check off)
+ */
+function parseNonNegativeNumber(value: string, option: string, integer: boolean = false): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+    throw ErrorTemplates.invalidOptionValue(option, value, integer ? 'a whole number, 0 or more' : 'a number, 0 or more');
+  }
+  return parsed;
+}
+
+/**
+ * Read a ratio option such as --diff-threshold (same 0-1 range as the config file)
+ *
+ * @param value - Raw option value
+ * @param option - Option name, for the error message
+ * @returns Number from 0 to 1
+ * @throws QAError when the value is not a number in range (NaN would make every change compare false)
+ */
+function parseRatio(value: string, option: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    throw ErrorTemplates.invalidOptionValue(option, value, 'a ratio from 0 to 1 (e.g., 0.0005)');
+  }
+  return parsed;
+}
+
+/**
+ * Build the qa-agent program
+ * Program options are only read before a subcommand, so `batch --timeout` reaches the batch command
+ *
+ * @returns Commander program; every action exits the process when done
+ */
+export function createProgram(): Command {
+  const program = new Command();
+
+  program
+    .name('qa-agent')
+    .version(VERSION)
+    .description('DreamUp QA Pipeline - Autonomous game testing agent')
+    .enablePositionalOptions()
+    .showHelpAfterError()
+    .addHelpText('after', EXAMPLES)
+    .argument('<gameUrl>', 'URL of the game to test, or a local build (directory, .html, .zip)')
+    .option('--timeout <ms>', 'Maximum execution time in milliseconds (default: 300000)')
+    .option('--screenshots <n>', 'Number of screenshots to capture (default: 5)')
+    .option('--output <dir>', 'Output directory for test results (default: ./test-results)')
+    .option('--headed', 'Run browser in headed mode (for debugging)')
+    .option('--browser <provider>', 'Browser backend: browserbase or local (default: local for local builds, else browserbase)')
+    .option('--device <profile>', 'Device profile: desktop, desktop-hd, iphone, android-tablet, ... (default: desktop)')
+    .option('--llm-provider <provider>', 'LLM backend: openai, anthropic, google or openai-compatible (default: openai)')
+    .option('--llm-base-url <url>', 'Base URL for openai-compatible servers (e.g., http://localhost:11434/v1)')
+    .option('--model <name>', 'Model for every LLM role (per-role: QA_MODEL_ANALYSIS/STATE/EVALUATION)')
+    .option('--diff-threshold <ratio>', 'Fraction of changed pixels that counts as a state change (default: 0.0005)')
+    .option('--config <path>', 'Config file (default: ./qa.config.ts or ./qa.config.json if present)')
+    .option('--report <formats>', 'Report formats, comma-separated: json, junit, md (default: json)')
+    .option('--no-har', 'Do not record network traffic to network.har')
+    .option('--record', 'Record frames of the whole session (frames/, recording.json)')
+    .action(async (gameUrl: string, options) => {
+      // Set up signal handlers for graceful cleanup
+      let testPromise: Promise<TestResult>;
+      let agentRef: BrowserAgent | null = null;
+
+      const cleanup = async () => {
+        if (agentRef) {
+          console.log('🔄 Cleaning up browser resources...');
+          await agentRef.cleanup();
+        }
+      };
+
+      // Handle process termination signals
+      const signalHandler = async (signal: string) => {
+        console.log(`\n⚠️  Received ${signal}, cleaning up...`);
+        await cleanup();
+        process.exit(1);
+      };
+
+      process.on('SIGINT', () => signalHandler('SIGINT'));
+      process.on('SIGTERM', () => signalHandler('SIGTERM'));
+
+      try {
+        // Only flags that were given - unset ones fall back to the config file, then defaults
+        const cliConfig: QAConfig = {
+          gameUrl,
+          timeout: options.timeout ? parsePositiveInteger(options.timeout, '--timeout') : undefined,
+          screenshotCount: options.screenshots ? parsePositiveInteger(options.screenshots, '--screenshots') : undefined,
+          outputDir: options.output,
+          headed: options.headed,
+          browser: options.browser ? parseBrowserProviderName(options.browser) : undefined,
+          device: options.device ? parseDeviceProfileName(options.device) : undefined,
+          llm: parseLLMCliOptions({
+            provider: options.llmProvider,
+            baseUrl: options.llmBaseUrl,
+            model: options.model,
+          }),
+          diffThreshold: options.diffThreshold ? parseRatio(options.diffThreshold, '--diff-threshold') : undefined,
+          reports: options.report ? parseReportFormats(options.report) : undefined,
+          har: options.har === false ? { enabled: false } : undefined,
+          recording: options.record ? { enabled: true } : undefined,
+          logLevel: 'info',
+        };
+
+        const config = await applyConfigFile(cliConfig, options.config);
+
+        // Create agent and store reference for signal handlers
+        const agent = new BrowserAgent(
+          config.timeout,
+          createBrowserProvider(config.browser ?? (isRemoteGameUrl(gameUrl) ? 'browserbase' : 'local'), {
+            headed: config.headed,
+          })
+        );
+        agentRef = agent;
+
+        const result = await testGame(config);
+        console.log('✅ Test completed');
+        console.log(JSON.stringify(result, null, 2));
+        process.exit(result.status === 'pass' ? 0 : 1);
+      } catch (error) {
+        console.error(handleError(error));
+        await cleanup();
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('batch')
+    .description('Test many games from a JSON batch file with a concurrency pool')
+    .argument('<file>', 'Batch file: JSON array of games, or { concurrency, defaults, games }')
+    .option('--concurrency <n>', 'Number of parallel browser sessions (default: 2, or file value)')
+    .option('--timeout <ms>', 'Override per-game timeout in milliseconds')
+    .option('--screenshots <n>', 'Override per-game screenshot count')
+    .option('--output <dir>', 'Output directory for test results (default: ./test-results)')
+    .option('--summary <path>', 'Where to write the batch summary JSON')
+    .option('--browser <provider>', 'Override browser backend for every game: browserbase or local')
+    .option('--device <profile>', 'Override device profile for every game (e.g., iphone, desktop-hd)')
+    .option('--config <path>', 'Config file (default: ./qa.config.ts or ./qa.config.json if present)')
+    .option('--report <formats>', 'Report formats per game and for the batch: json, junit, md (default: json)')
+    .action(async (file: string, options) => {
+      try {
+        const { summary } = await runBatchFile(file, {
+          concurrency: options.concurrency ? parsePositiveInteger(options.concurrency, '--concurrency') : undefined,
+          outputDir: options.output,
+          summaryPath: options.summary,
+          configPath: options.config,
+          overrides: {
+            outputDir: options.output,
+            timeout: options.timeout ? parsePositiveInteger(options.timeout, '--timeout') : undefined,
+            screenshotCount: options.screenshots ? parsePositiveInteger(options.screenshots, '--screenshots') : undefined,
+            browser: options.browser ? parseBrowserProviderName(options.browser) : undefined,
+            device: options.device ? parseDeviceProfileName(options.device) : undefined,
+            reports: options.report ? parseReportFormats(options.report) : undefined,
+          },
+        });
+        process.exit(summary.totals.pass === summary.totals.total ? 0 : 1);
+      } catch (error) {
+        console.error(handleError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('matrix')
+    .description('Test one game under several device profiles and report profile-specific issues')
+    .argument('<gameUrl>', 'URL of the game, or a local build (directory, .html or .zip)')
+    .option('--profiles <list>', `Device profiles, comma-separated (default: ${DEFAULT_MATRIX_PROFILES.join(',')})`)
+    .option('--concurrency <n>', 'Number of parallel browser sessions (default: 3)')
+    .option('--timeout <ms>', 'Maximum duration of each run in milliseconds')
+    .option('--screenshots <n>', 'Number of screenshots per run')
+    .option('--output <dir>', 'Output directory for test results (default: ./test-results)')
+    .option('--summary <path>', 'Where to write the matrix summary JSON')
+    .option('--browser <provider>', 'Browser backend: browserbase or local')
+    .option('--headed', 'Run browsers in headed mode (for debugging)')
+    .option('--config <path>', 'Config file (default: ./qa.config.ts or ./qa.config.json if present)')
+    .option('--report <formats>', 'Report formats per run and for the matrix: json, junit, md (default: json)')
+    .action(async (gameUrl: string, options) => {
+      try {
+        const { summary } = await runMatrix(
+          {
+            gameUrl,
+            timeout: options.timeout ? parsePositiveInteger(options.timeout, '--timeout') : undefined,
+            screenshotCount: options.screenshots ? parsePositiveInteger(options.screenshots, '--screenshots') : undefined,
+            outputDir: options.output,
+            headed: options.headed,
+            browser: options.browser ? parseBrowserProviderName(options.browser) : undefined,
+            reports: options.report ? parseReportFormats(options.report) : undefined,
+            logLevel: 'info',
+          },
+          {
+            profiles: options.profiles ? parseDeviceProfileList(options.profiles) : undefined,
+            concurrency: options.concurrency ? parsePositiveInteger(options.concurrency, '--concurrency') : undefined,
+            outputDir: options.output,
+            summaryPath: options.summary,
+            configPath: options.config,
+          }
+        );
+        process.exit(matrixPassed(summary) ? 0 : 1);
+      } catch (error) {
+        console.error(handleError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('replay')
+    .description('Re-execute a recorded session.json without LLM calls and capture fresh evidence')
+    .argument('<session>', 'Session file from a previous run (test-results/<game>/<run>/session.json)')
+    .option('--output <dir>', 'Output directory for replay evidence', './test-results')
+    .option('--browser <provider>', 'Override the recorded browser backend: browserbase or local')
+    .option('--headed', 'Run browser in headed mode (for debugging)')
+    .option('--timeout <ms>', 'Browser session timeout in milliseconds')
+    .option('--record', 'Record frames of the whole replay (frames/, recording.json)')
+    .action(async (file: string, options) => {
+      try {
+        const summary = await runReplayFile(file, {
+          outputDir: options.output,
+          browser: options.browser ? parseBrowserProviderName(options.browser) : undefined,
+          headed: options.headed || false,
+          timeout: options.timeout ? parsePositiveInteger(options.timeout, '--timeout') : undefined,
+          record: options.record,
+        });
+        process.exit(summary.totals.failed === 0 ? 0 : 1);
+      } catch (error) {
+        console.error(handleError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('scenario')
+    .description('Run a scripted scenario (YAML/JSON steps and assertions) instead of autonomous play')
+    .argument('<file>', 'Scenario file (.yaml, .yml or .json)')
+    .option('--output <dir>', 'Output directory for test results', './test-results')
+    .option('--browser <provider>', 'Override browser backend: browserbase or local')
+    .option('--device <profile>', 'Override device profile (e.g., iphone, android-tablet-landscape)')
+    .option('--headed', 'Run browser in headed mode (for debugging)')
+    .option('--timeout <ms>', 'Browser session timeout in milliseconds')
+    .option('--evaluate', 'Also score the run with the AI evaluator')
+    .option('--diff-threshold <ratio>', 'Default threshold for expect-change steps (default: 0.0005)')
+    .option('--report <formats>', 'Report formats, comma-separated: json, junit, md (default: json)')
+    .option('--record', 'Record frames of the whole run (frames/, recording.json)')
+    .action(async (file: string, options) => {
+      try {
+        const result = await runScenarioFile(file, {
+          outputDir: options.output,
+          browser: options.browser ? parseBrowserProviderName(options.browser) : undefined,
+          device: options.device ? parseDeviceProfileName(options.device) : undefined,
+          headed: options.headed,
+          timeout: options.timeout ? parsePositiveInteger(options.timeout, '--timeout') : undefined,
+          evaluate: options.evaluate,
+          diffThreshold: options.diffThreshold ? parseRatio(options.diffThreshold, '--diff-threshold') : undefined,
+          reports: options.report ? parseReportFormats(options.report) : undefined,
+          record: options.record,
+        });
+        console.log(JSON.stringify(result, null, 2));
+        process.exit(result.status === 'pass' ? 0 : 1);
+      } catch (error) {
+        console.error(handleError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('compare')
+    .description('Compare two runs of a game and report regressions (exits 1 when there are any)')
+    .argument('<baseline>', 'Baseline run directory (test-results/<game>/<run>)')
+    .argument('<candidate>', 'Candidate run directory')
+    .option('--output <file>', 'Write the comparison JSON to a file')
+    .option('--max-score-drop <n>', 'Allowed playability score drop (default: 10)')
+    .option('--max-new-issues <n>', 'Allowed new critical/major issues (default: 0)')
+    .option('--max-new-console-errors <n>', 'Allowed new console error messages (default: 0)')
+    .option('--max-response-rate-drop <n>', 'Allowed control response rate drop in points (default: 25)')
+    .option('--max-visual-diff <ratio>', 'Allowed changed-pixel ratio per screenshot pair (default: off)')
+    .action(async (baseline: string, candidate: string, options) => {
+      try {
+        const comparison = await runCompare(baseline, candidate, {
+          outputPath: options.output,
+          thresholds: {
+            maxScoreDrop: options.maxScoreDrop
+              ? parseNonNegativeNumber(options.maxScoreDrop, '--max-score-drop')
+              : undefined,
+            maxNewIssues: options.maxNewIssues
+              ? parseNonNegativeNumber(options.maxNewIssues, '--max-new-issues', true)
+              : undefined,
+            maxNewConsoleErrors: options.maxNewConsoleErrors
+              ? parseNonNegativeNumber(options.maxNewConsoleErrors, '--max-new-console-errors', true)
+              : undefined,
+            maxResponseRateDrop: options.maxResponseRateDrop
+              ? parseNonNegativeNumber(options.maxResponseRateDrop, '--max-response-rate-drop')
+              : undefined,
+            maxVisualDiff: options.maxVisualDiff
+              ? parseNonNegativeNumber(options.maxVisualDiff, '--max-visual-diff')
+              : undefined,
+          },
+        });
+        process.exit(comparison.regressions.length === 0 ? 0 : 1);
+      } catch (error) {
+        console.error(handleError(error));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('baseline')
+    .description("Mark a run as its game's golden baseline; new runs are compared against it")
+    .argument('<path>', 'Run directory to mark, or a game directory (test-results/<game>) to show its baseline')
+    .option('--clear', "Remove the game's baseline")
+    .action(async (path: string, options) => {
+      try {
+        await runBaseline(path, { clear: options.clear });
+        process.exit(0);
+      } catch (error) {
+        console.error(handleError(error));
+        process.exit(1);
+      }
+    });
+
+  return program;
+}
+
+/**
+ * Parse arguments and run the matching command
+ * Errors that escape a command (e.g., from an option parser) are reported like the commands' own
+ *
+ * @param argv - Full process.argv (node, script, then arguments)
+ */
+export async function runCli(argv: string[]): Promise<void> {
+  try {
+    await createProgram().parseAsync(argv);
+  } catch (error) {
+    console.error(handleError(error));
+    process.exit(1);
+  }
+}
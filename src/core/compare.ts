@@ -0,0 +1,430 @@
+/**
+ * Run Comparison Module
+ *
+ * Diffs two test runs of the same game (baseline vs candidate) to show what got worse:
+ * - Playability score and status
+ * - New / resolved issues, fuzzy-matched by type and description
+ * - Console errors that appeared or went away
+ * - Control response rate
+ * - Pixel diffs of corresponding screenshots
+ *
+ * Regressions are the changes that exceed the thresholds; the CLI exits non-zero when there are any.
+ */
+
+import { existsSync, statSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import type { DeviceProfileName, Issue, TestResult } from '../shared/types.js';
+import { ErrorTemplates } from '../shared/error-handler.js';
+import type { TestManifest } from '../evidence/evidence-capture.js';
+import { StateChangeDetector } from '../detection/state-change-detector.js';
+import { DEFAULT_DEVICE_PROFILE } from '../browser/device-profiles.js';
+
+/**
+ * Limits beyond which a change counts as a regression
+ */
+export interface CompareThresholds {
+  maxScoreDrop: number; // Playability points the score may drop
+  maxNewIssues: number; // New critical/major issues allowed
+  maxNewConsoleErrors: number; // New distinct console error messages allowed
+  maxResponseRateDrop: number; // Percentage points the control response rate may drop
+  maxVisualDiff?: number; // Changed-pixel ratio allowed per screenshot pair (unset: visual diffs are informational)
+}
+
+export const DEFAULT_COMPARE_THRESHOLDS: CompareThresholds = {
+  maxScoreDrop: 10,
+  maxNewIssues: 0,
+  maxNewConsoleErrors: 0,
+  maxResponseRateDrop: 25,
+};
+
+/**
+ * Minimum word overlap (Jaccard) for two issue descriptions to count as the same issue
+ */
+const ISSUE_SIMILARITY = 0.5;
+
+/**
+ * A run loaded from its evidence directory
+ */
+export interface LoadedRun {
+  dir: string;
+  result: TestResult;
+  manifest: TestManifest | null; // Older runs and error runs may lack a manifest
+}
+
+/**
+ * A pair of corresponding screenshots
+ */
+export interface ScreenshotComparison {
+  index: number;
+  description: string;
+  baseline: string;
+  candidate: string;
+  diff_ratio: number | null; // null when the images could not be compared
+  changed_regions: number;
+}
+
+/**
+ * Full comparison between two runs
+ */
+export interface RunComparison {
+  baseline: { dir: string; status: TestResult['status']; timestamp: string };
+  candidate: { dir: string; status: TestResult['status']; timestamp: string };
+  device_profiles: { baseline: DeviceProfileName; candidate: DeviceProfileName };
+  score: { baseline: number; candidate: number; delta: number };
+  issues: { new: Issue[]; resolved: Issue[]; unchanged: number };
+  console_errors: {
+    baseline: number;
+    candidate: number;
+    delta: number;
+    new_messages: string[];
+    resolved_messages: string[];
+  };
+  control_response_rate: { baseline: number | null; candidate: number | null; delta: number | null };
+  screenshots: ScreenshotComparison[];
+  thresholds: CompareThresholds;
+  regressions: string[];
+}
+
+/**
+ * Load a run from its directory (or any file inside it, e.g. test-output.json)
+ *
+ * @param path - Run directory or a file in it
+ * @returns Loaded run
+ */
+export async function loadRun(path: string): Promise<LoadedRun> {
+  const absolute = resolve(path);
+  const dir = existsSync(absolute) && statSync(absolute).isFile() ? dirname(absolute) : absolute;
+
+  let result: TestResult;
+  try {
+    result = JSON.parse(await readFile(join(dir, 'test-output.json'), 'utf-8'));
+  } catch (error) {
+    throw ErrorTemplates.invalidRunDirectory(path, error instanceof Error ? error.message : String(error));
+  }
+  if (typeof result?.playability_score !== 'number' || !Array.isArray(result.issues)) {
+    throw ErrorTemplates.invalidRunDirectory(path, 'test-output.json is not a test result');
+  }
+
+  return { dir, result, manifest: await readManifest(dir) };
+}
+
+/**
+ * Read a run's manifest.json
+ *
+ * @param dir - Run directory
+ * @returns Manifest, or null when missing or unreadable
+ */
+export async function readManifest(dir: string): Promise<TestManifest | null> {
+  try {
+    return JSON.parse(await readFile(join(dir, 'manifest.json'), 'utf-8'));
+  } catch {
+    // Comparison works without it; screenshots and console errors are skipped
+    return null;
+  }
+}
+
+/**
+ * Lowercase word set of a description, ignoring numbers and punctuation
+ */
+function words(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[0-9]+/g, ' ')
+      .split(/[^a-z]+/)
+      .filter((word) => word.length > 2)
+  );
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Device profile a run emulated (runs from before device profiles were desktop)
+ *
+ * @param result - Run result
+ * @returns Profile name
+ */
+export function runDeviceProfile(result: TestResult): DeviceProfileName {
+  return result.metadata.device_profile ?? DEFAULT_DEVICE_PROFILE;
+}
+
+/**
+ * Whether two issues from different runs are the same problem (same type, similar description)
+ *
+ * @param a - Issue from one run
+ * @param b - Issue from another run
+ * @returns true if they match
+ */
+export function isSameIssue(a: Issue, b: Issue): boolean {
+  return a.type === b.type && similarity(words(a.description), words(b.description)) >= ISSUE_SIMILARITY;
+}
+
+/**
+ * Pair up issues of the same type with similar descriptions (best match first)
+ *
+ * @returns Issues only in the candidate (new), only in the baseline (resolved), and the matched count
+ */
+function matchIssues(baseline: Issue[], candidate: Issue[]): RunComparison['issues'] {
+  const unmatched = new Set(baseline.map((_, index) => index));
+  const baselineWords = baseline.map((issue) => words(issue.description));
+  const added: Issue[] = [];
+
+  for (const issue of candidate) {
+    const issueWords = words(issue.description);
+    let best: { index: number; score: number } | null = null;
+    for (const index of unmatched) {
+      if (baseline[index]!.type !== issue.type) continue;
+      const score = similarity(baselineWords[index]!, issueWords);
+      if (score >= ISSUE_SIMILARITY && (!best || score > best.score)) {
+        best = { index, score };
+      }
+    }
+
+    if (best) {
+      unmatched.delete(best.index);
+    } else {
+      added.push(issue);
+    }
+  }
+
+  return {
+    new: added,
+    resolved: [...unmatched].map((index) => baseline[index]!),
+    unchanged: candidate.length - added.length,
+  };
+}
+
+/**
+ * Console error messages with numbers, URLs and hashes masked, so the same error matches across runs
+ */
+function errorMessages(manifest: TestManifest | null): string[] {
+  return (manifest?.consoleLogs ?? [])
+    .filter((log) => log.level === 'error')
+    .map((log) =>
+      log.message
+        .replace(/https?:\/\/\S+/g, '<url>')
+        .replace(/\b[0-9a-f]{8,}\b/gi, '<hash>')
+        .replace(/[0-9]+/g, '#')
+        .trim()
+    );
+}
+
+/**
+ * Diff the screenshots both runs took at the same position
+ */
+function compareScreenshots(baseline: LoadedRun, candidate: LoadedRun): ScreenshotComparison[] {
+  const before = baseline.manifest?.screenshots ?? [];
+  const after = candidate.manifest?.screenshots ?? [];
+  const detector = new StateChangeDetector({ saveDiffMask: false });
+  const pairs: ScreenshotComparison[] = [];
+
+  for (let index = 0; index < Math.min(before.length, after.length); index++) {
+    const baselinePath = join(baseline.dir, before[index]!.filename);
+    const candidatePath = join(candidate.dir, after[index]!.filename);
+    const diff = detector.compareScreenshots(baselinePath, candidatePath);
+    pairs.push({
+      index,
+      description: after[index]!.description,
+      baseline: baselinePath,
+      candidate: candidatePath,
+      diff_ratio: diff.diffRatio ?? null,
+      changed_regions: diff.boundingBoxes?.length ?? 0,
+    });
+  }
+
+  return pairs;
+}
+
+/**
+ * Compare two loaded runs
+ *
+ * @param baseline - Earlier (reference) run
+ * @param candidate - Run being checked
+ * @param thresholds - Regression limits (defaults: DEFAULT_COMPARE_THRESHOLDS)
+ * @returns Comparison with the list of regressions
+ */
+export function diffRuns(
+  baseline: LoadedRun,
+  candidate: LoadedRun,
+  thresholds: Partial<CompareThresholds> = {}
+): RunComparison {
+  const limits: CompareThresholds = {
+    ...DEFAULT_COMPARE_THRESHOLDS,
+    ...Object.fromEntries(Object.entries(thresholds).filter(([, value]) => value !== undefined)),
+  };
+  const a = baseline.result;
+  const b = candidate.result;
+
+  const issues = matchIssues(a.issues, b.issues);
+
+  const errorsBefore = errorMessages(baseline.manifest);
+  const errorsAfter = errorMessages(candidate.manifest);
+  const newMessages = [...new Set(errorsAfter.filter((message) => !errorsBefore.includes(message)))];
+  const resolvedMessages = [...new Set(errorsBefore.filter((message) => !errorsAfter.includes(message)))];
+  // Without manifests, fall back to the error count the result recorded
+  const errorCountBefore = baseline.manifest ? errorsBefore.length : a.metadata.browser_errors;
+  const errorCountAfter = candidate.manifest ? errorsAfter.length : b.metadata.browser_errors;
+
+  const rateBefore: number | null = a.metadata.objective_metrics?.control_response_rate ?? null;
+  const rateAfter: number | null = b.metadata.objective_metrics?.control_response_rate ?? null;
+  const rateDelta = rateBefore !== null && rateAfter !== null ? rateAfter - rateBefore : null;
+
+  const screenshots = compareScreenshots(baseline, candidate);
+
+  const regressions: string[] = [];
+  const scoreDelta = b.playability_score - a.playability_score;
+  if (a.status === 'pass' && b.status !== 'pass') {
+    regressions.push(`Status went from pass to ${b.status}`);
+  }
+  if (-scoreDelta > limits.maxScoreDrop) {
+    regressions.push(`Playability score dropped ${-scoreDelta} points (${a.playability_score} → ${b.playability_score})`);
+  }
+  const seriousNew = issues.new.filter((issue) => issue.severity !== 'minor');
+  if (seriousNew.length > limits.maxNewIssues) {
+    regressions.push(`${seriousNew.length} new critical/major issue(s)`);
+  }
+  if (newMessages.length > limits.maxNewConsoleErrors) {
+    regressions.push(`${newMessages.length} new console error message(s)`);
+  }
+  if (rateDelta !== null && -rateDelta > limits.maxResponseRateDrop) {
+    regressions.push(
+      `Control response rate dropped ${(-rateDelta).toFixed(1)} points (${rateBefore!.toFixed(1)}% → ${rateAfter!.toFixed(1)}%)`
+    );
+  }
+  if (limits.maxVisualDiff !== undefined) {
+    for (const pair of screenshots) {
+      if (pair.diff_ratio !== null && pair.diff_ratio > limits.maxVisualDiff) {
+        regressions.push(
+          `Screenshot ${pair.index} (${pair.description}) differs by ${(pair.diff_ratio * 100).toFixed(2)}%`
+        );
+      }
+    }
+  }
+
+  return {
+    baseline: { dir: baseline.dir, status: a.status, timestamp: a.timestamp },
+    candidate: { dir: candidate.dir, status: b.status, timestamp: b.timestamp },
+    device_profiles: { baseline: runDeviceProfile(a), candidate: runDeviceProfile(b) },
+    score: { baseline: a.playability_score, candidate: b.playability_score, delta: scoreDelta },
+    issues,
+    console_errors: {
+      baseline: errorCountBefore,
+      candidate: errorCountAfter,
+      delta: errorCountAfter - errorCountBefore,
+      new_messages: newMessages,
+      resolved_messages: resolvedMessages,
+    },
+    control_response_rate: { baseline: rateBefore, candidate: rateAfter, delta: rateDelta },
+    screenshots,
+    thresholds: limits,
+    regressions,
+  };
+}
+
+/**
+ * Load two runs and compare them
+ *
+ * @param baselinePath - Baseline run directory (or a file in it)
+ * @param candidatePath - Candidate run directory (or a file in it)
+ * @param thresholds - Regression limits
+ * @returns Comparison
+ */
+export async function compareRuns(
+  baselinePath: string,
+  candidatePath: string,
+  thresholds: Partial<CompareThresholds> = {}
+): Promise<RunComparison> {
+  const [baseline, candidate] = await Promise.all([loadRun(baselinePath), loadRun(candidatePath)]);
+  return diffRuns(baseline, candidate, thresholds);
+}
+
+/**
+ * Format a signed number ("+3", "-12", "0")
+ */
+function signed(value: number, digits: number = 0): string {
+  const text = value.toFixed(digits);
+  return value > 0 ? `+${text}` : text;
+}
+
+/**
+ * Print a comparison to the console
+ *
+ * @param comparison - Run comparison
+ */
+export function printComparison(comparison: RunComparison): void {
+  const { score, issues, console_errors: errors, control_response_rate: rate } = comparison;
+
+  console.log('\n==============================================');
+  console.log('Run Comparison');
+  console.log('==============================================');
+  console.log(`Baseline:  ${comparison.baseline.dir} (${comparison.baseline.status})`);
+  console.log(`Candidate: ${comparison.candidate.dir} (${comparison.candidate.status})`);
+  console.log('----------------------------------------------');
+  console.log(`Score:            ${score.baseline} → ${score.candidate} (${signed(score.delta)})`);
+  console.log(`Issues:           ${issues.new.length} new, ${issues.resolved.length} resolved, ${issues.unchanged} unchanged`);
+  for (const issue of issues.new) {
+    console.log(`  + [${issue.severity}] ${issue.type}: ${issue.description}`);
+  }
+  for (const issue of issues.resolved) {
+    console.log(`  - [${issue.severity}] ${issue.type}: ${issue.description}`);
+  }
+  console.log(`Console errors:   ${errors.baseline} → ${errors.candidate} (${signed(errors.delta)})`);
+  for (const message of errors.new_messages) {
+    console.log(`  + ${message}`);
+  }
+  if (rate.delta !== null) {
+    console.log(`Response rate:    ${rate.baseline!.toFixed(1)}% → ${rate.candidate!.toFixed(1)}% (${signed(rate.delta, 1)})`);
+  }
+  for (const pair of comparison.screenshots) {
+    const diff = pair.diff_ratio === null ? 'not comparable' : `${(pair.diff_ratio * 100).toFixed(2)}% changed`;
+    console.log(`Screenshot ${pair.index}:     ${diff} (${basename(pair.candidate)})`);
+  }
+  console.log('----------------------------------------------');
+  if (comparison.regressions.length === 0) {
+    console.log('✅ No regressions');
+  } else {
+    console.log(`❌ ${comparison.regressions.length} regression(s):`);
+    for (const regression of comparison.regressions) {
+      console.log(`  - ${regression}`);
+    }
+  }
+}
+
+/**
+ * Compare two runs, print the result and optionally save it (shared by the CLI entry points)
+ *
+ * @param baselinePath - Baseline run directory
+ * @param candidatePath - Candidate run directory
+ * @param options - Regression limits and where to write the comparison JSON
+ * @returns Comparison
+ */
+export async function runCompare(
+  baselinePath: string,
+  candidatePath: string,
+  options: { thresholds?: Partial<CompareThresholds>; outputPath?: string } = {}
+): Promise<RunComparison> {
+  const comparison = await compareRuns(baselinePath, candidatePath, options.thresholds);
+  if (comparison.device_profiles.baseline !== comparison.device_profiles.candidate) {
+    // Score, layout and screenshot differences mostly reflect the device, not a regression
+    console.warn(
+      `⚠ Runs use different device profiles (${comparison.device_profiles.baseline} vs ${comparison.device_profiles.candidate}) - regressions may be spurious`
+    );
+  }
+  printComparison(comparison);
+  if (options.outputPath) {
+    await writeFile(options.outputPath, JSON.stringify(comparison, null, 2), 'utf-8');
+    console.log(`\n✓ Comparison saved: ${options.outputPath}`);
+  }
+  return comparison;
+}
@@ -4,398 +4,27 @@
  * Autonomous AI agent for testing browser games
  */
 
-import { Command } from 'commander';
-import type { QAConfig, TestResult } from '../shared/types.js';
-import { BrowserAgent } from '../browser/browser-agent.js';
-import { EvidenceCapture } from '../evidence/evidence-capture.js';
-import { ImprovedGameInteractor } from '../interaction/improved-game-interactor.js';
-import { AIEvaluator } from '../evaluation/ai-evaluator.js';
-import { executeWithTimeout, getTimeout, TimeoutError } from '../utils/timeout-utils.js';
-import { handleError, ErrorTemplates } from '../shared/error-handler.js';
-
-const VERSION = '2.0.0'; // Updated for Layer 2
-
-/**
- * Main QA test function with Layer 2 support
- *
- * @param config - Configuration for the test
- * @returns Test result with AI evaluation
- */
-export async function testGame(config: QAConfig): Promise<TestResult> {
-  console.log(`🎮 Starting QA test for: ${config.gameUrl}`);
-
-  const startTime = Date.now();
-
-  // Wrap entire test with overall timeout to prevent hanging
-  return executeWithTimeout(
-    () => testGameInternal(config, startTime),
-    getTimeout('OVERALL_TEST'),
-    'overall game test'
-  ).catch(async (error) => {
-    let errorMsg = '';
-    if (error instanceof TimeoutError) {
-      errorMsg = handleError(
-        ErrorTemplates.pageLoadTimeout(config.gameUrl, getTimeout('OVERALL_TEST'))
-      );
-    } else if (error instanceof Error) {
-      errorMsg = handleError(error);
-    } else {
-      errorMsg = `❌ An unexpected error occurred: ${String(error)}`;
-    }
-
-    console.error(errorMsg);
-
-    return {
-      status: 'error',
-      gameUrl: config.gameUrl,
-      playability_score: 0,
-      confidence: 0,
-      timestamp: new Date().toISOString(),
-      execution_time_ms: Date.now() - startTime,
-      issues: [
-        {
-          type: 'load_failure',
-          severity: 'critical',
-          description: errorMsg,
-          detected_at_ms: 0,
-        },
-      ],
-      screenshots: [],
-      console_logs: undefined,
-      metadata: {
-        actions_performed: 0,
-        screens_navigated: 0,
-        browser_errors: 1,
-        agent_version: VERSION,
-        evaluation_reasoning: errorMsg,
-      },
-    };
-  });
-}
-
-/**
- * Internal implementation of testGame - wrapped with timeout by testGame()
- */
-async function testGameInternal(config: QAConfig, startTime: number): Promise<TestResult> {
-  const agent = new BrowserAgent(config.timeout);
-  const evidence = new EvidenceCapture(config.gameUrl, config.outputDir);
-  // Disable pre-action analysis to save time - we already analyzed the game upfront
-  const interactor = new ImprovedGameInteractor(false);
-  let evaluator: AIEvaluator | null = null;
-
-  try {
-    // Initialize browser
-    await agent.initializeBrowser();
-
-    // Setup early console capture (before navigation)
-    // Must happen before loadGame() so the script injection works
-    await agent.setupEarlyConsoleCapture(async (page) => {
-      await evidence.setupEarlyConsoleCapture(page);
-    });
-
-    // Load game
-    const page = await agent.loadGame(config.gameUrl);
-
-    // Setup evidence capture
-    // In Stagehand V3, get the actual page object from context
-    const pages = (page as any).context?.pages?.();
-    if (!pages || pages.length === 0) {
-      throw new Error('No pages available in browser context');
-    }
-
-    const playwrightPage = pages[0];
-    if (!playwrightPage) {
-      throw new Error('Playwright page is undefined');
-    }
-    evidence.setupConsoleCapture(playwrightPage);
-
-    // Get page info
-    const pageTitle = await agent.getPageTitle();
-    const currentUrl = await agent.getCurrentUrl();
-
-    console.log(`📄 Page title: ${pageTitle}`);
-    console.log(`🔗 Current URL: ${currentUrl}`);
-
-    // Capture screenshot of loaded game (initial state)
-    const initialScreenshotPath = await evidence.captureScreenshot(playwrightPage, 'Initial game load');
-
-    // Layer 3-2: Intelligent game analysis and interaction
-    console.log('\n🤖 Beginning intelligent game interaction...');
-    // Pass both the Stagehand instance and the actual Playwright page
-    interactor.setPage(page, playwrightPage);
-
-    // Objective metrics (will be populated during interaction)
-    let objectiveMetrics: {
-      totalActionsAttempted: number;
-      successfulActions: number;
-      controlsResponseRate: number;
-      intermediateScreenshots: number;
-    } | undefined;
-
-    try {
-      // Configure screenshot strategy based on screenshotCount config
-      // If screenshotCount >= 3, capture intermediate screenshots (up to 3)
-      // If screenshotCount < 3, only capture initial and final
-      const captureIntermediates = (config.screenshotCount || 5) >= 3;
-      interactor.setScreenshotStrategy(captureIntermediates);
-
-      // Analyze game and build smart action set
-      await interactor.initializeInteraction(playwrightPage, initialScreenshotPath);
-
-      // Execute multiple interaction cycles with state detection
-      // Allocate ~2 seconds per action, max 10 actions
-      const timePerAction = 2000; // 2 seconds
-      const maxActions = 10;
-      const maxInteractionTime = config.timeout ? Math.min(config.timeout * 0.8, maxActions * timePerAction) : maxActions * timePerAction;
-      const interactionStartTime = Date.now();
-
-      let successfulActions = 0;
-      let consecutiveFailures = 0;
-      const maxConsecutiveFailures = 3; // Stop if 3 actions fail in a row
-      let totalActionsAttempted = 0;
-
-      console.log(`📍 Executing up to ${maxActions} actions (${(maxInteractionTime / 1000).toFixed(1)}s available)...`);
-      console.log(`📸 Screenshot strategy: ${captureIntermediates ? 'capture intermediates (max 3)' : 'initial + final only'}`);
-
-      for (let actionNum = 0; actionNum < maxActions; actionNum++) {
-        // Check if we're running out of time
-        const elapsedTime = Date.now() - interactionStartTime;
-        if (elapsedTime > maxInteractionTime) {
-          console.log(`ℹ Time limit reached (${(elapsedTime / 1000).toFixed(1)}s), stopping interaction`);
-          break;
-        }
-
-        console.log(`\n📍 Action ${actionNum + 1}/${maxActions}`);
-
-        // Get last screenshot for comparison
-        const screenshotPaths = interactor.getScreenshotPaths();
-        const lastScreenshot = screenshotPaths[screenshotPaths.length - 1];
-
-        // Execute action with state change detection
-        const stateChanged = await interactor.executeActionCycleWithDetection(evidence, lastScreenshot!);
-        totalActionsAttempted++;
-
-        if (stateChanged) {
-          successfulActions++;
-          consecutiveFailures = 0;
-        } else {
-          consecutiveFailures++;
-          console.log(`ℹ No state change (${consecutiveFailures}/${maxConsecutiveFailures})`);
-
-          // Stop if too many consecutive failures
-          if (consecutiveFailures >= maxConsecutiveFailures) {
-            console.log('ℹ Too many consecutive failures, stopping interaction');
-            break;
-          }
-        }
-
-        // NEW: Stop after 2 successful state-changing actions (unified approach)
-        if (interactor.shouldStop()) {
-          console.log(`✅ Reached success goal (${interactor.getSuccessfulActionCount()}/2 actions), stopping interaction`);
-          break;
-        }
-      }
-
-      // Capture final screenshot after interaction completes
-      await interactor.captureFinalScreenshot(evidence);
-
-      // Calculate objective metrics
-      const controlsResponseRate = totalActionsAttempted > 0 ? (successfulActions / totalActionsAttempted) * 100 : 0;
-
-      console.log(
-        `\n✓ Interaction complete - ${interactor.getActionHistory().length} actions executed, ${successfulActions} caused state changes`
-      );
-      console.log(`📊 Control response rate: ${controlsResponseRate.toFixed(1)}% (${successfulActions}/${totalActionsAttempted})`);
-
-      // Store metrics for evaluation
-      objectiveMetrics = {
-        totalActionsAttempted,
-        successfulActions,
-        controlsResponseRate,
-        intermediateScreenshots: interactor.getScreenshotPaths().length - 2, // Exclude initial and final
-      };
-    } catch (interactionError) {
-      console.warn(
-        `⚠ Game interaction error: ${interactionError instanceof Error ? interactionError.message : String(interactionError)}`
-      );
-      // Continue to evaluation even if interaction fails
-    }
-
-    // Save evidence artifacts
-    const consoleLogPath = await evidence.saveConsoleLogs();
-    const manifestPath = await evidence.saveManifest(config.gameUrl);
-    const screenshotPaths = evidence.getScreenshotPaths();
-
-    // Layer 2: AI Evaluation
-    console.log('\n🔍 Evaluating game playability with AI...');
-    evaluator = new AIEvaluator();
-
-    const evaluation = await evaluator.evaluateGamePlayability(
-      screenshotPaths,
-      consoleLogPath,
-      config.gameUrl,
-      objectiveMetrics
-    );
-
-    // Convert evaluation to issues
-    const evaluationIssues = AIEvaluator.convertEvaluationToIssues(evaluation);
-
-    // Determine overall status
-    const status =
-      evaluation.playability_score >= 60
-        ? 'pass'
-        : evaluation.playability_score >= 30
-          ? 'fail'
-          : 'error';
-
-    // Return result with AI evaluation
-    const result: TestResult = {
-      status,
-      gameUrl: config.gameUrl,
-      playability_score: evaluation.playability_score,
-      confidence: evaluation.confidence,
-      timestamp: new Date().toISOString(),
-      execution_time_ms: Date.now() - startTime,
-      issues: evaluationIssues,
-      screenshots: screenshotPaths,
-      console_logs: consoleLogPath,
-      metadata: {
-        actions_performed: interactor.getActionHistory().length,
-        screens_navigated: 1, // Single game screen in this test
-        screenshots_captured: interactor.getScreenshotPaths().length,
-        browser_errors: evidence.getConsoleLogs().filter((l) => l.includes('[error]')).length,
-        agent_version: VERSION,
-        evaluation_reasoning: evaluation.reasoning,
-        ...(objectiveMetrics && {
-          objective_metrics: {
-            control_response_rate: objectiveMetrics.controlsResponseRate,
-            successful_actions: objectiveMetrics.successfulActions,
-            total_actions_attempted: objectiveMetrics.totalActionsAttempted,
-            intermediate_screenshots: objectiveMetrics.intermediateScreenshots,
-          },
-        }),
-      },
-    };
-
-    console.log(
-      `\n✅ Test completed - Playability Score: ${evaluation.playability_score}/100 (Confidence: ${evaluation.confidence}%)`
-    );
-    console.log(`📁 Results saved to: ${evidence.getTestDir()}`);
-    
-    // Save test result JSON to file for viewer
-    await evidence.saveTestResult(result);
-    
-    return result;
-  } catch (error) {
-    const errorMsg = handleError(error);
-    console.error(errorMsg);
-
-    // Try to save whatever evidence we have
-    try {
-      await evidence.saveConsoleLogs();
-      await evidence.saveManifest(config.gameUrl);
-    } catch (saveError) {
-      console.warn(
-        `⚠ Could not save evidence: ${saveError instanceof Error ? saveError.message : String(saveError)}`
-      );
-    }
-
-    return {
-      status: 'error',
-      gameUrl: config.gameUrl,
-      playability_score: 0,
-      confidence: 0,
-      timestamp: new Date().toISOString(),
-      execution_time_ms: Date.now() - startTime,
-      issues: [
-        {
-          type: 'load_failure',
-          severity: 'critical',
-          description: errorMsg,
-          detected_at_ms: 0,
-        },
-      ],
-      screenshots: evidence.getScreenshotPaths(),
-      console_logs: undefined,
-      metadata: {
-        actions_performed: 0,
-        screens_navigated: 0,
-        browser_errors: 1,
-        agent_version: VERSION,
-        evaluation_reasoning: errorMsg,
-      },
-    };
-  } finally {
-    // Always cleanup
-    await agent.cleanup();
-  }
-}
-
-/**
- * CLI Interface
- */
-function setupCLI(): void {
-  const program = new Command();
-
-  program
-    .version(VERSION)
-    .description('DreamUp QA Pipeline - Autonomous game testing agent')
-    .argument('<gameUrl>', 'URL of the game to test')
-    .option('--timeout <ms>', 'Maximum execution time in milliseconds', '300000')
-    .option('--screenshots <n>', 'Number of screenshots to capture', '5')
-    .option('--output <dir>', 'Output directory for test results', './test-results')
-    .option('--headed', 'Run browser in headed mode (for debugging)')
-    .action(async (gameUrl: string, options) => {
-      const config: QAConfig = {
-        gameUrl,
-        timeout: parseInt(options.timeout),
-        screenshotCount: parseInt(options.screenshots),
-        outputDir: options.output,
-        headed: options.headed || false,
-        logLevel: 'info',
-      };
-
-      // Set up signal handlers for graceful cleanup
-      let testPromise: Promise<TestResult>;
-      let agentRef: BrowserAgent | null = null;
-
-      const cleanup = async () => {
-        if (agentRef) {
-          console.log('🔄 Cleaning up browser resources...');
-          await agentRef.cleanup();
-        }
-      };
-
-      // Handle process termination signals
-      const signalHandler = async (signal: string) => {
-        console.log(`\n⚠️  Received ${signal}, cleaning up...`);
-        await cleanup();
-        process.exit(1);
-      };
-
-      process.on('SIGINT', () => signalHandler('SIGINT'));
-      process.on('SIGTERM', () => signalHandler('SIGTERM'));
-
-      try {
-        // Create agent and store reference for signal handlers
-        const agent = new BrowserAgent(config.timeout);
-        agentRef = agent;
-
-        const result = await testGame(config);
-        console.log('✅ Test completed');
-        console.log(JSON.stringify(result, null, 2));
-        process.exit(result.status === 'pass' ? 0 : 1);
-      } catch (error) {
-        console.error('❌ Test failed:', error);
-        await cleanup();
-        process.exit(1);
-      }
-    });
-
-  program.parse(process.argv);
-}
+import { runCli } from './cli.js';
+
+export { testGame, VERSION } from './test-game.js';
+export { testGames, loadBatchFile } from './batch.js';
+export type { BatchGameConfig, BatchOptions, BatchResult, BatchSummary } from './batch.js';
+export { testMatrix, analyzeMatrix, DEFAULT_MATRIX_PROFILES } from './matrix.js';
+export type { MatrixFinding, MatrixOptions, MatrixProfileSummary, MatrixResult, MatrixSummary } from './matrix.js';
+export { loadSessionFile, replaySession } from './replay.js';
+export type { ReplayOptions, ReplayStepResult, ReplaySummary } from './replay.js';
+export { testScenario } from './scenario.js';
+export type { ScenarioOptions } from './scenario.js';
+export { loadScenarioFile, parseScenario } from '../scenario/scenario-loader.js';
+export { compareRuns, diffRuns, loadRun, DEFAULT_COMPARE_THRESHOLDS } from './compare.js';
+export type { CompareThresholds, LoadedRun, RunComparison, ScreenshotComparison } from './compare.js';
+export { markBaseline, clearBaseline, readBaseline, compareWithBaseline } from './baseline.js';
+export type { BaselineComparison, BaselinePointer } from './baseline.js';
+export type { Scenario, ScenarioStep } from '../scenario/scenario-loader.js';
+
+export { createProgram, runCli } from './cli.js';
 
 // Only run CLI if this is the main module
 if (import.meta.main) {
-  setupCLI();
+  await runCli(process.argv);
 }
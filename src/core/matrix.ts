@@ -0,0 +1,399 @@
+/**
+ * Device Matrix Module
+ *
+ * Tests one game under several device profiles and compares the runs, to surface problems
+ * that only some screens have:
+ * - Issues reported on some profiles but not others (e.g., controls off-screen on a phone)
+ * - A game canvas that keeps the same size whatever the viewport (not resizing)
+ * - Large playability score gaps and pass/fail differences between profiles
+ *
+ * Runs go through the batch pool, so profiles are tested in parallel up to --concurrency.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { DeviceProfileName, Issue, QAConfig, ReportFormat, TestResult } from '../shared/types.js';
+import { applyConfigFile } from '../shared/config-file.js';
+import { getDeviceProfile } from '../browser/device-profiles.js';
+import type { LayoutSnapshot } from '../detection/layout-checker.js';
+import { escapeCell, renderJUnitReport, siblingReportPath, STATUS_ICONS } from '../evidence/report-writers.js';
+import { runTestPool } from './batch.js';
+import type { BatchGameConfig } from './batch.js';
+import { isSameIssue } from './compare.js';
+
+/**
+ * Profiles tested when none are given
+ */
+export const DEFAULT_MATRIX_PROFILES: DeviceProfileName[] = ['desktop', 'iphone', 'iphone-landscape'];
+
+const DEFAULT_MATRIX_CONCURRENCY = 3;
+
+/**
+ * Score gap (points below the best profile) that counts as a profile-specific problem
+ */
+const MAX_SCORE_GAP = 20;
+
+/**
+ * Options for testMatrix()
+ */
+export interface MatrixOptions {
+  profiles?: DeviceProfileName[]; // Default: DEFAULT_MATRIX_PROFILES
+  concurrency?: number; // Parallel browser sessions (default: 3)
+  outputDir?: string; // Results root; also where the matrix summary is written
+  summaryPath?: string; // Override the summary JSON location
+  reports?: ReportFormat[]; // Matrix-level reports next to the summary (default: the run's own formats)
+}
+
+/**
+ * Per-profile line in the matrix summary
+ */
+export interface MatrixProfileSummary {
+  profile: DeviceProfileName;
+  label: string;
+  viewport: { width: number; height: number };
+  touch: boolean;
+  status: TestResult['status'];
+  playability_score: number;
+  confidence: number;
+  issue_count: number;
+  critical_issues: number;
+  layout: LayoutSnapshot | null;
+  evidence_dir?: string;
+}
+
+/**
+ * Something that differs between profiles
+ */
+export interface MatrixFinding {
+  kind: 'profile_issue' | 'canvas_not_resizing' | 'score_gap' | 'status';
+  severity: Issue['severity'];
+  profiles: DeviceProfileName[]; // Profiles the finding applies to
+  description: string;
+}
+
+/**
+ * Matrix summary written to disk after all profiles finish
+ */
+export interface MatrixSummary {
+  matrixId: string;
+  gameUrl: string;
+  startedAt: string;
+  finishedAt: string;
+  duration_ms: number;
+  concurrency: number;
+  totals: {
+    total: number;
+    pass: number;
+    fail: number;
+    error: number;
+  };
+  profiles: MatrixProfileSummary[];
+  findings: MatrixFinding[];
+}
+
+/**
+ * Result of testMatrix()
+ */
+export interface MatrixResult {
+  summary: MatrixSummary;
+  summaryPath: string;
+  results: TestResult[];
+}
+
+/**
+ * Summarize one profile's run
+ */
+function summarizeProfile(profile: DeviceProfileName, result: TestResult): MatrixProfileSummary {
+  const device = getDeviceProfile(profile);
+  return {
+    profile,
+    label: device.label,
+    viewport: { width: device.width, height: device.height },
+    touch: device.touch,
+    status: result.status,
+    playability_score: result.playability_score,
+    confidence: result.confidence,
+    issue_count: result.issues.length,
+    critical_issues: result.issues.filter((i) => i.severity === 'critical').length,
+    layout: result.metadata.layout ?? null,
+    evidence_dir: result.metadata.evidence_dir,
+  };
+}
+
+/**
+ * Find what differs between the profiles' runs
+ * Errored runs only count towards status findings - they have no comparable issues or layout.
+ *
+ * @param profiles - Per-profile summaries
+ * @param results - Results, in the same order
+ * @returns Findings, most severe first
+ */
+export function analyzeMatrix(profiles: MatrixProfileSummary[], results: TestResult[]): MatrixFinding[] {
+  const findings: MatrixFinding[] = [];
+  const completed = profiles.map((_, index) => index).filter((index) => results[index]!.status !== 'error');
+
+  // Pass/fail differences
+  const passing = profiles.filter((p) => p.status === 'pass');
+  if (passing.length > 0) {
+    for (const profile of profiles.filter((p) => p.status !== 'pass')) {
+      findings.push({
+        kind: 'status',
+        severity: profile.status === 'error' ? 'critical' : 'major',
+        profiles: [profile.profile],
+        description:
+          `${profile.status === 'error' ? 'Errors' : 'Fails'} on ${profile.label} (${profile.playability_score}/100) ` +
+          `but passes on ${passing.map((p) => p.label).join(', ')}`,
+      });
+    }
+  }
+
+  // Score gaps against the best completed profile
+  const best = completed
+    .map((index) => profiles[index]!)
+    .reduce<MatrixProfileSummary | null>((top, p) => (!top || p.playability_score > top.playability_score ? p : top), null);
+  if (best) {
+    for (const index of completed) {
+      const profile = profiles[index]!;
+      const gap = best.playability_score - profile.playability_score;
+      if (gap > MAX_SCORE_GAP) {
+        findings.push({
+          kind: 'score_gap',
+          severity: 'major',
+          profiles: [profile.profile],
+          description:
+            `Playability on ${profile.label} is ${gap} points below ${best.label} ` +
+            `(${profile.playability_score} vs ${best.playability_score})`,
+        });
+      }
+    }
+  }
+
+  // Issues only some profiles report, grouped across the profiles that share them
+  if (completed.length > 1) {
+    const claimed = completed.map((index) => results[index]!.issues.map(() => false));
+    completed.forEach((index, position) => {
+      results[index]!.issues.forEach((issue, issueIndex) => {
+        if (claimed[position]![issueIndex]) return;
+        claimed[position]![issueIndex] = true;
+
+        const sharedBy: DeviceProfileName[] = [profiles[index]!.profile];
+        completed.forEach((other, otherPosition) => {
+          if (otherPosition === position) return;
+          const match = results[other]!.issues.findIndex(
+            (candidate, candidateIndex) => !claimed[otherPosition]![candidateIndex] && isSameIssue(issue, candidate)
+          );
+          if (match !== -1) {
+            claimed[otherPosition]![match] = true;
+            sharedBy.push(profiles[other]!.profile);
+          }
+        });
+
+        if (sharedBy.length < completed.length) {
+          findings.push({
+            kind: 'profile_issue',
+            severity: issue.severity,
+            profiles: sharedBy,
+            description: `[${issue.type}] ${issue.description}`,
+          });
+        }
+      });
+    });
+  }
+
+  // Same canvas size on different viewports: the game doesn't resize to the screen
+  const surfaces = completed
+    .map((index) => profiles[index]!)
+    .filter((p) => p.layout?.surface?.kind === 'canvas');
+  const viewports = new Set(surfaces.map((p) => `${p.viewport.width}x${p.viewport.height}`));
+  const first = surfaces[0]?.layout?.surface;
+  if (
+    first &&
+    viewports.size > 1 &&
+    surfaces.every(
+      (p) => Math.abs(p.layout!.surface!.width - first.width) <= 1 && Math.abs(p.layout!.surface!.height - first.height) <= 1
+    )
+  ) {
+    findings.push({
+      kind: 'canvas_not_resizing',
+      severity: surfaces.some((p) => p.layout!.surface!.clipped_ratio > 0) ? 'major' : 'minor',
+      profiles: surfaces.map((p) => p.profile),
+      description:
+        `Game canvas stays ${first.width}x${first.height} on every viewport (${[...viewports].join(', ')}) - ` +
+        'it does not resize to the screen',
+    });
+  }
+
+  const rank: Record<Issue['severity'], number> = { critical: 0, major: 1, minor: 2 };
+  return findings.sort((a, b) => rank[a.severity] - rank[b.severity]);
+}
+
+/**
+ * Render a matrix summary as Markdown
+ *
+ * @param summary - Matrix summary
+ * @returns Markdown document
+ */
+export function renderMatrixMarkdownReport(summary: MatrixSummary): string {
+  const lines: string[] = [];
+  lines.push(`## DreamUp QA device matrix - ${summary.gameUrl}`);
+  lines.push('');
+  lines.push(
+    `**${summary.totals.pass}** passed, **${summary.totals.fail}** failed, **${summary.totals.error}** errored ` +
+      `of ${summary.totals.total} profile(s) - ${summary.findings.length} profile-specific finding(s)`
+  );
+  lines.push('');
+  lines.push('| | Profile | Viewport | Score | Issues | Game surface | Off-screen controls |');
+  lines.push('|---|---|---|---|---|---|---|');
+  for (const profile of summary.profiles) {
+    const surface = profile.layout?.surface;
+    const surfaceCell = surface
+      ? `${surface.kind} ${surface.width}x${surface.height}${surface.clipped_ratio > 0 ? ` (${Math.round(surface.clipped_ratio * 100)}% clipped)` : ''}`
+      : '-';
+    lines.push(
+      `| ${STATUS_ICONS[profile.status]} | ${escapeCell(profile.label)} | ${profile.viewport.width}x${profile.viewport.height}` +
+        `${profile.touch ? ' touch' : ''} | ${profile.playability_score}/100 | ${profile.issue_count} | ${surfaceCell} | ` +
+        `${profile.layout ? profile.layout.offscreen_count : '-'} |`
+    );
+  }
+  lines.push('');
+
+  lines.push(`### Profile-specific findings (${summary.findings.length})`);
+  lines.push('');
+  if (summary.findings.length === 0) {
+    lines.push('All profiles behaved the same.');
+  } else {
+    lines.push('| Severity | Profiles | Finding |');
+    lines.push('|---|---|---|');
+    for (const finding of summary.findings) {
+      lines.push(`| ${finding.severity} | ${finding.profiles.join(', ')} | ${escapeCell(finding.description)} |`);
+    }
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Test one game under several device profiles and compare the runs
+ *
+ * @param config - Game config (its device is replaced per profile)
+ * @param options - Profiles, concurrency and output location
+ * @returns Per-profile results (in profile order) and the matrix summary
+ */
+export async function testMatrix(config: QAConfig, options: MatrixOptions = {}): Promise<MatrixResult> {
+  const startTime = Date.now();
+  const matrixId = new Date(startTime).toISOString().replace(/[:.]/g, '-').substring(0, 19);
+  const profiles = options.profiles ?? DEFAULT_MATRIX_PROFILES;
+  const requested = Number.isFinite(options.concurrency) ? Math.floor(options.concurrency!) : DEFAULT_MATRIX_CONCURRENCY;
+  const concurrency = Math.max(1, Math.min(requested, profiles.length));
+  const outputDir = options.outputDir ?? config.outputDir ?? './test-results';
+
+  const configs = profiles.map(
+    (profile): BatchGameConfig => ({
+      ...config,
+      device: profile,
+      name: getDeviceProfile(profile).label,
+      // Run directories end in the profile name (<timestamp>-iphone)
+      runId: profile,
+    })
+  );
+
+  console.log(`📱 Starting device matrix for ${config.gameUrl}: ${profiles.join(', ')} (concurrency ${concurrency})`);
+  const results = await runTestPool(configs, concurrency, outputDir);
+
+  const profileSummaries = profiles.map((profile, index) => summarizeProfile(profile, results[index]!));
+  const count = (status: TestResult['status']) => results.filter((r) => r.status === status).length;
+  const finishedAt = Date.now();
+  const summary: MatrixSummary = {
+    matrixId,
+    gameUrl: config.gameUrl,
+    startedAt: new Date(startTime).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    duration_ms: finishedAt - startTime,
+    concurrency,
+    totals: {
+      total: results.length,
+      pass: count('pass'),
+      fail: count('fail'),
+      error: count('error'),
+    },
+    profiles: profileSummaries,
+    findings: analyzeMatrix(profileSummaries, results),
+  };
+
+  const summaryPath = options.summaryPath ?? join(outputDir, `matrix-summary-${matrixId}.json`);
+  await mkdir(dirname(summaryPath), { recursive: true });
+  await writeFile(summaryPath, JSON.stringify(summary, null, 2), 'utf-8');
+  console.log(`\n✓ Matrix summary saved: ${summaryPath}`);
+
+  for (const format of options.reports ?? config.reports ?? []) {
+    if (format === 'json') continue;
+    const reportPath = siblingReportPath(summaryPath, format);
+    const content =
+      format === 'junit'
+        ? renderJUnitReport(results, `DreamUp QA matrix ${matrixId}`, configs.map((c) => c.name))
+        : renderMatrixMarkdownReport(summary);
+    await writeFile(reportPath, content, 'utf-8');
+    console.log(`✓ Matrix report saved: ${reportPath}`);
+  }
+
+  return { summary, summaryPath, results };
+}
+
+/**
+ * Print a compact matrix summary to the console
+ *
+ * @param summary - Matrix summary
+ */
+export function printMatrixSummary(summary: MatrixSummary): void {
+  console.log('\n==============================================');
+  console.log('Device Matrix Summary');
+  console.log('==============================================');
+  for (const profile of summary.profiles) {
+    const icon = profile.status === 'pass' ? '✓' : profile.status === 'fail' ? '✗' : '⚠';
+    const viewport = `${profile.viewport.width}x${profile.viewport.height}`;
+    console.log(
+      `${icon} ${profile.status.padEnd(5)} ${String(profile.playability_score).padStart(3)}/100  ` +
+        `${profile.label} (${viewport}), ${profile.issue_count} issue(s)`
+    );
+  }
+  console.log('----------------------------------------------');
+  if (summary.findings.length === 0) {
+    console.log('✅ No profile-specific findings');
+  } else {
+    console.log(`⚠ ${summary.findings.length} profile-specific finding(s):`);
+    for (const finding of summary.findings) {
+      console.log(`  - [${finding.severity}] ${finding.profiles.join(', ')}: ${finding.description}`);
+    }
+  }
+}
+
+/**
+ * Whether a matrix counts as passing: every profile passes and nothing differs beyond minor findings
+ *
+ * @param summary - Matrix summary
+ * @returns true if the matrix passed
+ */
+export function matrixPassed(summary: MatrixSummary): boolean {
+  return (
+    summary.totals.pass === summary.totals.total && summary.findings.every((finding) => finding.severity === 'minor')
+  );
+}
+
+/**
+ * Run a device matrix end to end (shared by the CLI entry points)
+ * Settings from the config file (qa.config.*) apply underneath the CLI flags
+ *
+ * @param config - Game config built from CLI flags
+ * @param options - Matrix options and an explicit config file path
+ * @returns Matrix result
+ */
+export async function runMatrix(
+  config: QAConfig,
+  options: MatrixOptions & { configPath?: string } = {}
+): Promise<MatrixResult> {
+  const effective = await applyConfigFile(config, options.configPath);
+  const result = await testMatrix(effective, options);
+  printMatrixSummary(result.summary);
+  return result;
+}
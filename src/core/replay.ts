@@ -0,0 +1,490 @@
+/**
+ * Session Replay Module
+ *
+ * Re-executes a recorded interaction session (session.json) without any LLM calls:
+ * - Stagehand's resolved actions are replayed with act(action), which skips inference
+ * - Inputs act() never resolved (or never saw) are sent as raw input: keys and text go to the focused game
+ *   element, clicks, taps and swipes replay at their recorded points
+ * - Key holds and combos, drags, mouse moves, wheel scrolls and double-clicks replay through the same direct input path
+ * - The recorded device profile (viewport, touch, user agent) is emulated again
+ * - Steps run at their recorded offsets so game timers see the same pacing
+ *
+ * Fresh screenshots and console logs land in a new run directory for comparison with the original.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { z } from 'zod';
+import type { Action as StagehandAction, Stagehand } from '@browserbasehq/stagehand';
+import type { BrowserProviderName } from '../shared/types.js';
+import { ErrorTemplates, handleError } from '../shared/error-handler.js';
+import { BrowserAgent } from '../browser/browser-agent.js';
+import { createBrowserProvider } from '../browser/browser-provider.js';
+import { resolveGameSource, type ResolvedGameSource } from '../browser/game-source.js';
+import { getDeviceProfile } from '../browser/device-profiles.js';
+import { deviceProfileSchema } from '../shared/config-file.js';
+import { getViewportSize, swipe, swipeEnd, tap } from '../interaction/touch-input.js';
+import { describeInputAction, executeInputAction, isDirectInputAction } from '../interaction/input-actions.js';
+import { EvidenceCapture } from '../evidence/evidence-capture.js';
+import {
+  SESSION_VERSION,
+  type InteractionSession,
+  type SessionActionStep,
+} from '../evidence/session-recorder.js';
+import { executeWithTimeout, getTimeout } from '../utils/timeout-utils.js';
+import { VERSION } from './test-game.js';
+
+const stagehandActionSchema = z.object({
+  selector: z.string(),
+  description: z.string(),
+  method: z.string().optional(),
+  arguments: z.array(z.string()).optional(),
+});
+
+const inputPointSchema = z.object({ x: z.number(), y: z.number() });
+
+const sessionStepSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('action'),
+    index: z.number().int().nonnegative(),
+    offset_ms: z.number().nonnegative(),
+    source: z.enum(['action-set', 'modal-close']),
+    action: z.object({
+      type: z.enum([
+        'click',
+        'type',
+        'key',
+        'wait',
+        'tap',
+        'swipe',
+        'keyHold',
+        'keyCombo',
+        'drag',
+        'mouseMove',
+        'wheel',
+        'dblclick',
+      ]),
+      target: z.string().optional(),
+      value: z.string().optional(),
+      duration: z.number().nonnegative().optional(),
+      x: z.number().optional(),
+      y: z.number().optional(),
+      direction: z.enum(['left', 'right', 'up', 'down']).optional(),
+      distance: z.number().nonnegative().optional(),
+      from: inputPointSchema.optional(),
+      to: inputPointSchema.optional(),
+      steps: z.number().int().positive().optional(),
+      deltaX: z.number().optional(),
+      deltaY: z.number().optional(),
+      modifiers: z.array(z.enum(['Alt', 'Control', 'Meta', 'Shift'])).optional(),
+    }),
+    instruction: z.string(),
+    resolved: z.array(stagehandActionSchema),
+    success: z.boolean(),
+    duration_ms: z.number().nonnegative(),
+  }),
+  z.object({
+    kind: z.literal('wait'),
+    index: z.number().int().nonnegative(),
+    offset_ms: z.number().nonnegative(),
+    duration_ms: z.number().nonnegative(),
+    reason: z.string(),
+  }),
+]);
+
+/**
+ * Schema for session.json
+ */
+const sessionFileSchema = z.object({
+  version: z.literal(SESSION_VERSION),
+  recordedAt: z.string(),
+  gameUrl: z.string().min(1),
+  initialUrl: z.string().min(1),
+  localSource: z
+    .object({
+      path: z.string(),
+      kind: z.enum(['directory', 'file', 'zip']),
+      entry: z.string(),
+    })
+    .optional(),
+  browser: z.enum(['browserbase', 'local']).optional(),
+  device: deviceProfileSchema.optional(),
+  viewport: z
+    .object({
+      width: z.number().int().positive(),
+      height: z.number().int().positive(),
+      deviceScaleFactor: z.number().positive(),
+    })
+    .nullable(),
+  duration_ms: z.number().nonnegative(),
+  steps: z.array(sessionStepSchema),
+});
+
+/**
+ * Options for replaySession()
+ */
+export interface ReplayOptions {
+  outputDir?: string; // Results root (default: ./test-results)
+  browser?: BrowserProviderName; // Override the recorded browser backend
+  headed?: boolean;
+  timeout?: number; // Browser session timeout in milliseconds
+  sessionPath?: string; // Recorded in the replay summary
+  record?: boolean; // Record frames of the whole replay (frames/, recording.json)
+}
+
+/**
+ * How a recorded step was replayed
+ */
+export interface ReplayStepResult {
+  index: number;
+  kind: 'action' | 'wait';
+  mode: 'stagehand' | 'keyboard' | 'mouse' | 'touch' | 'wait' | 'skipped';
+  success: boolean;
+  offset_ms: number; // Recorded offset
+  replayed_offset_ms: number; // Actual offset during replay
+  detail: string;
+}
+
+/**
+ * Replay summary written to replay.json in the new run directory
+ */
+export interface ReplaySummary {
+  sessionPath?: string;
+  gameUrl: string;
+  recordedAt: string;
+  replayedAt: string;
+  duration_ms: number;
+  original_duration_ms: number;
+  evidence_dir: string;
+  screenshots: string[];
+  totals: {
+    steps: number;
+    executed: number;
+    failed: number;
+    skipped: number;
+  };
+  steps: ReplayStepResult[];
+}
+
+/**
+ * Load and validate a session file
+ *
+ * @param filePath - Path to session.json
+ * @returns Recorded session
+ */
+export async function loadSessionFile(filePath: string): Promise<InteractionSession> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw ErrorTemplates.invalidSessionFile(filePath, error instanceof Error ? error.message : String(error));
+  }
+
+  const parsed = sessionFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const reason = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw ErrorTemplates.invalidSessionFile(filePath, reason);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * How a step without resolved Stagehand actions is replayed
+ */
+function rawInputMode(step: SessionActionStep): ReplayStepResult['mode'] {
+  switch (step.action.type) {
+    case 'tap':
+    case 'swipe':
+      return 'touch';
+    case 'key':
+    case 'type':
+    case 'keyHold':
+    case 'keyCombo':
+      return 'keyboard';
+    case 'wait':
+      return 'wait';
+    default:
+      return 'mouse';
+  }
+}
+
+/**
+ * Replay one recorded input
+ * Resolved Stagehand actions are executed as-is; without them keys, text, gestures and clicks at a point are reproduced
+ */
+async function replayActionStep(
+  stagehand: Stagehand,
+  page: any,
+  step: SessionActionStep
+): Promise<Pick<ReplayStepResult, 'mode' | 'success' | 'detail'>> {
+  if (step.resolved.length > 0) {
+    for (const action of step.resolved) {
+      const result = await executeWithTimeout(
+        () => stagehand.act(action as StagehandAction),
+        getTimeout('STAGEHAND_ACT'),
+        `replay: ${action.description}`
+      );
+      if (!result.success) {
+        return { mode: 'stagehand', success: false, detail: `${action.description}: ${result.message}` };
+      }
+    }
+    return {
+      mode: 'stagehand',
+      success: true,
+      detail: step.resolved.map((action) => action.description).join('; '),
+    };
+  }
+
+  if (!step.success) {
+    // Nothing reached the page in the original run either
+    return { mode: 'skipped', success: true, detail: 'input failed in the original run' };
+  }
+
+  if (isDirectInputAction(step.action)) {
+    // Points and amounts were resolved when recorded, so this is the exact same input
+    const action = { ...step.action, timestamp: Date.now() };
+    await executeInputAction(page, action);
+    return { mode: rawInputMode(step), success: true, detail: describeInputAction(action) };
+  }
+
+  const { type, value, duration, x, y, direction, distance } = step.action;
+  switch (type) {
+    case 'key':
+    case 'type': {
+      const action = { ...step.action, value: value || (type === 'key' ? 'Space' : ''), timestamp: Date.now() };
+      await executeInputAction(page, action);
+      return { mode: 'keyboard', success: true, detail: describeInputAction(action) };
+    }
+    case 'click':
+      // Clicks sent without act() were recorded at the point they landed
+      if (x === undefined || y === undefined) break;
+      await executeInputAction(page, { ...step.action, timestamp: Date.now() });
+      return { mode: 'mouse', success: true, detail: `click (${x}, ${y})` };
+    case 'wait':
+      await new Promise((resolve) => setTimeout(resolve, duration ?? 1000));
+      return { mode: 'wait', success: true, detail: `wait ${duration ?? 1000}ms` };
+    case 'tap':
+      if (x === undefined || y === undefined) break;
+      await tap(page, { x, y });
+      return { mode: 'touch', success: true, detail: `tap (${x}, ${y})` };
+    case 'swipe': {
+      if (x === undefined || y === undefined || !direction) break;
+      const end = swipeEnd({ x, y }, direction, await getViewportSize(page), distance);
+      await swipe(page, { x, y }, end, duration);
+      return { mode: 'touch', success: true, detail: `swipe ${direction} (${x}, ${y}) → (${end.x}, ${end.y})` };
+    }
+  }
+  return { mode: 'skipped', success: false, detail: `no resolved target recorded for ${type}` };
+}
+
+/**
+ * Re-execute a recorded session and capture fresh evidence
+ * No LLM is called: actions replay from recorded selectors and self-healing is disabled
+ *
+ * @param session - Recorded session
+ * @param options - Output location and browser overrides
+ * @returns Replay summary
+ */
+export async function replaySession(
+  session: InteractionSession,
+  options: ReplayOptions = {}
+): Promise<ReplaySummary> {
+  const startTime = Date.now();
+
+  // Local builds are served again (on a new port) from the recorded path
+  const source = await resolveGameSource(session.localSource?.path ?? session.gameUrl);
+  try {
+    return await replayFromSource(session, options, source, startTime);
+  } finally {
+    await source.close();
+  }
+}
+
+/**
+ * Replay a session against a resolved game source; the caller closes it (after the browser is cleaned up)
+ */
+async function replayFromSource(
+  session: InteractionSession,
+  options: ReplayOptions,
+  source: ResolvedGameSource,
+  startTime: number
+): Promise<ReplaySummary> {
+  const browser = options.browser ?? session.browser ?? (source.local ? 'local' : 'browserbase');
+  if (source.local && browser !== 'local') {
+    throw ErrorTemplates.localGameRequiresLocalBrowser(source.local.path);
+  }
+
+  const agent = new BrowserAgent(
+    options.timeout,
+    createBrowserProvider(browser, { headed: options.headed, selfHeal: false })
+  );
+  const evidence = new EvidenceCapture(source.gameUrl, options.outputDir, 'replay');
+  evidence.setRecordingSettings({ enabled: options.record });
+  if (source.local) {
+    evidence.setLocalSource(source.local);
+  }
+
+  if (session.device) {
+    // Same device as the recording: viewport, touch and user agent
+    agent.setDeviceProfile(getDeviceProfile(session.device));
+  }
+
+  const steps: ReplayStepResult[] = [];
+
+  try {
+    const stagehand = await agent.initializeBrowser();
+
+    // Same viewport as the recording, so recorded coordinates and layout still line up
+    // (sessions recorded before device profiles only have the viewport)
+    const page = (stagehand as any).context?.pages?.()[0];
+    if (!page) {
+      throw new Error('No pages available in browser context');
+    }
+    if (session.viewport && !session.device) {
+      const { width, height, deviceScaleFactor } = session.viewport;
+      try {
+        await page.setViewportSize(width, height, { deviceScaleFactor });
+        console.log(`🖥️  Viewport: ${width}x${height} @${deviceScaleFactor}x`);
+      } catch (error) {
+        console.warn(`⚠ Could not restore viewport: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    await agent.setupEarlyConsoleCapture(async (earlyPage) => {
+      await evidence.setupEarlyConsoleCapture(earlyPage);
+    });
+
+    // Remote games start from the URL interaction began on (after redirects)
+    await agent.loadGame(source.local ? source.loadUrl : session.initialUrl);
+    evidence.setupConsoleCapture(page);
+    await evidence.captureScreenshot(page, 'Replay start');
+
+    console.log(`\n⏯  Replaying ${session.steps.length} step(s) recorded ${session.recordedAt}...`);
+    const replayStart = Date.now();
+
+    for (const step of session.steps) {
+      // Keep the recorded pacing: never run a step earlier than it originally ran
+      const delay = step.offset_ms - (Date.now() - replayStart);
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+      const replayedOffset = Date.now() - replayStart;
+
+      if (step.kind === 'wait') {
+        await new Promise((resolve) => setTimeout(resolve, step.duration_ms));
+        steps.push({
+          index: step.index,
+          kind: 'wait',
+          mode: 'wait',
+          success: true,
+          offset_ms: step.offset_ms,
+          replayed_offset_ms: replayedOffset,
+          detail: `${step.reason} (${step.duration_ms}ms)`,
+        });
+        continue;
+      }
+
+      let outcome: Pick<ReplayStepResult, 'mode' | 'success' | 'detail'>;
+      try {
+        outcome = await replayActionStep(stagehand, page, step);
+      } catch (error) {
+        outcome = {
+          mode: step.resolved.length > 0 ? 'stagehand' : rawInputMode(step),
+          success: false,
+          detail: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      const icon = outcome.mode === 'skipped' ? '⏭' : outcome.success ? '✓' : '✗';
+      console.log(`${icon} Step ${step.index} [${step.action.type}] ${outcome.mode}: ${outcome.detail}`);
+      steps.push({
+        index: step.index,
+        kind: 'action',
+        ...outcome,
+        offset_ms: step.offset_ms,
+        replayed_offset_ms: replayedOffset,
+      });
+
+      if (outcome.mode !== 'skipped') {
+        await evidence.captureScreenshot(page, `After replay step ${step.index}: ${step.action.type}`);
+      }
+    }
+
+    await evidence.captureScreenshot(page, 'Final state');
+  } catch (error) {
+    console.error(handleError(error));
+    steps.push({
+      index: steps.length,
+      kind: 'action',
+      mode: 'skipped',
+      success: false,
+      offset_ms: 0,
+      replayed_offset_ms: Date.now() - startTime,
+      detail: `Replay aborted: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  } finally {
+    try {
+      await evidence.saveHar(source.gameUrl, VERSION);
+      await evidence.saveRecording();
+      await evidence.saveConsoleLogs();
+      await evidence.saveManifest(source.gameUrl);
+    } catch (saveError) {
+      console.warn(
+        `⚠ Could not save evidence: ${saveError instanceof Error ? saveError.message : String(saveError)}`
+      );
+    }
+    await agent.cleanup();
+  }
+
+  const actionSteps = steps.filter((step) => step.kind === 'action');
+  const summary: ReplaySummary = {
+    ...(options.sessionPath && { sessionPath: resolve(options.sessionPath) }),
+    gameUrl: source.gameUrl,
+    recordedAt: session.recordedAt,
+    replayedAt: new Date(startTime).toISOString(),
+    duration_ms: Date.now() - startTime,
+    original_duration_ms: session.duration_ms,
+    evidence_dir: evidence.getTestDir(),
+    screenshots: evidence.getScreenshotPaths(),
+    totals: {
+      steps: steps.length,
+      executed: actionSteps.filter((step) => step.mode !== 'skipped').length,
+      failed: steps.filter((step) => !step.success).length,
+      skipped: actionSteps.filter((step) => step.mode === 'skipped').length,
+    },
+    steps,
+  };
+
+  const summaryPath = join(evidence.getTestDir(), 'replay.json');
+  await writeFile(summaryPath, JSON.stringify(summary, null, 2), 'utf-8');
+  console.log(`✓ Replay summary saved: replay.json`);
+
+  return summary;
+}
+
+/**
+ * Load a session file and replay it (shared by the CLI entry points)
+ *
+ * @param filePath - Path to session.json
+ * @param options - Replay options
+ * @returns Replay summary
+ */
+export async function runReplayFile(filePath: string, options: ReplayOptions = {}): Promise<ReplaySummary> {
+  const session = await loadSessionFile(filePath);
+  const summary = await replaySession(session, { ...options, sessionPath: filePath });
+
+  console.log('\n==============================================');
+  console.log('Replay Summary');
+  console.log('==============================================');
+  console.log(
+    `Steps: ${summary.totals.steps}  Executed: ${summary.totals.executed}  Failed: ${summary.totals.failed}  Skipped: ${summary.totals.skipped}`
+  );
+  console.log(
+    `Duration: ${(summary.duration_ms / 1000).toFixed(1)}s (original interaction: ${(summary.original_duration_ms / 1000).toFixed(1)}s)`
+  );
+  console.log(`📁 Replay evidence: ${summary.evidence_dir}`);
+  return summary;
+}
@@ -0,0 +1,255 @@
+/**
+ * Scenario Testing Module
+ *
+ * Runs a declarative scenario (scripted inputs + assertions) instead of autonomous play,
+ * for games that need known inputs to reach interesting states.
+ * Evidence and results use the same layout and TestResult shape as testGame().
+ */
+
+import type { BrowserProviderName, DeviceProfileName, Issue, LLMConfig, ReportFormat, TestResult } from '../shared/types.js';
+import { ErrorTemplates, handleError } from '../shared/error-handler.js';
+import { BrowserAgent } from '../browser/browser-agent.js';
+import { createBrowserProvider } from '../browser/browser-provider.js';
+import { getDeviceProfile } from '../browser/device-profiles.js';
+import { resolveGameSource, type ResolvedGameSource } from '../browser/game-source.js';
+import { EvidenceCapture } from '../evidence/evidence-capture.js';
+import { AIEvaluator } from '../evaluation/ai-evaluator.js';
+import { createModelProvider, type ModelProvider } from '../shared/llm-provider.js';
+import { loadScenarioFile, type Scenario } from '../scenario/scenario-loader.js';
+import { INPUT_STEPS, ScenarioRunner, type ScenarioStepResult } from '../scenario/scenario-runner.js';
+import { VERSION } from './test-game.js';
+
+/**
+ * Options for testScenario() (override the scenario file where set)
+ */
+export interface ScenarioOptions {
+  outputDir?: string;
+  browser?: BrowserProviderName;
+  device?: DeviceProfileName; // Viewport and touch emulation
+  headed?: boolean;
+  timeout?: number; // Browser session timeout in milliseconds
+  evaluate?: boolean; // Also run the AI evaluator on the captured screenshots
+  llm?: LLMConfig; // Used only when evaluating
+  diffThreshold?: number; // Default threshold for expect-change steps
+  reports?: ReportFormat[]; // Extra report files next to test-output.json
+  record?: boolean; // Record frames of the whole run (frames/, recording.json)
+}
+
+/**
+ * Score a scenario from its assertions alone
+ * Deterministic: the share of assertions that passed (100 when there are none and every input succeeded)
+ */
+function scoreAssertions(results: ScenarioStepResult[]): number {
+  const assertions = results.filter((r) => r.type === 'expect-change' || r.type === 'expect-text');
+  const checked = assertions.length > 0 ? assertions : results;
+  if (checked.length === 0) return 100;
+  return Math.round((checked.filter((r) => r.passed).length / checked.length) * 100);
+}
+
+/**
+ * Run a scenario against its game and produce a TestResult
+ *
+ * @param scenario - Loaded scenario
+ * @param options - Overrides for browser, output and evaluation
+ * @returns Test result; failed assertions are reported as issues
+ */
+export async function testScenario(scenario: Scenario, options: ScenarioOptions = {}): Promise<TestResult> {
+  const startTime = Date.now();
+  console.log(`📜 Running scenario "${scenario.name}" (${scenario.steps.length} steps)`);
+
+  const evaluate = options.evaluate ?? scenario.evaluate;
+  // Resolve LLM provider first so missing credentials fail before any browser work
+  const models = evaluate ? createModelProvider(options.llm) : null;
+
+  const source = await resolveGameSource(scenario.gameUrl);
+  try {
+    return await runScenario(scenario, options, source, models, startTime);
+  } finally {
+    await source.close();
+  }
+}
+
+/**
+ * Run a scenario against a resolved game source; the caller closes it (after the browser is cleaned up)
+ */
+async function runScenario(
+  scenario: Scenario,
+  options: ScenarioOptions,
+  source: ResolvedGameSource,
+  models: ModelProvider | null,
+  startTime: number
+): Promise<TestResult> {
+  const gameUrl = source.gameUrl;
+
+  const browser = options.browser ?? scenario.browser ?? (source.local ? 'local' : 'browserbase');
+  if (source.local && browser !== 'local') {
+    throw ErrorTemplates.localGameRequiresLocalBrowser(source.local.path);
+  }
+
+  const agent = new BrowserAgent(
+    options.timeout ?? scenario.timeout,
+    createBrowserProvider(browser, { headed: options.headed ?? scenario.headed })
+  );
+  const device = getDeviceProfile(options.device ?? scenario.device);
+  agent.setDeviceProfile(device);
+  const evidence = new EvidenceCapture(gameUrl, options.outputDir, 'scenario');
+  evidence.setRecordingSettings({ enabled: options.record });
+  if (source.local) {
+    evidence.setLocalSource(source.local);
+  }
+
+  try {
+    await agent.initializeBrowser();
+    await agent.setupEarlyConsoleCapture(async (page) => {
+      await evidence.setupEarlyConsoleCapture(page);
+    });
+
+    const stagehand = await agent.loadGame(source.loadUrl);
+    const page = (stagehand as any).context?.pages?.()[0];
+    if (!page) {
+      throw new Error('No pages available in browser context');
+    }
+    evidence.setupConsoleCapture(page);
+
+    const pageTitle = await agent.getPageTitle();
+    await evidence.captureScreenshot(page, 'Initial game load');
+
+    const runner = new ScenarioRunner(page, evidence, options.diffThreshold);
+    const stepResults = await runner.run(scenario.steps);
+    const scenarioIssues = runner.getIssues();
+
+    await evidence.captureScreenshot(page, 'Final state');
+
+    await evidence.saveHar(pageTitle, VERSION);
+    await evidence.saveRecording();
+    const consoleLogPath = await evidence.saveConsoleLogs();
+    await evidence.saveManifest(gameUrl);
+    const screenshotPaths = evidence.getScreenshotPaths();
+
+    const passedSteps = stepResults.filter((r) => r.passed).length;
+    console.log(`\n📊 Scenario: ${passedSteps}/${stepResults.length} steps passed`);
+
+    const pageErrorIssues = evidence.getPageErrorIssues(source.loadUrl);
+    let issues: Issue[] = [...scenarioIssues, ...pageErrorIssues];
+    let playabilityScore = scoreAssertions(stepResults);
+    let confidence = 100;
+    let reasoning = `Scenario "${scenario.name}": ${passedSteps}/${stepResults.length} steps passed`;
+
+    if (models) {
+      console.log('\n🔍 Evaluating game playability with AI...');
+      const evaluation = await new AIEvaluator(models).evaluateGamePlayability(screenshotPaths, consoleLogPath, gameUrl);
+      issues = [...scenarioIssues, ...pageErrorIssues, ...AIEvaluator.convertEvaluationToIssues(evaluation)];
+      playabilityScore = evaluation.playability_score;
+      confidence = evaluation.confidence;
+      reasoning = `${reasoning}. ${evaluation.reasoning}`;
+    }
+
+    // Any failed step fails the scenario, whatever the evaluator thinks
+    const status =
+      scenarioIssues.length > 0
+        ? 'fail'
+        : playabilityScore >= 60
+          ? 'pass'
+          : playabilityScore >= 30
+            ? 'fail'
+            : 'error';
+
+    const result: TestResult = {
+      status,
+      gameUrl,
+      playability_score: playabilityScore,
+      confidence,
+      timestamp: new Date().toISOString(),
+      execution_time_ms: Date.now() - startTime,
+      issues,
+      screenshots: screenshotPaths,
+      console_logs: consoleLogPath,
+      metadata: {
+        game_title: pageTitle,
+        actions_performed: stepResults.filter((r) => INPUT_STEPS.includes(r.type)).length,
+        screens_navigated: 1,
+        screenshots_captured: screenshotPaths.length,
+        browser_errors: evidence.getConsoleLogs().filter((l) => l.includes('[error]')).length,
+        page_errors: evidence.getPageErrorSummary(),
+        network: evidence.getNetworkSummary(),
+        agent_version: VERSION,
+        device_profile: device.name,
+        device_emulated: agent.isDeviceEmulated(),
+        evidence_dir: evidence.getTestDir(),
+        evaluation_reasoning: reasoning,
+        ...(models && { llm: models.getSummary() }),
+        scenario: {
+          name: scenario.name,
+          steps_total: stepResults.length,
+          steps_passed: passedSteps,
+          steps: stepResults,
+        },
+      },
+    };
+
+    console.log(`\n✅ Scenario completed - ${status} (${playabilityScore}/100)`);
+    console.log(`📁 Results saved to: ${evidence.getTestDir()}`);
+    await evidence.saveTestResult(result);
+    await evidence.saveReports(result, options.reports);
+    await evidence.saveHtmlReport(result);
+
+    return result;
+  } catch (error) {
+    const errorMsg = handleError(error);
+    console.error(errorMsg);
+
+    try {
+      await evidence.saveHar(gameUrl, VERSION);
+      await evidence.saveRecording();
+      await evidence.saveConsoleLogs();
+      await evidence.saveManifest(gameUrl);
+    } catch (saveError) {
+      console.warn(
+        `⚠ Could not save evidence: ${saveError instanceof Error ? saveError.message : String(saveError)}`
+      );
+    }
+
+    return {
+      status: 'error',
+      gameUrl,
+      playability_score: 0,
+      confidence: 0,
+      timestamp: new Date().toISOString(),
+      execution_time_ms: Date.now() - startTime,
+      issues: [
+        {
+          type: 'load_failure',
+          severity: 'critical',
+          description: errorMsg,
+          detected_at_ms: 0,
+        },
+      ],
+      screenshots: evidence.getScreenshotPaths(),
+      console_logs: undefined,
+      metadata: {
+        actions_performed: 0,
+        screens_navigated: 0,
+        browser_errors: 1,
+        agent_version: VERSION,
+        device_profile: device.name,
+        device_emulated: agent.isDeviceEmulated(),
+        evidence_dir: evidence.getTestDir(),
+        evaluation_reasoning: errorMsg,
+      },
+    };
+  } finally {
+    await agent.cleanup();
+  }
+}
+
+/**
+ * Load a scenario file and run it (shared by the CLI entry points)
+ *
+ * @param filePath - Path to a .yaml/.yml or .json scenario
+ * @param options - Overrides for browser, output and evaluation
+ * @returns Test result
+ */
+export async function runScenarioFile(filePath: string, options: ScenarioOptions = {}): Promise<TestResult> {
+  const scenario = await loadScenarioFile(filePath);
+  return testScenario(scenario, options);
+}
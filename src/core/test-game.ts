@@ -0,0 +1,568 @@
+/**
+ * Single-Game Test
+ *
+ * testGame() runs the full pipeline for one game: load, analyze, interact, capture evidence
+ * and evaluate. Kept apart from core/index.ts so the batch, matrix, replay and scenario
+ * modules can import it (and VERSION) without importing the package entry point.
+ */
+
+import type { Issue, QAConfig, TestResult } from '../shared/types.js';
+import { BrowserAgent } from '../browser/browser-agent.js';
+import { createBrowserProvider } from '../browser/browser-provider.js';
+import { DEFAULT_DEVICE_PROFILE, getDeviceProfile } from '../browser/device-profiles.js';
+import { resolveGameSource, type ResolvedGameSource } from '../browser/game-source.js';
+import { EvidenceCapture } from '../evidence/evidence-capture.js';
+import { SessionRecorder } from '../evidence/session-recorder.js';
+import { ImprovedGameInteractor } from '../interaction/improved-game-interactor.js';
+import { AIEvaluator } from '../evaluation/ai-evaluator.js';
+import { DEFAULT_DIFF_THRESHOLD } from '../detection/state-change-detector.js';
+import { frameTimingToIssues, PerformanceProbe, summarizeFrameTiming } from '../detection/performance-probe.js';
+import { checkLayout, layoutToIssues } from '../detection/layout-checker.js';
+import { HeapMonitor, heapTrendToIssues } from '../detection/heap-monitor.js';
+import { createModelProvider, type ModelProvider } from '../shared/llm-provider.js';
+import { resolveInteractionSettings } from '../shared/config-file.js';
+import { executeWithTimeout, getTimeout, OPERATION_TIMEOUTS, TimeoutError } from '../utils/timeout-utils.js';
+import { BudgetExhaustedError, TimeoutBudget } from '../utils/timeout-budget.js';
+import { handleError, ErrorTemplates } from '../shared/error-handler.js';
+import { compareWithBaseline } from './baseline.js';
+
+export const VERSION = '2.0.0'; // Updated for Layer 2
+
+/**
+ * Mean of the non-null values (undefined when there are none)
+ */
+function average(values: Array<number | null>): number | undefined {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? present.reduce((sum, v) => sum + v, 0) / present.length : undefined;
+}
+
+/**
+ * Main QA test function with Layer 2 support
+ *
+ * @param config - Configuration for the test
+ * @returns Test result with AI evaluation
+ */
+export async function testGame(config: QAConfig): Promise<TestResult> {
+  console.log(`🎮 Starting QA test for: ${config.gameUrl}`);
+
+  const startTime = Date.now();
+  // One overall budget (--timeout, else OVERALL_TEST) shared out between the test phases
+  const budget = new TimeoutBudget(config.timeout ?? getTimeout('OVERALL_TEST', config.timeouts), config.budget);
+
+  // Wrap entire test with overall timeout to prevent hanging
+  return executeWithTimeout(
+    () => testGameInternal(config, startTime, budget),
+    budget.getTotal(),
+    'overall game test'
+  ).catch(async (error) => {
+    let errorMsg = '';
+    if (error instanceof TimeoutError) {
+      // Report the phase that was running when the overall budget ran out
+      const report = budget.getReport();
+      const phase = report.phases.find((p) => p.phase === budget.getCurrentPhase());
+      errorMsg = handleError(
+        ErrorTemplates.budgetExhausted(phase?.phase ?? 'setup/reporting', phase?.budget_ms ?? report.total_ms, report.total_ms)
+      );
+    } else if (error instanceof Error) {
+      errorMsg = handleError(error);
+    } else {
+      errorMsg = `❌ An unexpected error occurred: ${String(error)}`;
+    }
+
+    console.error(errorMsg);
+
+    return {
+      status: 'error',
+      gameUrl: config.gameUrl,
+      playability_score: 0,
+      confidence: 0,
+      timestamp: new Date().toISOString(),
+      execution_time_ms: Date.now() - startTime,
+      issues: [
+        {
+          type: 'load_failure',
+          severity: 'critical',
+          description: errorMsg,
+          detected_at_ms: 0,
+        },
+      ],
+      screenshots: [],
+      console_logs: undefined,
+      metadata: {
+        actions_performed: 0,
+        screens_navigated: 0,
+        browser_errors: 1,
+        agent_version: VERSION,
+        device_profile: config.device ?? DEFAULT_DEVICE_PROFILE,
+        evaluation_reasoning: errorMsg,
+        timeout_budget: budget.getReport(),
+      },
+    };
+  });
+}
+
+/**
+ * Internal implementation of testGame - wrapped with timeout by testGame()
+ */
+async function testGameInternal(config: QAConfig, startTime: number, budget: TimeoutBudget): Promise<TestResult> {
+  // Resolve LLM provider first so missing credentials fail before any browser work
+  const models = createModelProvider(config.llm);
+  console.log(`🧠 LLM: ${models.describe('evaluation')} (state checks: ${models.getModelName('state')})`);
+
+  // Resolve URL or local build (directory / .html / .zip served from 127.0.0.1)
+  const source = await resolveGameSource(config.gameUrl);
+  try {
+    return await testGameSource(config, source, models, startTime, budget);
+  } finally {
+    await source.close();
+  }
+}
+
+/**
+ * Test a resolved game source; the caller closes it (after the browser is cleaned up)
+ */
+async function testGameSource(
+  config: QAConfig,
+  source: ResolvedGameSource,
+  models: ModelProvider,
+  startTime: number,
+  budget: TimeoutBudget
+): Promise<TestResult> {
+  const gameUrl = source.gameUrl;
+
+  // Local builds default to a local browser - remote sessions can't reach 127.0.0.1
+  const browser = config.browser ?? (source.local ? 'local' : 'browserbase');
+  if (source.local && browser !== 'local') {
+    throw ErrorTemplates.localGameRequiresLocalBrowser(source.local.path);
+  }
+
+  const agent = new BrowserAgent(
+    budget.getTotal(),
+    createBrowserProvider(browser, { headed: config.headed, models })
+  );
+  // Same viewport (and touch support) on every backend, so runs are comparable
+  const device = getDeviceProfile(config.device);
+  agent.setDeviceProfile(device);
+  const evidence = new EvidenceCapture(gameUrl, config.outputDir, config.runId);
+  evidence.setHarSettings(config.har);
+  evidence.setRecordingSettings(config.recording);
+  if (source.local) {
+    evidence.setLocalSource(source.local);
+  }
+  // Every input is recorded so the run can be replayed with `qa-agent replay`
+  const session = new SessionRecorder(config.gameUrl, browser, device.name);
+  // Disable pre-action analysis to save time - we already analyzed the game upfront
+  const interactor = new ImprovedGameInteractor(false, models);
+  const limits = resolveInteractionSettings(config.interaction);
+  interactor.setMaxSuccessfulActions(limits.maxSuccessfulActions);
+  interactor.setInputMode(limits.inputMode);
+  interactor.setTouchEnabled(device.touch);
+  if (config.timeouts) {
+    interactor.setTimeouts(config.timeouts);
+  }
+  // Frame pacing is measured in the page during interaction
+  const performanceProbe = new PerformanceProbe();
+  // JS heap is sampled after every action cycle to catch leaks (with the frame probe paused:
+  // each sample forces a garbage collection)
+  const heapMonitor = new HeapMonitor();
+  let evaluator: AIEvaluator | null = null;
+
+  try {
+    // Navigation phase: browser start, page load and the first screenshot
+    const { page, playwrightPage, pageTitle, initialScreenshotPath, layout, layoutIssues } = await budget.run('navigation', async () => {
+      // Initialize browser
+      await agent.initializeBrowser();
+
+      // Setup early console capture (before navigation)
+      // Must happen before loadGame() so the script injection works
+      await agent.setupEarlyConsoleCapture(async (page) => {
+        await evidence.setupEarlyConsoleCapture(page);
+        await performanceProbe.install(page);
+      });
+
+      // Load game
+      const page = await agent.loadGame(source.loadUrl);
+
+      // Setup evidence capture
+      // In Stagehand V3, get the actual page object from context
+      const pages = (page as any).context?.pages?.();
+      if (!pages || pages.length === 0) {
+        throw new Error('No pages available in browser context');
+      }
+
+      const playwrightPage = pages[0];
+      if (!playwrightPage) {
+        throw new Error('Playwright page is undefined');
+      }
+      evidence.setupConsoleCapture(playwrightPage);
+
+      // Get page info
+      const pageTitle = await agent.getPageTitle();
+      const currentUrl = await agent.getCurrentUrl();
+
+      console.log(`📄 Page title: ${pageTitle}`);
+      console.log(`🔗 Current URL: ${currentUrl}`);
+
+      // Capture screenshot of loaded game (initial state)
+      const initialScreenshotPath = await evidence.captureScreenshot(playwrightPage, 'Initial game load');
+
+      // Does the game fit this device's viewport (canvas, controls)?
+      const layout = await checkLayout(playwrightPage);
+      const layoutIssues = layoutToIssues(layout, Date.now() - startTime);
+      if (layoutIssues.length > 0) {
+        console.log(`⚠ ${layoutIssues.length} layout issue(s) at ${device.width}x${device.height}`);
+      }
+
+      return { page, playwrightPage, pageTitle, initialScreenshotPath, layout, layoutIssues };
+    });
+
+    // Layer 3-2: Intelligent game analysis and interaction
+    console.log('\n🤖 Beginning intelligent game interaction...');
+    // Pass both the Stagehand instance and the actual Playwright page
+    interactor.setPage(page, playwrightPage);
+    await session.start(playwrightPage, source.local);
+    interactor.setSessionRecorder(session);
+
+    // Objective metrics (will be populated during interaction)
+    let objectiveMetrics: {
+      totalActionsAttempted: number;
+      successfulActions: number;
+      controlsResponseRate: number;
+      intermediateScreenshots: number;
+      averageIdleChangeRatio?: number;
+      averageInputChangeRatio?: number;
+      averageFps?: number;
+      p95FrameTimeMs?: number;
+      longFrames?: number;
+      longTasks?: number;
+    } | undefined;
+    const performanceIssues: Issue[] = [];
+
+    try {
+      // Configure screenshot strategy based on screenshotCount config
+      // If screenshotCount >= 3, capture intermediate screenshots (up to 3)
+      // If screenshotCount < 3, only capture initial and final
+      const captureIntermediates = (config.screenshotCount || 5) >= 3;
+      interactor.setScreenshotStrategy(captureIntermediates);
+      if (config.diffThreshold !== undefined) {
+        interactor.setDiffThreshold(config.diffThreshold);
+      }
+
+      // Analyze game and build smart action set
+      await budget.run('analysis', () => interactor.initializeInteraction(playwrightPage, initialScreenshotPath));
+
+      // Execute multiple interaction cycles with state detection
+      // Allocate timePerAction per action, up to maxActions (defaults: 2s, 10 actions),
+      // but never past the interaction phase's deadline
+      const { maxActions, timePerAction, maxConsecutiveFailures } = limits;
+      const maxInteractionTime = Math.min(budget.begin('interaction'), maxActions * timePerAction);
+      const interactionStartTime = Date.now();
+      await performanceProbe.start(playwrightPage);
+      await performanceProbe.whilePaused(() => heapMonitor.sample(playwrightPage, 'interaction start'));
+
+      let successfulActions = 0;
+      let consecutiveFailures = 0; // Stop after maxConsecutiveFailures actions in a row with no change
+      let totalActionsAttempted = 0;
+
+      console.log(`📍 Executing up to ${maxActions} actions (${(maxInteractionTime / 1000).toFixed(1)}s available)...`);
+      console.log(`📸 Screenshot strategy: ${captureIntermediates ? 'capture intermediates (max 3)' : 'initial + final only'}`);
+
+      for (let actionNum = 0; actionNum < maxActions; actionNum++) {
+        // Check if we're running out of time
+        const elapsedTime = Date.now() - interactionStartTime;
+        if (elapsedTime > maxInteractionTime) {
+          console.log(`ℹ Time limit reached (${(elapsedTime / 1000).toFixed(1)}s), stopping interaction`);
+          break;
+        }
+
+        console.log(`\n📍 Action ${actionNum + 1}/${maxActions}`);
+
+        // Get last screenshot for comparison
+        const screenshotPaths = interactor.getScreenshotPaths();
+        const lastScreenshot = screenshotPaths[screenshotPaths.length - 1];
+
+        // Execute action with state change detection
+        const stateChanged = await interactor.executeActionCycleWithDetection(evidence, lastScreenshot!);
+        totalActionsAttempted++;
+        await performanceProbe.whilePaused(() => heapMonitor.sample(playwrightPage, `action ${actionNum + 1}`));
+
+        if (stateChanged) {
+          successfulActions++;
+          consecutiveFailures = 0;
+        } else {
+          consecutiveFailures++;
+          console.log(`ℹ No state change (${consecutiveFailures}/${maxConsecutiveFailures})`);
+
+          // Stop if too many consecutive failures
+          if (consecutiveFailures >= maxConsecutiveFailures) {
+            console.log('ℹ Too many consecutive failures, stopping interaction');
+            break;
+          }
+        }
+
+        // Stop after maxSuccessfulActions state-changing actions (unified approach)
+        if (interactor.shouldStop()) {
+          console.log(
+            `✅ Reached success goal (${interactor.getSuccessfulActionCount()}/${limits.maxSuccessfulActions} actions), stopping interaction`
+          );
+          break;
+        }
+      }
+
+      budget.end('interaction');
+
+      // Frame pacing over the interaction window
+      const frameSample = await performanceProbe.collect();
+      const frameTiming = frameSample ? summarizeFrameTiming(frameSample) : null;
+      if (frameTiming) {
+        console.log(
+          `🎞️  Frame rate: ${frameTiming.avg_fps} FPS avg, p95 ${frameTiming.p95_frame_time_ms}ms, ` +
+            `${frameTiming.long_frames} long frame(s), ${frameTiming.long_tasks} long task(s)`
+        );
+        performanceIssues.push(...frameTimingToIssues(frameTiming, config.performance, interactionStartTime - startTime));
+      }
+
+      // Capture final screenshot after interaction completes
+      await interactor.captureFinalScreenshot(evidence);
+
+      // Heap growth over the same window, closed by one more sample (the frame probe is done)
+      await heapMonitor.sample(playwrightPage, 'final');
+      const heapTrend = heapMonitor.getTrend();
+      if (heapTrend) {
+        console.log(
+          `💾 JS heap: ${(heapTrend.start_bytes / (1024 * 1024)).toFixed(1)} MB → ${(heapTrend.end_bytes / (1024 * 1024)).toFixed(1)} MB ` +
+            `(${heapTrend.growth_rate_kb_per_sec} KB/s over ${heapTrend.samples} samples${heapTrend.monotonic ? ', steady growth' : ''})`
+        );
+        performanceIssues.push(...heapTrendToIssues(heapTrend, config.memory, interactionStartTime - startTime));
+      }
+
+      // Calculate objective metrics
+      const probes = interactor.getChangeProbes();
+      const controlsResponseRate = totalActionsAttempted > 0 ? (successfulActions / totalActionsAttempted) * 100 : 0;
+
+      console.log(
+        `\n✓ Interaction complete - ${interactor.getActionHistory().length} actions executed, ${successfulActions} caused state changes`
+      );
+      console.log(`📊 Control response rate: ${controlsResponseRate.toFixed(1)}% (${successfulActions}/${totalActionsAttempted})`);
+      const latency = Object.entries(interactor.getInputLatency())
+        .map(([path, stats]) => `${path} ${stats.avg_ms}ms avg (${stats.actions})`)
+        .join(', ');
+      if (latency) {
+        console.log(`⏱  Input latency: ${latency}`);
+      }
+
+      // Store metrics for evaluation
+      objectiveMetrics = {
+        totalActionsAttempted,
+        successfulActions,
+        controlsResponseRate,
+        intermediateScreenshots: interactor.getScreenshotPaths().length - 2, // Exclude initial and final
+        averageIdleChangeRatio: average(probes.map((p) => p.idle_diff_ratio)),
+        averageInputChangeRatio: average(probes.map((p) => p.input_diff_ratio)),
+        averageFps: frameTiming?.avg_fps,
+        p95FrameTimeMs: frameTiming?.p95_frame_time_ms,
+        longFrames: frameTiming?.long_frames,
+        longTasks: frameTiming?.long_tasks,
+      };
+    } catch (interactionError) {
+      budget.end('interaction');
+      console.warn(
+        `⚠ Game interaction error: ${interactionError instanceof Error ? interactionError.message : String(interactionError)}`
+      );
+      // Continue to evaluation even if interaction fails
+    }
+
+    // Save evidence artifacts
+    await evidence.saveSession(session.getSession());
+    evidence.setHeapSamples(heapMonitor.getSamples());
+    await evidence.saveHar(pageTitle, VERSION);
+    await evidence.saveRecording();
+    const consoleLogPath = await evidence.saveConsoleLogs();
+    const manifestPath = await evidence.saveManifest(gameUrl);
+    const screenshotPaths = evidence.getScreenshotPaths();
+
+    // Page errors and failed requests become issues without the LLM
+    const pageErrorIssues = evidence.getPageErrorIssues(source.loadUrl);
+    if (pageErrorIssues.length > 0) {
+      console.log(`⚠ ${pageErrorIssues.length} issue(s) from page errors and failed requests`);
+    }
+    if (performanceIssues.length > 0) {
+      console.log(`⚠ ${performanceIssues.length} performance issue(s) from frame timing and heap growth`);
+    }
+
+    // Layer 2: AI Evaluation
+    console.log('\n🔍 Evaluating game playability with AI...');
+    evaluator = new AIEvaluator(models);
+    // The AI call gets whatever is left of the evaluation phase (it falls back to heuristics on timeout)
+    const evaluationBudget = budget.begin('evaluation');
+    evaluator.setTimeouts({
+      ...config.timeouts,
+      AI_EVALUATION: Math.min(getTimeout('AI_EVALUATION', config.timeouts), evaluationBudget),
+    });
+
+    const evaluation = await evaluator.evaluateGamePlayability(
+      screenshotPaths,
+      consoleLogPath,
+      gameUrl,
+      objectiveMetrics
+    );
+    budget.end('evaluation');
+
+    // Convert evaluation to issues
+    const evaluationIssues = AIEvaluator.convertEvaluationToIssues(evaluation);
+    const issues = [...pageErrorIssues, ...layoutIssues, ...performanceIssues, ...evaluationIssues];
+
+    // Determine overall status
+    const status =
+      evaluation.playability_score >= 60
+        ? 'pass'
+        : evaluation.playability_score >= 30
+          ? 'fail'
+          : 'error';
+
+    // Return result with AI evaluation
+    const result: TestResult = {
+      status,
+      gameUrl,
+      playability_score: evaluation.playability_score,
+      confidence: evaluation.confidence,
+      timestamp: new Date().toISOString(),
+      execution_time_ms: Date.now() - startTime,
+      issues,
+      screenshots: screenshotPaths,
+      console_logs: consoleLogPath,
+      metadata: {
+        game_title: pageTitle,
+        actions_performed: interactor.getActionHistory().length,
+        screens_navigated: 1, // Single game screen in this test
+        screenshots_captured: interactor.getScreenshotPaths().length,
+        browser_errors: evidence.getConsoleLogs().filter((l) => l.includes('[error]')).length,
+        page_errors: evidence.getPageErrorSummary(),
+        network: evidence.getNetworkSummary(),
+        memory: heapMonitor.getTrend() ?? undefined,
+        layout: layout ?? undefined,
+        agent_version: VERSION,
+        device_profile: device.name,
+        device_emulated: agent.isDeviceEmulated(),
+        evidence_dir: evidence.getTestDir(),
+        evaluation_reasoning: evaluation.reasoning,
+        timeout_budget: budget.getReport(),
+        llm: models.getSummary(),
+        diff_threshold: config.diffThreshold ?? DEFAULT_DIFF_THRESHOLD,
+        settings: {
+          max_actions: limits.maxActions,
+          time_per_action_ms: limits.timePerAction,
+          max_successful_actions: limits.maxSuccessfulActions,
+          max_consecutive_failures: limits.maxConsecutiveFailures,
+          input_mode: limits.inputMode,
+          screenshot_count: config.screenshotCount || 5,
+          timeout_ms: budget.getTotal(),
+          operation_timeouts: { ...OPERATION_TIMEOUTS, ...config.timeouts },
+          ...(config.configSource && {
+            config_file: config.configSource.path,
+            config_overrides: config.configSource.overrides,
+          }),
+        },
+        ...(objectiveMetrics && {
+          objective_metrics: {
+            control_response_rate: objectiveMetrics.controlsResponseRate,
+            successful_actions: objectiveMetrics.successfulActions,
+            total_actions_attempted: objectiveMetrics.totalActionsAttempted,
+            intermediate_screenshots: objectiveMetrics.intermediateScreenshots,
+            idle_change_ratio: objectiveMetrics.averageIdleChangeRatio ?? null,
+            input_change_ratio: objectiveMetrics.averageInputChangeRatio ?? null,
+            avg_fps: objectiveMetrics.averageFps ?? null,
+            p95_frame_time_ms: objectiveMetrics.p95FrameTimeMs ?? null,
+            long_frames: objectiveMetrics.longFrames ?? null,
+            long_tasks: objectiveMetrics.longTasks ?? null,
+            change_probes: interactor.getChangeProbes(),
+            input_latency: interactor.getInputLatency(),
+          },
+        }),
+      },
+    };
+
+    console.log(
+      `\n✅ Test completed - Playability Score: ${evaluation.playability_score}/100 (Confidence: ${evaluation.confidence}%)`
+    );
+    console.log(`📁 Results saved to: ${evidence.getTestDir()}`);
+
+    // Check the run against the game's golden baseline, if one is marked
+    try {
+      const baselineComparison = await compareWithBaseline(evidence.getTestDir(), result);
+      if (baselineComparison) {
+        result.metadata.baseline_comparison = baselineComparison;
+      }
+    } catch (baselineError) {
+      console.warn(
+        `⚠ Baseline comparison skipped: ${baselineError instanceof Error ? baselineError.message : String(baselineError)}`
+      );
+    }
+    
+    // Save test result JSON to file for viewer, plus any extra report formats
+    await evidence.saveTestResult(result);
+    await evidence.saveReports(result, config.reports);
+    await evidence.saveHtmlReport(result);
+    
+    return result;
+  } catch (error) {
+    const errorMsg = handleError(
+      error instanceof BudgetExhaustedError
+        ? ErrorTemplates.budgetExhausted(error.phase, error.budgetMs, budget.getTotal())
+        : error
+    );
+    console.error(errorMsg);
+
+    // Try to save whatever evidence we have
+    try {
+      if (session.getStepCount() > 0) {
+        await evidence.saveSession(session.getSession());
+      }
+      evidence.setHeapSamples(heapMonitor.getSamples());
+      await evidence.saveHar(gameUrl, VERSION);
+      await evidence.saveRecording();
+      await evidence.saveConsoleLogs();
+      await evidence.saveManifest(gameUrl);
+    } catch (saveError) {
+      console.warn(
+        `⚠ Could not save evidence: ${saveError instanceof Error ? saveError.message : String(saveError)}`
+      );
+    }
+
+    return {
+      status: 'error',
+      gameUrl,
+      playability_score: 0,
+      confidence: 0,
+      timestamp: new Date().toISOString(),
+      execution_time_ms: Date.now() - startTime,
+      issues: [
+        {
+          type: 'load_failure',
+          severity: 'critical',
+          description: errorMsg,
+          detected_at_ms: 0,
+        },
+        ...evidence.getPageErrorIssues(source.loadUrl),
+      ],
+      screenshots: evidence.getScreenshotPaths(),
+      console_logs: undefined,
+      metadata: {
+        actions_performed: 0,
+        screens_navigated: 0,
+        browser_errors: 1,
+        page_errors: evidence.getPageErrorSummary(),
+        network: evidence.getNetworkSummary(),
+        agent_version: VERSION,
+        device_profile: device.name,
+        device_emulated: agent.isDeviceEmulated(),
+        evidence_dir: evidence.getTestDir(),
+        evaluation_reasoning: errorMsg,
+        timeout_budget: budget.getReport(),
+      },
+    };
+  } finally {
+    // Always cleanup
+    await agent.cleanup();
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * DOM Mutation State Detector Module
+ *
+ * Detects page state changes from inside the page instead of asking an LLM:
+ * - An injected MutationObserver counts attribute, text and child-list mutations
+ * - Canvas elements are sampled with toDataURL() and fingerprinted, for canvas games
+ *
+ * Counting happens in windows: start() opens a window, collect() closes it and
+ * returns what changed, and opens the next one.
+ */
+
+/**
+ * State change detection result
+ */
+export interface StateChangeResult {
+  changed: boolean;
+  confidence: number; // 0-100, how confident we are in this result
+  description: string;
+  observationDetails?: {
+    domChanges?: boolean;
+    elementsChanged?: number; // Distinct elements touched by mutations
+    mutations?: MutationCounts;
+    canvasesSampled?: number;
+    canvasesChanged?: number;
+  };
+}
+
+/**
+ * Mutation records observed in one window, by MutationRecord.type
+ */
+export interface MutationCounts {
+  attributes: number;
+  characterData: number;
+  childList: number;
+}
+
+/**
+ * Raw measurements for one observation window
+ */
+export interface ObservationWindow {
+  mutations: MutationCounts;
+  elementsChanged: number;
+  canvasesSampled: number;
+  canvasesChanged: number;
+}
+
+/**
+ * Largest number of canvases fingerprinted per sample (toDataURL is not free)
+ */
+const MAX_SAMPLED_CANVASES = 4;
+
+/**
+ * In-page code is kept as plain JavaScript strings: functions passed to page.evaluate()
+ * would be serialized after transpilation, and helper wrappers (e.g. esbuild's __name)
+ * don't exist inside the page.
+ *
+ * Installs the observer once per document, then resets the counting window.
+ */
+const START_SCRIPT = `(() => {
+  if (!window.__qaMutationState) {
+    const state = {
+      counts: { attributes: 0, characterData: 0, childList: 0 },
+      targets: new Set(),
+      canvases: [],
+      record(records) {
+        for (const record of records) {
+          state.counts[record.type]++;
+          const target = record.target.nodeType === Node.ELEMENT_NODE ? record.target : record.target.parentElement;
+          if (target) state.targets.add(target);
+        }
+      },
+      fingerprintCanvases() {
+        return Array.from(document.querySelectorAll('canvas'))
+          .filter((canvas) => canvas.width > 0 && canvas.height > 0)
+          .slice(0, ${MAX_SAMPLED_CANVASES})
+          .map((canvas) => {
+            try {
+              // FNV-1a over the data URL - comparing hashes is cheaper than keeping the URLs
+              const data = canvas.toDataURL();
+              let hash = 0x811c9dc5;
+              for (let i = 0; i < data.length; i++) {
+                hash ^= data.charCodeAt(i);
+                hash = Math.imul(hash, 0x01000193);
+              }
+              return canvas.width + 'x' + canvas.height + ':' + (hash >>> 0);
+            } catch (e) {
+              return 'tainted'; // Cross-origin content - cannot be read
+            }
+          });
+      },
+    };
+    state.observer = new MutationObserver((records) => state.record(records));
+    state.observer.observe(document.documentElement, {
+      subtree: true,
+      attributes: true,
+      characterData: true,
+      childList: true,
+    });
+    window.__qaMutationState = state;
+  }
+
+  const state = window.__qaMutationState;
+  state.counts = { attributes: 0, characterData: 0, childList: 0 };
+  state.targets = new Set();
+  state.canvases = state.fingerprintCanvases();
+  return true;
+})()`;
+
+/**
+ * Closes the current window, returns its measurements and opens the next one
+ */
+const COLLECT_SCRIPT = `(() => {
+  const state = window.__qaMutationState;
+  if (!state) return null;
+
+  // Flush records not yet delivered to the callback
+  state.record(state.observer.takeRecords());
+
+  const before = state.canvases;
+  const after = state.fingerprintCanvases();
+  const canvasesChanged = after.filter((fingerprint, i) => fingerprint !== 'tainted' && fingerprint !== before[i]).length;
+
+  const result = {
+    mutations: Object.assign({}, state.counts),
+    elementsChanged: state.targets.size,
+    canvasesSampled: after.length,
+    canvasesChanged,
+  };
+
+  state.counts = { attributes: 0, characterData: 0, childList: 0 };
+  state.targets = new Set();
+  state.canvases = after;
+  return result;
+})()`;
+
+/**
+ * Detects game state changes from DOM mutations and canvas content
+ */
+export class DomMutationDetector {
+  private page: any = null;
+
+  constructor(page?: any) {
+    this.page = page || null;
+  }
+
+  /**
+   * Set the Playwright page to observe
+   */
+  setPage(page: any): void {
+    this.page = page;
+  }
+
+  /**
+   * Install the observer (if needed) and open a new counting window
+   * Safe to call repeatedly and after navigation - the observer is re-installed when missing
+   *
+   * @returns true if observation is active
+   */
+  async start(): Promise<boolean> {
+    if (!this.page) return false;
+
+    try {
+      await this.page.evaluate(START_SCRIPT);
+      return true;
+    } catch (error) {
+      console.warn(`⚠ Failed to start DOM observation: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * Close the current window, return its measurements and open the next window
+   *
+   * @returns Measurements since the last start()/collect(), or null if the observer is missing
+   */
+  async collect(): Promise<ObservationWindow | null> {
+    if (!this.page) return null;
+
+    try {
+      return await this.page.evaluate(COLLECT_SCRIPT);
+    } catch (error) {
+      console.warn(`⚠ Failed to collect DOM observation: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Turn a window's measurements into a state change result
+   * With an idle window, input activity must clearly exceed idle activity
+   *
+   * @param input - Window containing the action
+   * @param idle - Window with no input (optional)
+   * @param windowScale - Input window length / idle window length; idle counts are scaled up by it (default: 1)
+   * @returns State change detection result
+   */
+  evaluate(input: ObservationWindow | null, idle?: ObservationWindow | null, windowScale: number = 1): StateChangeResult {
+    if (!input) {
+      return {
+        changed: false,
+        confidence: 0,
+        description: 'DOM observation unavailable (observer not installed)',
+      };
+    }
+
+    const total = input.mutations.attributes + input.mutations.characterData + input.mutations.childList;
+    const idleElements = Math.round((idle?.elementsChanged ?? 0) * windowScale);
+    const idleCanvases = Math.min(idle?.canvasesSampled ?? 0, Math.round((idle?.canvasesChanged ?? 0) * windowScale));
+
+    // Elements/canvases that change on their own (clocks, animated backgrounds) don't count
+    const domChanged = input.elementsChanged > 0 && input.elementsChanged > idleElements * 1.5;
+    const canvasChanged = input.canvasesChanged > 0 && input.canvasesChanged > idleCanvases;
+    const changed = domChanged || canvasChanged;
+
+    const parts = [
+      `${input.elementsChanged} element(s) changed (${total} mutations: ${input.mutations.attributes} attribute, ${input.mutations.characterData} text, ${input.mutations.childList} child-list)`,
+      `${input.canvasesChanged}/${input.canvasesSampled} canvas(es) changed`,
+    ];
+    if (idle) {
+      parts.push(`idle: ${idleElements} element(s), ${idleCanvases} canvas(es)`);
+    }
+
+    return {
+      changed,
+      confidence: changed ? (idle ? 85 : 75) : 75,
+      description: parts.join('; '),
+      observationDetails: {
+        domChanges: domChanged,
+        elementsChanged: input.elementsChanged,
+        mutations: input.mutations,
+        canvasesSampled: input.canvasesSampled,
+        canvasesChanged: input.canvasesChanged,
+      },
+    };
+  }
+}
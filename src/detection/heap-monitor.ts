@@ -0,0 +1,236 @@
+/**
+ * Heap Monitor Module
+ *
+ * Tracks the page's JavaScript heap across the interaction loop to catch leaks
+ * (e.g., particle arrays that are never cleared):
+ * - One sample when interaction starts, one per action cycle and one after the final screenshot:
+ *   CDP Runtime.getHeapUsage after a forced garbage collection,
+ *   so only retained memory is counted; Playwright pages fall back to performance.memory
+ *   (not collected first, and rounded by Chrome - noisier)
+ * - fitHeapTrend() fits a least-squares line through the series
+ * - heapTrendToIssues() reports growth that is both steady and faster than the limit
+ */
+
+import type { Issue, MemoryThresholds } from '../shared/types.js';
+
+/**
+ * Limits used when neither the config file nor the caller sets them
+ */
+export const DEFAULT_MEMORY_THRESHOLDS: Required<MemoryThresholds> = {
+  maxGrowthRate: 100,
+};
+
+/**
+ * Fewer samples than this can't separate a trend from noise
+ * A run that reaches the default success goal (2 actions) takes 4: start, 2 actions, final
+ */
+const MIN_SAMPLES = 3;
+
+/**
+ * Share of sample-to-sample steps that must grow for the growth to count as monotonic
+ * (a collection between two samples may still free a little)
+ */
+const MONOTONIC_RATIO = 0.8;
+
+/**
+ * How well the line must fit (R²) for the growth to count as steady
+ */
+const MIN_R2 = 0.8;
+
+/**
+ * Reads performance.memory (Chrome only)
+ */
+const MEMORY_SCRIPT = `(() => performance.memory
+  ? { used: performance.memory.usedJSHeapSize, total: performance.memory.totalJSHeapSize }
+  : null)()`;
+
+/**
+ * One heap measurement
+ */
+export interface HeapSample {
+  timestamp: number;
+  label: string; // "interaction start", "action 3", ...
+  used_bytes: number;
+  total_bytes: number;
+}
+
+/**
+ * Fitted heap growth over a session, as reported in result metadata
+ */
+export interface HeapTrend {
+  samples: number;
+  source: 'cdp' | 'performance.memory';
+  start_bytes: number;
+  end_bytes: number;
+  peak_bytes: number;
+  growth_rate_kb_per_sec: number; // Slope of the fitted line
+  r2: number; // Goodness of fit, 0-1
+  increasing_ratio: number; // Share of sample-to-sample steps that grew
+  monotonic: boolean; // Steady growth: most steps grow and the line fits well
+}
+
+/**
+ * Round to a given number of decimals
+ */
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Fit a growth trend through heap samples
+ *
+ * @param samples - Samples in time order
+ * @param source - How the samples were taken
+ * @returns Trend, or null with fewer than two samples
+ */
+export function fitHeapTrend(samples: HeapSample[], source: HeapTrend['source'] = 'cdp'): HeapTrend | null {
+  if (samples.length < 2) {
+    return null;
+  }
+
+  const first = samples[0]!;
+  const xs = samples.map((sample) => (sample.timestamp - first.timestamp) / 1000);
+  const ys = samples.map((sample) => sample.used_bytes);
+  const n = samples.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i]! - meanX;
+    const dy = ys[i]! - meanY;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+  }
+
+  const slope = sxx > 0 ? sxy / sxx : 0; // Bytes per second
+  const r2 = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0;
+  let increasing = 0;
+  for (let i = 1; i < n; i++) {
+    if (ys[i]! > ys[i - 1]!) increasing++;
+  }
+  const increasingRatio = increasing / (n - 1);
+
+  return {
+    samples: n,
+    source,
+    start_bytes: ys[0]!,
+    end_bytes: ys[n - 1]!,
+    peak_bytes: Math.max(...ys),
+    growth_rate_kb_per_sec: round(slope / 1024, 1),
+    r2: round(r2, 3),
+    increasing_ratio: round(increasingRatio, 2),
+    monotonic: slope > 0 && increasingRatio >= MONOTONIC_RATIO && r2 >= MIN_R2,
+  };
+}
+
+/**
+ * Report a likely memory leak: steady heap growth faster than maxGrowthRate
+ * Severity is major, or critical when growth is more than five times the limit
+ *
+ * @param trend - Fitted trend
+ * @param thresholds - Limits (defaults for unset fields)
+ * @param detectedAt - When sampling started, in ms since the test start
+ * @returns Issues (empty when there are too few samples to judge)
+ */
+export function heapTrendToIssues(
+  trend: HeapTrend | null,
+  thresholds: MemoryThresholds = {},
+  detectedAt: number = 0
+): Issue[] {
+  if (!trend || trend.samples < MIN_SAMPLES || !trend.monotonic) {
+    return [];
+  }
+
+  const limit = thresholds.maxGrowthRate ?? DEFAULT_MEMORY_THRESHOLDS.maxGrowthRate;
+  if (trend.growth_rate_kb_per_sec <= limit) {
+    return [];
+  }
+
+  const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  return [
+    {
+      type: 'performance',
+      severity: trend.growth_rate_kb_per_sec > limit * 5 ? 'critical' : 'major',
+      description:
+        `Possible memory leak: JS heap grew steadily from ${mb(trend.start_bytes)} MB to ${mb(trend.end_bytes)} MB ` +
+        `(${trend.growth_rate_kb_per_sec} KB/s over ${trend.samples} samples, limit ${limit} KB/s)`,
+      detected_at_ms: detectedAt,
+    },
+  ];
+}
+
+/**
+ * Samples one page's heap
+ */
+export class HeapMonitor {
+  private samples: HeapSample[] = [];
+  private source: HeapTrend['source'] | null = null;
+  private unavailable: boolean = false;
+
+  /**
+   * Take a heap sample
+   *
+   * @param page - Stagehand V3 page (CDP) or Playwright page (performance.memory)
+   * @param label - What the sample follows (e.g., "action 3")
+   * @returns Sample, or null when the heap can't be read
+   */
+  async sample(page: any, label: string): Promise<HeapSample | null> {
+    if (this.unavailable) {
+      return null;
+    }
+
+    try {
+      let usage: { used: number; total: number } | null = null;
+      if (typeof page?.getSessionForFrame === 'function') {
+        const session = page.getSessionForFrame(page.mainFrameId());
+        await session.send('HeapProfiler.collectGarbage');
+        const { usedSize, totalSize } = await session.send('Runtime.getHeapUsage');
+        usage = { used: usedSize, total: totalSize };
+        this.source = 'cdp';
+      } else if (typeof page?.evaluate === 'function') {
+        usage = await page.evaluate(MEMORY_SCRIPT);
+        this.source = 'performance.memory';
+      }
+
+      if (!usage) {
+        this.unavailable = true;
+        console.warn('⚠ JS heap usage is not available for this page, skipping memory tracking');
+        return null;
+      }
+
+      const sample: HeapSample = {
+        timestamp: Date.now(),
+        label,
+        used_bytes: usage.used,
+        total_bytes: usage.total,
+      };
+      this.samples.push(sample);
+      return sample;
+    } catch (error) {
+      // The page may be navigating - skip this sample, keep trying on the next cycle
+      console.warn(`⚠ Heap sample failed (${label}): ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get all samples taken so far
+   */
+  getSamples(): HeapSample[] {
+    return this.samples;
+  }
+
+  /**
+   * Fit a trend through the samples taken so far
+   *
+   * @returns Trend, or null with fewer than two samples
+   */
+  getTrend(): HeapTrend | null {
+    return fitHeapTrend(this.samples, this.source ?? 'cdp');
+  }
+}
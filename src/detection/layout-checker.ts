@@ -0,0 +1,202 @@
+/**
+ * Layout Checker Module
+ *
+ * Checks whether the game fits the viewport it was given, which is where small and
+ * rotated screens break first:
+ * - The game surface (largest canvas, else largest iframe) and how much of it is off-screen
+ * - Controls (buttons, links, inputs) that lie outside the viewport along an axis the page can't scroll
+ * - Horizontal overflow (the page is wider than the viewport)
+ *
+ * checkLayout() takes one snapshot in the page; layoutToIssues() turns it into issues.
+ * A game inside a cross-origin iframe is measured as the iframe, not its own contents.
+ */
+
+import type { Issue } from '../shared/types.js';
+
+/**
+ * Share of the game surface that may be off-screen before it counts as not fitting
+ */
+const MAX_CLIPPED_RATIO = 0.1;
+
+/**
+ * Off-screen controls listed by name in a snapshot
+ */
+const MAX_LISTED_CONTROLS = 10;
+
+/**
+ * A rectangle in document CSS pixels
+ */
+export interface LayoutRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One layout measurement, as reported in result metadata
+ */
+export interface LayoutSnapshot {
+  viewport: { width: number; height: number };
+  scroll_width: number;
+  scroll_height: number;
+  horizontal_overflow: boolean; // Page is wider than the viewport and can be scrolled sideways
+  surface: (LayoutRect & { kind: 'canvas' | 'iframe'; clipped_ratio: number }) | null; // Largest canvas (else iframe)
+  controls: number; // Visible controls checked
+  offscreen_controls: Array<LayoutRect & { label: string }>; // First MAX_LISTED_CONTROLS
+  offscreen_count: number;
+}
+
+/**
+ * In-page code is kept as plain JavaScript strings (see dom-mutation-detector.ts).
+ *
+ * A control counts as off-screen when it sticks out of the viewport along an axis the page
+ * can't scroll (overflow hidden, or no room to scroll) - below the fold on a scrolling page is fine.
+ */
+const LAYOUT_SCRIPT = `(() => {
+  const vw = window.innerWidth;
+  const vh = window.innerHeight;
+  const root = document.scrollingElement || document.documentElement;
+  const rootStyle = getComputedStyle(document.documentElement);
+  const bodyStyle = document.body ? getComputedStyle(document.body) : rootStyle;
+  const canScroll = (axis, size, viewportSize) =>
+    size > viewportSize + 1 && rootStyle['overflow' + axis] !== 'hidden' && bodyStyle['overflow' + axis] !== 'hidden';
+  const scrollX = canScroll('X', root.scrollWidth, vw);
+  const scrollY = canScroll('Y', root.scrollHeight, vh);
+
+  const isVisible = (el, rect) => {
+    if (rect.width < 1 || rect.height < 1) return false;
+    const style = getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none' && Number(style.opacity) > 0;
+  };
+  const toRect = (rect) => ({
+    left: Math.round(rect.left + window.scrollX),
+    top: Math.round(rect.top + window.scrollY),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  });
+
+  const largest = (selector) => {
+    let best = null;
+    for (const el of document.querySelectorAll(selector)) {
+      const rect = el.getBoundingClientRect();
+      if (isVisible(el, rect) && (!best || rect.width * rect.height > best.rect.width * best.rect.height)) {
+        best = { el, rect };
+      }
+    }
+    return best;
+  };
+  const found = largest('canvas');
+  const surfaceEl = found ? { kind: 'canvas', ...found } : (() => {
+    const frame = largest('iframe');
+    return frame ? { kind: 'iframe', ...frame } : null;
+  })();
+
+  let surface = null;
+  if (surfaceEl) {
+    const rect = surfaceEl.rect;
+    const visibleWidth = Math.max(0, Math.min(rect.right, vw) - Math.max(rect.left, 0));
+    const visibleHeight = Math.max(0, Math.min(rect.bottom, vh) - Math.max(rect.top, 0));
+    surface = {
+      kind: surfaceEl.kind,
+      ...toRect(rect),
+      clipped_ratio: Math.round((1 - (visibleWidth * visibleHeight) / (rect.width * rect.height)) * 1000) / 1000,
+    };
+  }
+
+  const controls = document.querySelectorAll(
+    'button, input:not([type="hidden"]), select, textarea, a[href], [role="button"], [onclick]'
+  );
+  let checked = 0;
+  const offscreen = [];
+  for (const el of controls) {
+    const rect = el.getBoundingClientRect();
+    if (!isVisible(el, rect)) continue;
+    checked++;
+    const outX = !scrollX && (rect.left < -1 || rect.right > vw + 1);
+    const outY = !scrollY && (rect.top < -1 || rect.bottom > vh + 1);
+    if (outX || outY) {
+      const text = (el.innerText || el.value || el.getAttribute('aria-label') || el.title || '').trim();
+      offscreen.push({
+        label: (text || (el.id ? '#' + el.id : el.tagName.toLowerCase())).slice(0, 40),
+        ...toRect(rect),
+      });
+    }
+  }
+
+  return {
+    viewport: { width: vw, height: vh },
+    scroll_width: root.scrollWidth,
+    scroll_height: root.scrollHeight,
+    horizontal_overflow: scrollX,
+    surface,
+    controls: checked,
+    offscreen_controls: offscreen.slice(0, ${MAX_LISTED_CONTROLS}),
+    offscreen_count: offscreen.length,
+  };
+})()`;
+
+/**
+ * Measure the page's layout against its viewport
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @returns Snapshot, or null when the page can't be measured
+ */
+export async function checkLayout(page: any): Promise<LayoutSnapshot | null> {
+  try {
+    return await page.evaluate(LAYOUT_SCRIPT);
+  } catch (error) {
+    console.warn(`⚠ Layout check failed: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Report layout problems: a game surface that doesn't fit, off-screen controls and sideways scrolling
+ *
+ * @param snapshot - Layout snapshot
+ * @param detectedAt - When the snapshot was taken, in ms since the test start
+ * @returns Issues
+ */
+export function layoutToIssues(snapshot: LayoutSnapshot | null, detectedAt: number = 0): Issue[] {
+  if (!snapshot) {
+    return [];
+  }
+
+  const issues: Issue[] = [];
+  const viewport = `${snapshot.viewport.width}x${snapshot.viewport.height}`;
+  const { surface } = snapshot;
+
+  if (surface && surface.clipped_ratio > MAX_CLIPPED_RATIO) {
+    issues.push({
+      type: 'rendering',
+      severity: surface.clipped_ratio > 0.5 ? 'critical' : 'major',
+      description:
+        `Game ${surface.kind} (${surface.width}x${surface.height}) does not fit the ${viewport} viewport: ` +
+        `${Math.round(surface.clipped_ratio * 100)}% of it is off-screen`,
+      detected_at_ms: detectedAt,
+    });
+  }
+
+  if (snapshot.offscreen_count > 0) {
+    const labels = snapshot.offscreen_controls.map((control) => `"${control.label}"`).join(', ');
+    const more = snapshot.offscreen_count > snapshot.offscreen_controls.length ? ', ...' : '';
+    issues.push({
+      type: 'rendering',
+      severity: 'major',
+      description: `${snapshot.offscreen_count} control(s) are off-screen at ${viewport}: ${labels}${more}`,
+      detected_at_ms: detectedAt,
+    });
+  }
+
+  if (snapshot.horizontal_overflow) {
+    issues.push({
+      type: 'rendering',
+      severity: 'minor',
+      description: `Page is wider than the ${snapshot.viewport.width}px viewport (${snapshot.scroll_width}px) and scrolls sideways`,
+      detected_at_ms: detectedAt,
+    });
+  }
+
+  return issues;
+}
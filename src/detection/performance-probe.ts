@@ -0,0 +1,335 @@
+/**
+ * Performance Probe Module
+ *
+ * Measures frame pacing from inside the page, for canvas/WebGL games where
+ * screenshots can't show stutter:
+ * - A requestAnimationFrame loop, injected at document start, records every frame interval
+ * - A PerformanceObserver counts long tasks (main thread blocked for more than 50ms)
+ *
+ * Measurement happens in one window: start() opens it when interaction begins,
+ * collect() closes it and returns the raw intervals, summarizeFrameTiming() turns them
+ * into FPS / p95 / long-frame statistics and frameTimingToIssues() applies thresholds.
+ * whilePaused() runs the agent's own main-thread work (e.g., a forced GC) without counting it.
+ * Only the top-level document is measured; a game in a cross-origin iframe runs on its own
+ * thread and its jank is not seen.
+ */
+
+import type { Issue, PerformanceThresholds } from '../shared/types.js';
+
+/**
+ * Thresholds used when neither the config file nor the caller sets them
+ */
+export const DEFAULT_PERFORMANCE_THRESHOLDS: Required<PerformanceThresholds> = {
+  minFps: 30,
+  maxP95FrameTime: 50,
+  maxLongTasks: 10,
+};
+
+/**
+ * A frame interval longer than this is a long frame (three missed frames at 60Hz)
+ */
+export const LONG_FRAME_MS = 50;
+
+/**
+ * Fewer frames than this (e.g. a very short interaction) are too few to judge
+ */
+const MIN_FRAMES = 30;
+
+/**
+ * Intervals kept per window; about five minutes at 60 FPS
+ */
+const MAX_SAMPLES = 20000;
+
+/**
+ * Raw measurements for the window
+ */
+export interface FrameTimingSample {
+  frame_times: number[]; // rAF intervals in milliseconds
+  long_tasks: number[]; // Long task durations in milliseconds
+  duration_ms: number;
+}
+
+/**
+ * Frame pacing statistics, as reported in objective_metrics
+ */
+export interface FrameTimingStats {
+  frames: number;
+  duration_ms: number;
+  avg_fps: number;
+  p95_frame_time_ms: number;
+  max_frame_time_ms: number;
+  long_frames: number; // Intervals over LONG_FRAME_MS
+  long_tasks: number;
+  long_task_total_ms: number;
+}
+
+/**
+ * In-page code is kept as plain JavaScript strings (see dom-mutation-detector.ts).
+ *
+ * Installs the rAF loop and long task observer once per document. Intervals are skipped while
+ * the tab is hidden - browsers pause rAF in background tabs, which is not jank - and while the
+ * probe is paused; long tasks that overlap a pause are skipped too.
+ */
+const INSTALL_SCRIPT = `(() => {
+  if (window.__qaFrameTiming) return true;
+  const state = { frameTimes: [], longTasks: [], last: 0, windowStart: performance.now(), paused: false, pauses: [] };
+  const tick = (now) => {
+    if (state.last && !document.hidden && !state.paused && state.frameTimes.length < ${MAX_SAMPLES}) {
+      state.frameTimes.push(Math.round((now - state.last) * 10) / 10);
+    }
+    state.last = document.hidden || state.paused ? 0 : now;
+    requestAnimationFrame(tick);
+  };
+  requestAnimationFrame(tick);
+  const duringPause = (entry) =>
+    state.pauses.some((pause) => entry.startTime + entry.duration >= pause.start && (pause.end === null || entry.startTime <= pause.end));
+  try {
+    new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) {
+        if (state.longTasks.length < ${MAX_SAMPLES} && !duringPause(entry)) state.longTasks.push(Math.round(entry.duration));
+      }
+    }).observe({ type: 'longtask' });
+  } catch (e) {
+    // Long tasks API not supported - frame times are still recorded
+  }
+  window.__qaFrameTiming = state;
+  return true;
+})()`;
+
+/**
+ * Opens the measurement window (installs the probe first if the init script didn't run)
+ */
+const START_SCRIPT = `(() => {
+  ${INSTALL_SCRIPT};
+  const state = window.__qaFrameTiming;
+  state.frameTimes = [];
+  state.longTasks = [];
+  state.windowStart = performance.now();
+  state.paused = false;
+  state.pauses = [];
+  return true;
+})()`;
+
+/**
+ * Stops counting frames and long tasks until RESUME_SCRIPT
+ */
+const PAUSE_SCRIPT = `(() => {
+  const state = window.__qaFrameTiming;
+  if (!state || state.paused) return false;
+  state.paused = true;
+  state.pauses.push({ start: performance.now(), end: null });
+  return true;
+})()`;
+
+/**
+ * Counts again; the first frame after the pause starts a new interval
+ */
+const RESUME_SCRIPT = `(() => {
+  const state = window.__qaFrameTiming;
+  if (!state || !state.paused) return false;
+  state.paused = false;
+  state.pauses[state.pauses.length - 1].end = performance.now();
+  state.last = 0;
+  return true;
+})()`;
+
+/**
+ * Returns the window's measurements
+ */
+const COLLECT_SCRIPT = `(() => {
+  const state = window.__qaFrameTiming;
+  if (!state) return null;
+  return {
+    frame_times: state.frameTimes.slice(),
+    long_tasks: state.longTasks.slice(),
+    duration_ms: Math.round(performance.now() - state.windowStart),
+  };
+})()`;
+
+/**
+ * Round to one decimal
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Turn raw frame intervals into statistics
+ *
+ * @param sample - Measurements from collect()
+ * @returns Statistics, or null when no frame was recorded
+ */
+export function summarizeFrameTiming(sample: FrameTimingSample): FrameTimingStats | null {
+  const frames = sample.frame_times.length;
+  if (frames === 0) {
+    return null;
+  }
+
+  const sorted = [...sample.frame_times].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, time) => sum + time, 0);
+  const p95 = sorted[Math.min(frames - 1, Math.ceil(frames * 0.95) - 1)]!;
+
+  return {
+    frames,
+    duration_ms: sample.duration_ms,
+    avg_fps: total > 0 ? round1((frames * 1000) / total) : 0,
+    p95_frame_time_ms: round1(p95),
+    max_frame_time_ms: round1(sorted[frames - 1]!),
+    long_frames: sorted.filter((time) => time > LONG_FRAME_MS).length,
+    long_tasks: sample.long_tasks.length,
+    long_task_total_ms: sample.long_tasks.reduce((sum, duration) => sum + duration, 0),
+  };
+}
+
+/**
+ * Raise performance issues where the statistics cross the thresholds
+ * - Average FPS below minFps → major (critical below half of it)
+ * - p95 frame time above maxP95FrameTime → minor (frequent stutter with an acceptable average)
+ * - More than maxLongTasks long tasks → minor (main thread blocked; input lag)
+ *
+ * @param stats - Frame timing statistics
+ * @param thresholds - Limits (defaults for unset fields)
+ * @param detectedAt - When the measurement window started, in ms since the test start
+ * @returns Issues (empty when too few frames were recorded to judge)
+ */
+export function frameTimingToIssues(
+  stats: FrameTimingStats | null,
+  thresholds: PerformanceThresholds = {},
+  detectedAt: number = 0
+): Issue[] {
+  if (!stats || stats.frames < MIN_FRAMES) {
+    return [];
+  }
+
+  const limits = { ...DEFAULT_PERFORMANCE_THRESHOLDS, ...thresholds };
+  const issues: Issue[] = [];
+
+  if (stats.avg_fps < limits.minFps) {
+    issues.push({
+      type: 'performance',
+      severity: stats.avg_fps < limits.minFps / 2 ? 'critical' : 'major',
+      description: `Low frame rate: ${stats.avg_fps} FPS on average during interaction (minimum ${limits.minFps})`,
+      detected_at_ms: detectedAt,
+    });
+  }
+
+  if (stats.p95_frame_time_ms > limits.maxP95FrameTime) {
+    issues.push({
+      type: 'performance',
+      severity: 'minor',
+      description:
+        `Jank: 95th percentile frame time ${stats.p95_frame_time_ms}ms (limit ${limits.maxP95FrameTime}ms), ` +
+        `${stats.long_frames} of ${stats.frames} frames over ${LONG_FRAME_MS}ms, longest ${stats.max_frame_time_ms}ms`,
+      detected_at_ms: detectedAt,
+    });
+  }
+
+  if (stats.long_tasks > limits.maxLongTasks) {
+    issues.push({
+      type: 'performance',
+      severity: 'minor',
+      description: `Main thread blocked: ${stats.long_tasks} long tasks (${stats.long_task_total_ms}ms in total, limit ${limits.maxLongTasks} tasks)`,
+      detected_at_ms: detectedAt,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Records frame timings in one page
+ */
+export class PerformanceProbe {
+  private page: any = null;
+
+  /**
+   * Inject the probe so it runs at document start, before the game's own scripts
+   * Call before navigation
+   *
+   * @param page - Playwright page or Stagehand V3 page
+   * @returns true if the init script was registered
+   */
+  async install(page: any): Promise<boolean> {
+    try {
+      if (typeof page?.addInitScript === 'function') {
+        await page.addInitScript(INSTALL_SCRIPT);
+      } else if (typeof page?.getSessionForFrame === 'function') {
+        // Stagehand V3 pages have no init script API - register it over CDP
+        const session = page.getSessionForFrame(page.mainFrameId());
+        await session.send('Page.addScriptToEvaluateOnNewDocument', { source: INSTALL_SCRIPT });
+      } else if (typeof page?.evaluateOnNewDocument === 'function') {
+        await page.evaluateOnNewDocument(INSTALL_SCRIPT);
+      } else {
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.warn(`⚠ Failed to inject frame timing probe: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * Open the measurement window (discarding frames recorded during page load)
+   *
+   * @param page - Page to measure
+   * @returns true if the probe is running
+   */
+  async start(page: any): Promise<boolean> {
+    this.page = page;
+    try {
+      await page.evaluate(START_SCRIPT);
+      return true;
+    } catch (error) {
+      console.warn(`⚠ Frame timing probe unavailable: ${error instanceof Error ? error.message : String(error)}`);
+      this.page = null;
+      return false;
+    }
+  }
+
+  /**
+   * Run a task without counting its frames and long tasks - for work the agent itself puts on
+   * the page's main thread (a forced garbage collection would otherwise read as jank)
+   * Runs the task as is when the probe isn't running
+   *
+   * @param task - Work to exclude from the measurement
+   * @returns What the task returns
+   */
+  async whilePaused<T>(task: () => Promise<T>): Promise<T> {
+    let paused = false;
+    if (this.page) {
+      try {
+        paused = await this.page.evaluate(PAUSE_SCRIPT);
+      } catch {
+        // Page navigating - nothing is being measured
+      }
+    }
+    try {
+      return await task();
+    } finally {
+      if (paused) {
+        try {
+          await this.page.evaluate(RESUME_SCRIPT);
+        } catch {
+          // The next collect() returns null for a navigated page
+        }
+      }
+    }
+  }
+
+  /**
+   * Return the measurements since start()
+   *
+   * @returns Raw sample, or null when the probe isn't running (e.g., the page navigated away)
+   */
+  async collect(): Promise<FrameTimingSample | null> {
+    if (!this.page) {
+      return null;
+    }
+    try {
+      return await this.page.evaluate(COLLECT_SCRIPT);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,12 +1,24 @@
 /**
  * State Change Detector Module
  *
- * Compares screenshots to detect if game state has changed.
+ * Compares screenshots pixel by pixel to detect if game state has changed.
  * Helps determine if actions are actually working.
  */
 
 import * as fs from 'fs';
 import * as crypto from 'crypto';
+import { decodePng, encodePng, type RawImage } from '../shared/utils/image.js';
+
+/**
+ * Rectangle (in screenshot pixels) containing changed pixels
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  changedPixels: number;
+}
 
 /**
  * State change detection result
@@ -16,12 +28,72 @@ export interface StateChangeResult {
   similarity: number; // 0-1, where 1 is identical
   confidence: number; // 0-100, how confident we are in this result
   description: string;
+  diffRatio?: number; // Fraction of pixels that changed (0-1)
+  changedPixels?: number;
+  boundingBoxes?: BoundingBox[]; // Changed regions, largest first
+  diffMaskPath?: string; // Diff-mask PNG saved next to the after screenshot
+}
+
+/**
+ * Options for pixel-level comparison
+ */
+export interface StateChangeDetectorOptions {
+  threshold?: number; // Minimum diffRatio to count as a state change (default: 0.0005 = 0.05%)
+  pixelTolerance?: number; // Max per-channel difference treated as noise (0-255, default: 24)
+  saveDiffMask?: boolean; // Write <after>-diff.png when pixels changed (default: true)
+  maxBoundingBoxes?: number; // Cap on reported regions (default: 10)
+  idleMargin?: number; // How much input change must exceed idle change, relative to idle (default: 0.5 = 50%)
 }
 
+/**
+ * Default comparison settings
+ * 0.05% of a 1280x720 screenshot is ~460 pixels - above a blinking text cursor,
+ * below a single typed letter or moved sprite
+ */
+export const DEFAULT_DIFF_THRESHOLD = 0.0005;
+const DEFAULT_PIXEL_TOLERANCE = 24;
+const DEFAULT_MAX_BOUNDING_BOXES = 10;
+const DEFAULT_IDLE_MARGIN = 0.5;
+
+/**
+ * Grid cell size used to cluster changed pixels into regions
+ */
+const REGION_CELL_SIZE = 16;
+
 /**
  * Detects game state changes by comparing screenshots
  */
 export class StateChangeDetector {
+  private threshold: number;
+  private pixelTolerance: number;
+  private saveDiffMask: boolean;
+  private maxBoundingBoxes: number;
+  private idleMargin: number;
+
+  constructor(options: StateChangeDetectorOptions = {}) {
+    this.threshold = options.threshold ?? DEFAULT_DIFF_THRESHOLD;
+    this.pixelTolerance = options.pixelTolerance ?? DEFAULT_PIXEL_TOLERANCE;
+    this.saveDiffMask = options.saveDiffMask ?? true;
+    this.maxBoundingBoxes = options.maxBoundingBoxes ?? DEFAULT_MAX_BOUNDING_BOXES;
+    this.idleMargin = options.idleMargin ?? DEFAULT_IDLE_MARGIN;
+  }
+
+  /**
+   * Set the minimum diff ratio that counts as a state change
+   *
+   * @param threshold - Fraction of changed pixels (0-1)
+   */
+  setThreshold(threshold: number): void {
+    this.threshold = threshold;
+  }
+
+  /**
+   * Get the current diff threshold
+   */
+  getThreshold(): number {
+    return this.threshold;
+  }
+
   /**
    * Compare two screenshots for changes
    *
@@ -50,40 +122,83 @@ export class StateChangeDetector {
         };
       }
 
-      const beforeBuffer = fs.readFileSync(beforePath);
-      const afterBuffer = fs.readFileSync(afterPath);
-
-      // Compare file sizes (rough indicator)
-      const sizeChange = Math.abs(beforeBuffer.length - afterBuffer.length);
-      const avgSize = (beforeBuffer.length + afterBuffer.length) / 2;
-      const sizeDiff = sizeChange / avgSize;
-
-      // Calculate hash-based similarity (not pixel-perfect, but good enough)
-      const beforeHash = crypto.createHash('sha256').update(beforeBuffer).digest('hex');
-      const afterHash = crypto.createHash('sha256').update(afterBuffer).digest('hex');
-
-      const isSameFile = beforeHash === afterHash;
+      return this.compareBuffers(fs.readFileSync(beforePath), fs.readFileSync(afterPath), afterPath);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        changed: false,
+        similarity: 0,
+        confidence: 0,
+        description: `Error comparing screenshots: ${errorMsg}`,
+      };
+    }
+  }
 
-      if (isSameFile) {
+  /**
+   * Compare two in-memory PNG screenshots
+   *
+   * @param beforeBuffer - PNG before
+   * @param afterBuffer - PNG after
+   * @param afterPath - Path of the after screenshot on disk; the diff mask is saved next to it (omit to skip the mask)
+   * @returns State change detection result
+   */
+  compareBuffers(beforeBuffer: Buffer, afterBuffer: Buffer, afterPath?: string): StateChangeResult {
+    try {
+      // Byte-identical files need no decoding
+      if (beforeBuffer.equals(afterBuffer)) {
         return {
           changed: false,
           similarity: 1.0,
           confidence: 95,
           description: 'Screenshots are identical (no state change detected)',
+          diffRatio: 0,
+          changedPixels: 0,
+          boundingBoxes: [],
+        };
+      }
+
+      const before = decodePng(beforeBuffer);
+      const after = decodePng(afterBuffer);
+
+      // Viewport resize or navigation to a different layout
+      if (before.width !== after.width || before.height !== after.height) {
+        return {
+          changed: true,
+          similarity: 0,
+          confidence: 70,
+          description: `Screenshot dimensions changed (${before.width}x${before.height} → ${after.width}x${after.height})`,
+          diffRatio: 1,
         };
       }
 
-      // If files are different, it's likely a state change
-      // Confidence is higher if size differences suggest actual changes
-      const hasSignificantChange = sizeDiff > 0.05; // More than 5% size difference
+      const { mask, changedPixels } = this.computeDiffMask(before, after);
+      const totalPixels = before.width * before.height;
+      const diffRatio = changedPixels / totalPixels;
+      const boundingBoxes = this.findBoundingBoxes(mask, before.width, before.height);
+
+      let diffMaskPath: string | undefined;
+      if (changedPixels > 0 && this.saveDiffMask && afterPath) {
+        diffMaskPath = this.writeDiffMask(after, mask, boundingBoxes, afterPath);
+      }
+
+      const changed = diffRatio >= this.threshold;
+      const percent = (diffRatio * 100).toFixed(3);
+      const regions = `${boundingBoxes.length} region(s)`;
 
       return {
-        changed: true,
-        similarity: 1.0 - Math.min(sizeDiff, 1.0),
-        confidence: hasSignificantChange ? 85 : 60,
-        description: hasSignificantChange
-          ? 'Significant state change detected (file size differs by > 5%)'
-          : 'Minor state change detected',
+        changed,
+        similarity: 1.0 - diffRatio,
+        // Confidence grows with distance from the threshold in either direction
+        confidence: this.getConfidence(diffRatio),
+        description: changed
+          ? `${percent}% of pixels changed in ${regions} (threshold ${(this.threshold * 100).toFixed(2)}%)`
+          : changedPixels > 0
+            ? `Only ${percent}% of pixels changed (below ${(this.threshold * 100).toFixed(2)}% threshold - likely noise)`
+            : 'Screenshots are visually identical (no state change detected)',
+        diffRatio,
+        changedPixels,
+        boundingBoxes,
+        diffMaskPath,
       };
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
@@ -96,19 +211,59 @@ export class StateChangeDetector {
     }
   }
 
+  /**
+   * Decide whether an input caused a change beyond what the game does on its own
+   * The input diff must clear the threshold AND exceed the idle diff by the idle margin
+   * (e.g. with a 50% margin, 2% idle animation needs > 3% change after input)
+   *
+   * @param idle - Diff over an idle window (same wait, no input)
+   * @param input - Diff over the window containing the input
+   * @param windowScale - Input window length / idle window length; idle change is scaled up by it (default: 1)
+   * @returns Input result with changed/description adjusted for the idle baseline
+   */
+  compareWithIdleBaseline(idle: StateChangeResult, input: StateChangeResult, windowScale: number = 1): StateChangeResult {
+    // A longer input window gives background animation more time to change pixels
+    const idleRatio = Math.min(1, (idle.diffRatio ?? 0) * windowScale);
+    const inputRatio = input.diffRatio ?? 0;
+
+    // Nothing moves while idle - the plain threshold decision stands
+    if (idleRatio < this.threshold) {
+      return input;
+    }
+
+    const excess = inputRatio - idleRatio;
+    const requiredExcess = Math.max(this.threshold, idleRatio * this.idleMargin);
+    const changed = input.changed && excess >= requiredExcess;
+    const idlePercent = (idleRatio * 100).toFixed(3);
+    const inputPercent = (inputRatio * 100).toFixed(3);
+
+    return {
+      ...input,
+      changed,
+      confidence: changed
+        ? Math.min(input.confidence, Math.round(55 + Math.min(40, (excess / requiredExcess - 1) * 20)))
+        : Math.min(input.confidence, 75),
+      description: changed
+        ? `${inputPercent}% changed after input vs ${idlePercent}% while idle - response exceeds background animation`
+        : `${inputPercent}% changed after input vs ${idlePercent}% while idle - indistinguishable from background animation`,
+    };
+  }
+
   /**
    * Calculate a visual hash of the screenshot
-   * More sophisticated than file hash - detects visual changes
+   * Hashes decoded pixels, so re-encoded but visually identical screenshots match
    *
    * @param screenshotPath - Path to screenshot
    * @returns Visual hash string
    */
   getVisualHash(screenshotPath: string): string {
     try {
-      const buffer = fs.readFileSync(screenshotPath);
-      // For now, use file-based hash
-      // In future, could implement actual pixel-based comparison
-      return crypto.createHash('sha256').update(buffer).digest('hex');
+      const image = decodePng(fs.readFileSync(screenshotPath));
+      return crypto
+        .createHash('sha256')
+        .update(`${image.width}x${image.height}:`)
+        .update(image.data)
+        .digest('hex');
     } catch {
       return '';
     }
@@ -152,4 +307,197 @@ export class StateChangeDetector {
       timestamp: stats.mtimeMs,
     };
   }
+
+  /**
+   * Mark pixels whose color differs by more than the tolerance in any channel
+   *
+   * @returns 1 byte per pixel (1 = changed) and the number of changed pixels
+   */
+  private computeDiffMask(before: RawImage, after: RawImage): { mask: Uint8Array; changedPixels: number } {
+    const totalPixels = before.width * before.height;
+    const mask = new Uint8Array(totalPixels);
+    const tolerance = this.pixelTolerance;
+    let changedPixels = 0;
+
+    for (let i = 0; i < totalPixels; i++) {
+      const idx = i * 4;
+      if (
+        Math.abs(before.data[idx]! - after.data[idx]!) > tolerance ||
+        Math.abs(before.data[idx + 1]! - after.data[idx + 1]!) > tolerance ||
+        Math.abs(before.data[idx + 2]! - after.data[idx + 2]!) > tolerance ||
+        Math.abs(before.data[idx + 3]! - after.data[idx + 3]!) > tolerance
+      ) {
+        mask[i] = 1;
+        changedPixels++;
+      }
+    }
+
+    return { mask, changedPixels };
+  }
+
+  /**
+   * Cluster changed pixels into bounding boxes
+   * Pixels are bucketed into a coarse grid; touching cells form one region
+   */
+  private findBoundingBoxes(mask: Uint8Array, width: number, height: number): BoundingBox[] {
+    const cols = Math.ceil(width / REGION_CELL_SIZE);
+    const rows = Math.ceil(height / REGION_CELL_SIZE);
+    const cellCounts = new Uint32Array(cols * rows);
+
+    for (let y = 0; y < height; y++) {
+      const rowOffset = Math.floor(y / REGION_CELL_SIZE) * cols;
+      for (let x = 0; x < width; x++) {
+        if (mask[y * width + x]) {
+          cellCounts[rowOffset + Math.floor(x / REGION_CELL_SIZE)]!++;
+        }
+      }
+    }
+
+    const visited = new Uint8Array(cols * rows);
+    const boxes: BoundingBox[] = [];
+
+    for (let start = 0; start < cellCounts.length; start++) {
+      if (!cellCounts[start] || visited[start]) continue;
+
+      // Flood fill over 8-connected changed cells
+      let minCol = cols, minRow = rows, maxCol = 0, maxRow = 0, changedPixels = 0;
+      const stack = [start];
+      visited[start] = 1;
+
+      while (stack.length > 0) {
+        const cell = stack.pop()!;
+        const col = cell % cols;
+        const row = Math.floor(cell / cols);
+        changedPixels += cellCounts[cell]!;
+        minCol = Math.min(minCol, col);
+        maxCol = Math.max(maxCol, col);
+        minRow = Math.min(minRow, row);
+        maxRow = Math.max(maxRow, row);
+
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nCol = col + dx;
+            const nRow = row + dy;
+            if (nCol < 0 || nRow < 0 || nCol >= cols || nRow >= rows) continue;
+            const neighbor = nRow * cols + nCol;
+            if (cellCounts[neighbor] && !visited[neighbor]) {
+              visited[neighbor] = 1;
+              stack.push(neighbor);
+            }
+          }
+        }
+      }
+
+      boxes.push({
+        ...this.tightenBox(
+          mask,
+          width,
+          minCol * REGION_CELL_SIZE,
+          minRow * REGION_CELL_SIZE,
+          Math.min(width, (maxCol + 1) * REGION_CELL_SIZE),
+          Math.min(height, (maxRow + 1) * REGION_CELL_SIZE)
+        ),
+        changedPixels,
+      });
+    }
+
+    return boxes.sort((a, b) => b.changedPixels - a.changedPixels).slice(0, this.maxBoundingBoxes);
+  }
+
+  /**
+   * Shrink a cell-aligned region to the exact extent of its changed pixels
+   */
+  private tightenBox(
+    mask: Uint8Array,
+    width: number,
+    left: number,
+    top: number,
+    right: number,
+    bottom: number
+  ): { x: number; y: number; width: number; height: number } {
+    let minX = right, minY = bottom, maxX = left, maxY = top;
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        if (mask[y * width + x]) {
+          minX = Math.min(minX, x);
+          maxX = Math.max(maxX, x);
+          minY = Math.min(minY, y);
+          maxY = Math.max(maxY, y);
+        }
+      }
+    }
+
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  }
+
+  /**
+   * Write a diff-mask PNG: dimmed grayscale of the after screenshot,
+   * changed pixels in red and bounding boxes outlined in yellow
+   *
+   * @returns Path of the written mask (undefined if writing failed)
+   */
+  private writeDiffMask(
+    after: RawImage,
+    mask: Uint8Array,
+    boxes: BoundingBox[],
+    afterPath: string
+  ): string | undefined {
+    const data = Buffer.alloc(after.data.length);
+
+    for (let i = 0; i < mask.length; i++) {
+      const idx = i * 4;
+      if (mask[i]) {
+        data[idx] = 255;
+        data[idx + 1] = 0;
+        data[idx + 2] = 0;
+      } else {
+        const gray = (after.data[idx]! * 0.299 + after.data[idx + 1]! * 0.587 + after.data[idx + 2]! * 0.114) * 0.4;
+        data[idx] = gray;
+        data[idx + 1] = gray;
+        data[idx + 2] = gray;
+      }
+      data[idx + 3] = 255;
+    }
+
+    for (const box of boxes) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        this.setYellow(data, after.width, x, box.y);
+        this.setYellow(data, after.width, x, box.y + box.height - 1);
+      }
+      for (let y = box.y; y < box.y + box.height; y++) {
+        this.setYellow(data, after.width, box.x, y);
+        this.setYellow(data, after.width, box.x + box.width - 1, y);
+      }
+    }
+
+    const maskPath = afterPath.replace(/\.png$/i, '') + '-diff.png';
+    try {
+      fs.writeFileSync(maskPath, encodePng({ width: after.width, height: after.height, data }));
+      return maskPath;
+    } catch (error) {
+      console.warn(`⚠ Failed to save diff mask: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Paint one pixel yellow (bounding box outline)
+   */
+  private setYellow(data: Buffer, width: number, x: number, y: number): void {
+    const idx = (y * width + x) * 4;
+    data[idx] = 255;
+    data[idx + 1] = 220;
+    data[idx + 2] = 0;
+  }
+
+  /**
+   * Confidence in the changed/unchanged verdict based on distance from the threshold
+   * Ratios close to the threshold are ambiguous; far away in either direction are clear
+   */
+  private getConfidence(diffRatio: number): number {
+    if (diffRatio === 0) return 95;
+    const distance = Math.abs(Math.log10(diffRatio / this.threshold)); // Orders of magnitude
+    return Math.round(Math.min(95, 55 + distance * 30));
+  }
 }
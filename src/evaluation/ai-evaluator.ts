@@ -1,17 +1,18 @@
 /**
  * AI Evaluator Module
  *
- * Analyzes captured evidence using GPT-4V to assess game playability.
+ * Analyzes captured evidence with a vision-capable LLM to assess game playability.
  * Evaluates load success, control responsiveness, and stability.
  */
 
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
+import { generateObject, type LanguageModel } from 'ai';
 import { z } from 'zod';
 import type { LLMEvaluation, Issue } from '../shared/types.js';
 import * as fs from 'fs';
-import { executeWithTimeout, getTimeout, TimeoutError } from '../utils/timeout-utils.js';
-import { ErrorTemplates } from '../shared/error-handler.js';
+import * as path from 'path';
+import { executeWithTimeout, getTimeout, TimeoutError, type TimeoutOverrides } from '../utils/timeout-utils.js';
+import { pngToModelJpeg } from '../shared/utils/image.js';
+import { createModelProvider, type ModelProvider } from '../shared/llm-provider.js';
 
 /**
  * Schema for LLM evaluation output
@@ -33,7 +34,7 @@ const evaluationSchema = z.object({
   issues: z
     .array(
       z.object({
-        type: z.enum(['crash', 'unresponsive', 'load_failure', 'rendering', 'other']),
+        type: z.enum(['crash', 'unresponsive', 'load_failure', 'rendering', 'performance', 'other']),
         severity: z.enum(['critical', 'major', 'minor']),
         description: z.string(),
       })
@@ -45,19 +46,58 @@ const evaluationSchema = z.object({
   reasoning: z.string().describe('Explanation of the assessment'),
 });
 
+/**
+ * Limits on the screenshots attached to a single evaluation request
+ */
+export interface ImageBudget {
+  maxImages: number; // Screenshots sent per request (first and last are always kept)
+  maxTotalBytes: number; // Combined size of encoded images
+  maxDimension: number; // Longest side in pixels after downscaling
+  jpegQuality: number; // JPEG re-encode quality 1-100
+}
+
+/**
+ * Default image budget - keeps requests well under provider payload limits
+ */
+export const DEFAULT_IMAGE_BUDGET: ImageBudget = {
+  maxImages: 6,
+  maxTotalBytes: 4 * 1024 * 1024,
+  maxDimension: 1024,
+  jpegQuality: 75,
+};
+
+/**
+ * Screenshot prepared for the vision model
+ */
+interface ModelImage {
+  path: string;
+  data: Buffer;
+  mediaType: 'image/jpeg' | 'image/png';
+}
+
 /**
  * AI Evaluator for analyzing game state and playability
  */
 export class AIEvaluator {
-  private modelName: string = 'gpt-4o';
-  private apiKey: string;
-
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.OPENAI_API_KEY || '';
+  private model: LanguageModel;
+  private modelDescription: string;
+  private imageBudget: ImageBudget;
+  private timeouts: TimeoutOverrides = {};
+
+  constructor(
+    modelProvider: ModelProvider = createModelProvider(),
+    imageBudget: Partial<ImageBudget> = {}
+  ) {
+    this.model = modelProvider.getModel('evaluation');
+    this.modelDescription = modelProvider.describe('evaluation');
+    this.imageBudget = { ...DEFAULT_IMAGE_BUDGET, ...imageBudget };
+  }
 
-    if (!this.apiKey) {
-      throw ErrorTemplates.missingApiKey('OpenAI');
-    }
+  /**
+   * Override the evaluation timeout for this run
+   */
+  setTimeouts(timeouts: TimeoutOverrides): void {
+    this.timeouts = timeouts;
   }
 
   /**
@@ -78,12 +118,16 @@ export class AIEvaluator {
       successfulActions: number;
       controlsResponseRate: number;
       intermediateScreenshots: number;
+      averageIdleChangeRatio?: number;
+      averageInputChangeRatio?: number;
+      averageFps?: number;
+      p95FrameTimeMs?: number;
     }
   ): Promise<LLMEvaluation> {
     console.log('🤖 Starting AI evaluation of game playability...');
 
     try {
-      // Load screenshots and convert to base64
+      // Load screenshots, downscaled and trimmed to the image budget
       const screenshots = await this.loadScreenshots(screenshotPaths);
 
       // Load console logs
@@ -95,25 +139,35 @@ export class AIEvaluator {
       // Build evaluation prompt with objective metrics
       const prompt = this.buildEvaluationPrompt(gameUrl, consoleLogs_content, objectiveMetrics);
 
-      console.log('📸 Sending screenshots and logs to GPT-4V for analysis...');
-
-      // Call GPT-4V with images and logs
-      console.log(`Sending ${screenshots.length} screenshot(s) and prompt to ${this.modelName}...`);
+      // Call the vision model with images and logs
+      console.log(`📸 Sending ${screenshots.length} screenshot(s) and logs to ${this.modelDescription}...`);
 
-      // Note: For now, we're using text-only evaluation due to SDK message format compatibility
-      // TODO: Fix image support in future versions with proper message format conversion
-      const evaluationPrompt = screenshots.length > 0
-        ? `${prompt}\n\nNote: ${screenshots.length} screenshot(s) were captured during testing.`
-        : prompt;
+      // Label each image so the model can relate it to the capture sequence
+      const imageParts = screenshots.flatMap((screenshot, index) => [
+        {
+          type: 'text' as const,
+          text: `Screenshot ${index + 1} of ${screenshots.length}: ${path.basename(screenshot.path)}`,
+        },
+        {
+          type: 'image' as const,
+          image: screenshot.data,
+          mediaType: screenshot.mediaType,
+        },
+      ]);
 
       // Wrap AI evaluation with timeout to prevent hanging
       const response = await executeWithTimeout(
         () => generateObject({
-          model: openai(this.modelName),
+          model: this.model,
           schema: evaluationSchema,
-          prompt: evaluationPrompt,
+          messages: [
+            {
+              role: 'user',
+              content: [{ type: 'text', text: prompt }, ...imageParts],
+            },
+          ],
         }),
-        getTimeout('AI_EVALUATION'),
+        getTimeout('AI_EVALUATION', this.timeouts),
         'AI game playability evaluation'
       );
 
@@ -211,6 +265,10 @@ export class AIEvaluator {
       successfulActions: number;
       controlsResponseRate: number;
       intermediateScreenshots: number;
+      averageIdleChangeRatio?: number;
+      averageInputChangeRatio?: number;
+      averageFps?: number;
+      p95FrameTimeMs?: number;
     }
   ): string {
     const gameInfo = gameUrl ? `Game URL: ${gameUrl}\n` : '';
@@ -218,11 +276,21 @@ export class AIEvaluator {
       ? `\nConsole Logs:\n${consoleLogs}\n`
       : '\nNo console logs available.\n';
 
+    const animationLine =
+      objectiveMetrics?.averageIdleChangeRatio !== undefined && objectiveMetrics.averageInputChangeRatio !== undefined
+        ? `\n  - Background Animation: ${(objectiveMetrics.averageIdleChangeRatio * 100).toFixed(2)}% of pixels change with no input vs ${(objectiveMetrics.averageInputChangeRatio * 100).toFixed(2)}% after input (actions are only credited when the input change clearly exceeds the idle change)`
+        : '';
+
+    const frameRateLine =
+      objectiveMetrics?.averageFps !== undefined && objectiveMetrics.p95FrameTimeMs !== undefined
+        ? `\n  - Frame Rate: ${objectiveMetrics.averageFps.toFixed(1)} FPS on average, 95th percentile frame time ${objectiveMetrics.p95FrameTimeMs.toFixed(1)}ms (measured in the page during interaction)`
+        : '';
+
     const metricsSection = objectiveMetrics
       ? `\nOBJECTIVE METRICS (Data-Driven Evidence):
   - Control Response Rate: ${objectiveMetrics.controlsResponseRate.toFixed(1)}% (${objectiveMetrics.successfulActions} of ${objectiveMetrics.totalActionsAttempted} actions caused visible state changes)
   - State Changes Detected: ${objectiveMetrics.successfulActions}
-  - Screenshot Progression: ${objectiveMetrics.intermediateScreenshots} intermediate screenshots (indicating ${objectiveMetrics.intermediateScreenshots > 0 ? 'visible changes during play' : 'no visible changes during play'})
+  - Screenshot Progression: ${objectiveMetrics.intermediateScreenshots} intermediate screenshots (indicating ${objectiveMetrics.intermediateScreenshots > 0 ? 'visible changes during play' : 'no visible changes during play'})${animationLine}${frameRateLine}
 
 IMPORTANT: Use these objective metrics as PRIMARY evidence when evaluating "responsive_controls". If control response rate is 0%, the controls are unresponsive regardless of visual appearance.
 `
@@ -254,29 +322,66 @@ Be thorough but concise in your analysis.`;
   }
 
   /**
-   * Load screenshots and convert to base64
+   * Pick which screenshots to send when there are more than the budget allows
+   * Always keeps the first (initial state) and last (final state), sampling evenly in between
+   *
+   * @param screenshotPaths - All screenshot paths in capture order
+   * @param maxImages - Maximum number of screenshots to keep
+   * @returns Selected paths in capture order
+   */
+  private selectScreenshots(screenshotPaths: string[], maxImages: number): string[] {
+    if (screenshotPaths.length <= maxImages) return screenshotPaths;
+    if (maxImages <= 0) return [];
+    if (maxImages === 1) return [screenshotPaths[screenshotPaths.length - 1]!];
+
+    const step = (screenshotPaths.length - 1) / (maxImages - 1);
+    const indices = new Set<number>();
+    for (let i = 0; i < maxImages; i++) {
+      indices.add(Math.round(i * step));
+    }
+    return [...indices].sort((a, b) => a - b).map((i) => screenshotPaths[i]!);
+  }
+
+  /**
+   * Load screenshots and re-encode them for the vision model
+   * Images are downscaled to JPEG; screenshots beyond the image budget are skipped
    *
    * @param screenshotPaths - Array of file paths
-   * @returns Array of loaded screenshots
+   * @returns Array of prepared screenshots
    */
-  private async loadScreenshots(
-    screenshotPaths: string[]
-  ): Promise<Array<{ path: string; base64: string }>> {
-    const screenshots: Array<{ path: string; base64: string }> = [];
+  private async loadScreenshots(screenshotPaths: string[]): Promise<ModelImage[]> {
+    const screenshots: ModelImage[] = [];
+    const existing = screenshotPaths.filter((screenshotPath) => {
+      if (fs.existsSync(screenshotPath)) return true;
+      console.warn(`⚠ Screenshot not found: ${screenshotPath}`);
+      return false;
+    });
+
+    const selected = this.selectScreenshots(existing, this.imageBudget.maxImages);
+    if (selected.length < existing.length) {
+      console.log(
+        `📸 Image budget: sending ${selected.length} of ${existing.length} screenshots (max ${this.imageBudget.maxImages})`
+      );
+    }
 
-    for (const path of screenshotPaths) {
+    let totalBytes = 0;
+    for (const screenshotPath of selected) {
       try {
-        if (fs.existsSync(path)) {
-          const fileContent = fs.readFileSync(path);
-          const base64 = fileContent.toString('base64');
-          screenshots.push({ path, base64 });
-          console.log(`✓ Loaded screenshot: ${path}`);
-        } else {
-          console.warn(`⚠ Screenshot not found: ${path}`);
+        const image = this.prepareScreenshot(screenshotPath);
+
+        if (totalBytes + image.data.length > this.imageBudget.maxTotalBytes) {
+          console.warn(
+            `⚠ Image budget exhausted (${Math.round(totalBytes / 1024)}KB) - skipping ${screenshotPath}`
+          );
+          continue;
         }
+
+        totalBytes += image.data.length;
+        screenshots.push(image);
+        console.log(`✓ Loaded screenshot: ${screenshotPath} (${Math.round(image.data.length / 1024)}KB)`);
       } catch (error) {
         console.warn(
-          `⚠ Failed to load screenshot ${path}: ${error instanceof Error ? error.message : String(error)}`
+          `⚠ Failed to load screenshot ${screenshotPath}: ${error instanceof Error ? error.message : String(error)}`
         );
       }
     }
@@ -288,6 +393,31 @@ Be thorough but concise in your analysis.`;
     return screenshots;
   }
 
+  /**
+   * Read a screenshot and downscale it to a JPEG within the image budget
+   * Falls back to the original file if it cannot be decoded as PNG
+   *
+   * @param screenshotPath - Screenshot file path
+   * @returns Prepared image
+   */
+  private prepareScreenshot(screenshotPath: string): ModelImage {
+    const fileContent = fs.readFileSync(screenshotPath);
+
+    try {
+      const { data } = pngToModelJpeg(
+        fileContent,
+        this.imageBudget.maxDimension,
+        this.imageBudget.jpegQuality
+      );
+      return { path: screenshotPath, data, mediaType: 'image/jpeg' };
+    } catch (error) {
+      console.warn(
+        `⚠ Could not re-encode ${screenshotPath}, sending original: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return { path: screenshotPath, data: fileContent, mediaType: 'image/png' };
+    }
+  }
+
   /**
    * Get fallback evaluation when LLM call fails
    *
@@ -4,14 +4,31 @@
  * Handles collection and organization of test artifacts:
  * - Screenshots at key moments
  * - Browser console logs
+ * - Uncaught exceptions, unhandled rejections and failed requests
+ * - Network traffic (network.har)
+ * - Optional frame recording of the whole session (frames/, recording.json)
  * - Manifest files with metadata
  */
 
 import { mkdir, writeFile } from 'fs/promises';
-import { join } from 'path';
+import { basename, join } from 'path';
 import { randomUUID } from 'crypto';
 import { simpleHash, hashAsNumber } from '../shared/utils/hash.js';
-import type { TestResult } from '../shared/types.js';
+import type { HarSettings, Issue, LocalGameSource, RecordingSettings, ReportFormat, TestResult } from '../shared/types.js';
+import type { InteractionSession } from './session-recorder.js';
+import { renderJUnitReport, renderMarkdownReport, REPORT_FILES } from './report-writers.js';
+import { renderHtmlReport } from './html-report.js';
+import {
+  attachPageErrorListeners,
+  formatPageError,
+  pageErrorsToIssues,
+  summarizePageErrors,
+  type PageErrorEntry,
+  type PageErrorSummary,
+} from './page-errors.js';
+import { NetworkRecorder, type NetworkSummary } from './network-recorder.js';
+import { buildRecordingMarkers, FrameRecorder, type RecordingIndex } from './frame-recorder.js';
+import type { HeapSample } from '../detection/heap-monitor.js';
 
 // Type for page objects (can be Stagehand Page or Playwright Page from context.pages())
 type PageLike = any;
@@ -45,8 +62,14 @@ export interface TestManifest {
   testId: string;
   timestamp: string;
   gameUrl: string;
+  localSource?: LocalGameSource; // Set when a local build was served (gameUrl is its file:// URL)
   screenshots: ScreenshotMetadata[];
   consoleLogs: ConsoleLogEntry[];
+  pageErrors?: PageErrorEntry[]; // Uncaught exceptions, unhandled rejections, failed requests, HTTP >= 400
+  session?: string; // Replayable interaction session (session.json), relative to the test dir
+  har?: string; // Network log (network.har), relative to the test dir
+  recording?: string; // Frame recording index (recording.json), relative to the test dir
+  heapSamples?: HeapSample[]; // JS heap usage per action cycle
   testStartTime: number;
   testEndTime?: number;
   totalDuration?: number;
@@ -62,28 +85,50 @@ export class EvidenceCapture {
   private outputDir: string;
   private screenshots: ScreenshotMetadata[] = [];
   private consoleLogs: ConsoleLogEntry[] = [];
+  private pageErrors: PageErrorEntry[] = [];
+  private errorCaptureAttached: boolean = false;
+  private network: NetworkRecorder = new NetworkRecorder();
+  private harFile: string | null = null;
+  private recorder: FrameRecorder = new FrameRecorder();
+  private recording: RecordingIndex | null = null;
+  private heapSamples: HeapSample[] = [];
   private testStartTime: number;
   private screenshotCount: number = 0;
+  private localSource: LocalGameSource | null = null;
+  private sessionFile: string | null = null;
+  private session: InteractionSession | null = null;
 
-  constructor(gameUrl: string, outputDir: string = './test-results') {
+  /**
+   * @param gameUrl - Game URL (or file:// URL of a local build)
+   * @param outputDir - Root results directory
+   * @param runId - Optional suffix for the run directory; keeps concurrent runs of the same game apart
+   */
+  constructor(gameUrl: string, outputDir: string = './test-results', runId?: string) {
     // Generate unique identifiers
     this.gameId = this.generateGameId(gameUrl);
     this.testId = randomUUID();
     this.outputDir = outputDir;
-    this.testDir = join(this.outputDir, this.gameId, this.getTimestamp());
+    const runDirName = runId ? `${this.getTimestamp()}-${runId}` : this.getTimestamp();
+    this.testDir = join(this.outputDir, this.gameId, runDirName);
     this.testStartTime = Date.now();
   }
 
   /**
    * Generate game ID from URL
    *
+   * Local builds (file:// URLs) use the build's folder/file name instead of a hostname,
+   * so the ID stays stable across runs regardless of the static server port
+   *
    * @param url - Game URL
    * @returns Game ID (max 50 chars, alphanumeric and hyphens)
    */
   private generateGameId(url: string): string {
     try {
       const urlObj = new URL(url);
-      const domain = urlObj.hostname.replace(/^www\./, '');
+      const domain =
+        urlObj.protocol === 'file:'
+          ? `local-${basename(decodeURIComponent(urlObj.pathname))}`
+          : urlObj.hostname.replace(/^www\./, '');
       const hash = hashAsNumber(url).toString(16).substring(0, 8);
       const combined = `${domain}-${hash}`.toLowerCase();
       return combined.replace(/[^a-z0-9-]/g, '').substring(0, 50);
@@ -103,6 +148,42 @@ export class EvidenceCapture {
     return date.toISOString().replace(/[:.]/g, '-').substring(0, 19);
   }
 
+  /**
+   * Record the local build being tested (included in the manifest)
+   *
+   * @param source - Local game source
+   */
+  setLocalSource(source: LocalGameSource): void {
+    this.localSource = source;
+  }
+
+  /**
+   * Set network recording limits (call before setupEarlyConsoleCapture)
+   *
+   * @param settings - HAR settings
+   */
+  setHarSettings(settings: HarSettings = {}): void {
+    this.network = new NetworkRecorder(settings);
+  }
+
+  /**
+   * Set frame recording options (call before setupEarlyConsoleCapture)
+   *
+   * @param settings - Recording settings (recording is off unless enabled)
+   */
+  setRecordingSettings(settings: RecordingSettings = {}): void {
+    this.recorder = new FrameRecorder(settings);
+  }
+
+  /**
+   * Record the JS heap series for the manifest
+   *
+   * @param samples - Heap samples in time order
+   */
+  setHeapSamples(samples: HeapSample[]): void {
+    this.heapSamples = samples;
+  }
+
   /**
    * Ensure test directory exists
    */
@@ -236,11 +317,16 @@ export class EvidenceCapture {
 
   /**
    * Setup console logging capture early (before navigation)
-   * Injects script that will be run before any page content loads
+   * Injects script that will be run before any page content loads, and starts page error
+   * and network capture
    *
    * @param page - Playwright Page object
    */
   async setupEarlyConsoleCapture(page: PageLike): Promise<void> {
+    await this.setupErrorCapture(page);
+    await this.setupNetworkCapture(page);
+    await this.setupRecording(page);
+
     // Inject a script to capture console calls before navigation
     // This must happen BEFORE the page navigates
     if (typeof (page as any).evaluateOnNewDocument === 'function') {
@@ -345,15 +431,8 @@ export class EvidenceCapture {
           }
         });
 
-        // Listen for page errors
-        (page as any).on('pageerror', (error: any) => {
-          try {
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            this.addConsoleLog('error', `Page error: ${errorMsg}`);
-          } catch {
-            // Silently skip error handling failures
-          }
-        });
+        // Page errors and failed requests (no-op if early capture already attached them)
+        void this.setupErrorCapture(page);
 
         // Also inject a script to capture console calls on the page itself
         // This helps catch console output that might not be exposed via Playwright events
@@ -401,6 +480,80 @@ export class EvidenceCapture {
     }
   }
 
+  /**
+   * Capture uncaught exceptions, unhandled rejections, failed requests and HTTP >= 400 responses
+   * Attaches once; call before navigation so errors during page load are captured
+   *
+   * @param page - Playwright or Stagehand V3 page
+   */
+  async setupErrorCapture(page: PageLike): Promise<void> {
+    if (this.errorCaptureAttached) return;
+    this.errorCaptureAttached = true;
+
+    try {
+      const attached = await attachPageErrorListeners(page, (entry) => this.addPageError(entry));
+      if (attached) {
+        console.log('✓ Page error capture configured');
+      } else {
+        this.errorCaptureAttached = false;
+        console.warn('⚠ Page object does not support error capture');
+      }
+    } catch (error) {
+      this.errorCaptureAttached = false;
+      console.warn(`⚠ Failed to setup page error capture: ${error}`);
+    }
+  }
+
+  /**
+   * Start recording network traffic for network.har (no-op when disabled or already recording)
+   * Call before navigation so the page's own requests are recorded
+   *
+   * @param page - Playwright or Stagehand V3 page
+   */
+  async setupNetworkCapture(page: PageLike): Promise<void> {
+    if (!this.network.isEnabled() || this.network.isAttached()) return;
+
+    try {
+      if (await this.network.attach(page)) {
+        console.log('✓ Network recording configured');
+      } else {
+        console.warn('⚠ Page object does not support network recording');
+      }
+    } catch (error) {
+      console.warn(`⚠ Failed to setup network recording: ${error}`);
+    }
+  }
+
+  /**
+   * Start recording frames (no-op unless enabled, or when already recording)
+   * Call before navigation so page load is recorded too
+   *
+   * @param page - Stagehand V3 page (screencast) or Playwright page (periodic screenshots)
+   */
+  async setupRecording(page: PageLike): Promise<void> {
+    if (!this.recorder.isEnabled() || this.recorder.isStarted()) return;
+
+    try {
+      if (await this.recorder.start(page, this.testDir)) {
+        console.log(`🎬 Recording session frames (up to ${this.recorder.getFps()} fps)`);
+      } else {
+        console.warn('⚠ Page object does not support frame recording');
+      }
+    } catch (error) {
+      console.warn(`⚠ Failed to start frame recording: ${error}`);
+    }
+  }
+
+  /**
+   * Record a page error; it is also written to the console log as an error
+   *
+   * @param entry - Captured page error or failed request
+   */
+  addPageError(entry: PageErrorEntry): void {
+    this.pageErrors.push(entry);
+    this.addConsoleLog('error', formatPageError(entry), entry.stack ? [entry.stack] : undefined);
+  }
+
   /**
    * Add console log entry
    *
@@ -462,6 +615,30 @@ export class EvidenceCapture {
     return lines.join('\n') + '\n';
   }
 
+  /**
+   * Build the manifest from everything captured so far
+   */
+  private buildManifest(gameUrl: string): TestManifest {
+    const testEndTime = Date.now();
+    return {
+      gameId: this.gameId,
+      testId: this.testId,
+      timestamp: new Date(this.testStartTime).toISOString(),
+      gameUrl,
+      ...(this.localSource && { localSource: this.localSource }),
+      screenshots: this.screenshots,
+      consoleLogs: this.consoleLogs,
+      pageErrors: this.pageErrors,
+      ...(this.sessionFile && { session: this.sessionFile }),
+      ...(this.harFile && { har: this.harFile }),
+      ...(this.recording && { recording: 'recording.json' }),
+      ...(this.heapSamples.length > 0 && { heapSamples: this.heapSamples }),
+      testStartTime: this.testStartTime,
+      testEndTime,
+      totalDuration: testEndTime - this.testStartTime,
+    };
+  }
+
   /**
    * Generate and save manifest file
    *
@@ -472,18 +649,7 @@ export class EvidenceCapture {
     try {
       await this.ensureDirectories();
 
-      const testEndTime = Date.now();
-      const manifest: TestManifest = {
-        gameId: this.gameId,
-        testId: this.testId,
-        timestamp: new Date(this.testStartTime).toISOString(),
-        gameUrl,
-        screenshots: this.screenshots,
-        consoleLogs: this.consoleLogs,
-        testStartTime: this.testStartTime,
-        testEndTime,
-        totalDuration: testEndTime - this.testStartTime,
-      };
+      const manifest = this.buildManifest(gameUrl);
 
       const filepath = join(this.testDir, 'manifest.json');
       await writeFile(filepath, JSON.stringify(manifest, null, 2), 'utf-8');
@@ -497,6 +663,94 @@ export class EvidenceCapture {
     }
   }
 
+  /**
+   * Save recorded network traffic as network.har
+   * Call before saveManifest() so the manifest can reference it
+   *
+   * @param title - Page title for the HAR page entry
+   * @param creatorVersion - Agent version
+   * @returns Path to the HAR file, or null when network recording was off
+   */
+  async saveHar(title: string, creatorVersion: string): Promise<string | null> {
+    if (!this.network.isAttached()) {
+      return null;
+    }
+
+    try {
+      await this.ensureDirectories();
+
+      const har = await this.network.toHar(title, creatorVersion);
+      const filepath = join(this.testDir, 'network.har');
+      await writeFile(filepath, JSON.stringify(har, null, 2), 'utf-8');
+      this.harFile = 'network.har';
+
+      console.log(`✓ Network log saved: network.har (${har.log.entries.length} requests)`);
+      return filepath;
+    } catch (error) {
+      throw new Error(
+        `Failed to save network log: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Stop the frame recording and save recording.json (plus recording.webm when ffmpeg is available)
+   * Call after saveSession() so inputs are marked on the timeline, and before saveManifest()
+   *
+   * @returns Path to recording.json, or null when recording was off
+   */
+  async saveRecording(): Promise<string | null> {
+    if (!this.recorder.isStarted()) {
+      return null;
+    }
+
+    try {
+      const frames = await this.recorder.stop();
+      const markers = buildRecordingMarkers(this.recorder.getStartTime(), {
+        screenshots: this.screenshots,
+        session: this.session,
+        pageErrors: this.pageErrors,
+      });
+      const video = await this.recorder.assembleVideo();
+      this.recording = this.recorder.buildIndex(markers, video);
+
+      const filepath = join(this.testDir, 'recording.json');
+      await writeFile(filepath, JSON.stringify(this.recording, null, 2), 'utf-8');
+
+      console.log(`✓ Recording saved: recording.json (${frames.length} frames${video ? `, ${video}` : ''})`);
+      return filepath;
+    } catch (error) {
+      throw new Error(
+        `Failed to save recording: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Save the recorded interaction session for `qa-agent replay`
+   * Call before saveManifest() so the manifest can reference it
+   *
+   * @param session - Recorded session
+   * @returns Path to session file
+   */
+  async saveSession(session: InteractionSession): Promise<string> {
+    try {
+      await this.ensureDirectories();
+
+      const filepath = join(this.testDir, 'session.json');
+      await writeFile(filepath, JSON.stringify(session, null, 2), 'utf-8');
+      this.sessionFile = 'session.json';
+      this.session = session;
+
+      console.log(`✓ Session saved: session.json (${session.steps.length} steps)`);
+      return filepath;
+    } catch (error) {
+      throw new Error(
+        `Failed to save session: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Save test result JSON (the actual TestResult with status, playability_score, etc.)
    *
@@ -519,6 +773,65 @@ export class EvidenceCapture {
     }
   }
 
+  /**
+   * Save report.html: a standalone page with the result, timeline, screenshots and console logs
+   * Screenshots are linked relatively, so the run folder can be zipped and shared as is
+   *
+   * @param result - Test result to render
+   * @returns Path to report.html
+   */
+  async saveHtmlReport(result: TestResult): Promise<string> {
+    try {
+      await this.ensureDirectories();
+
+      const html = renderHtmlReport({
+        result,
+        manifest: this.buildManifest(result.gameUrl),
+        session: this.session,
+        recording: this.recording,
+      });
+      const filepath = join(this.testDir, 'report.html');
+      await writeFile(filepath, html, 'utf-8');
+
+      console.log(`✓ HTML report saved: report.html`);
+      return filepath;
+    } catch (error) {
+      throw new Error(
+        `Failed to save HTML report: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Save additional report formats next to test-output.json
+   * "json" is skipped - saveTestResult() always writes it
+   *
+   * @param result - Test result to render
+   * @param formats - Formats to write (junit → junit.xml, md → report.md)
+   * @returns Paths to the written reports
+   */
+  async saveReports(result: TestResult, formats: ReportFormat[] = []): Promise<string[]> {
+    const paths: string[] = [];
+    try {
+      await this.ensureDirectories();
+
+      for (const format of formats) {
+        if (format === 'json') continue;
+        const content =
+          format === 'junit' ? renderJUnitReport([result], this.gameId) : renderMarkdownReport(result, this.testDir);
+        const filepath = join(this.testDir, REPORT_FILES[format]);
+        await writeFile(filepath, content, 'utf-8');
+        console.log(`✓ Report saved: ${REPORT_FILES[format]}`);
+        paths.push(filepath);
+      }
+      return paths;
+    } catch (error) {
+      throw new Error(
+        `Failed to save reports: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   /**
    * Get all captured screenshot paths
    *
@@ -573,6 +886,43 @@ export class EvidenceCapture {
     return this.consoleLogs.length;
   }
 
+  /**
+   * Get captured page errors and failed requests
+   *
+   * @returns Page error entries
+   */
+  getPageErrors(): PageErrorEntry[] {
+    return this.pageErrors;
+  }
+
+  /**
+   * Get page error counts per kind for result metadata
+   *
+   * @returns Page error summary
+   */
+  getPageErrorSummary(): PageErrorSummary {
+    return summarizePageErrors(this.pageErrors);
+  }
+
+  /**
+   * Get network statistics for result metadata
+   *
+   * @returns Network summary, or undefined when network recording was off
+   */
+  getNetworkSummary(): NetworkSummary | undefined {
+    return this.network.isAttached() ? this.network.getSummary() : undefined;
+  }
+
+  /**
+   * Map captured page errors to issues (crash / load_failure)
+   *
+   * @param pageUrl - URL of the game page (a failure to load it is critical)
+   * @returns Issues, in order of first occurrence
+   */
+  getPageErrorIssues(pageUrl?: string): Issue[] {
+    return pageErrorsToIssues(this.pageErrors, this.testStartTime, pageUrl);
+  }
+
   /**
    * Get all console logs
    *
@@ -0,0 +1,444 @@
+/**
+ * Frame Recorder Module
+ *
+ * Records the whole session as a frame sequence, so stutter, flicker and short-lived
+ * crashes are visible even though only a handful of screenshots are evaluated:
+ * - Frames (JPEG) are written to frames/ in the test directory as they arrive
+ * - recording.json indexes every frame with its offset, plus markers for inputs,
+ *   screenshots and page errors on the same clock
+ * - recording.webm is assembled from the frames when ffmpeg is on PATH
+ *
+ * Stagehand V3 pages are recorded with a CDP screencast (frames only arrive when the page repaints);
+ * Playwright pages fall back to periodic screenshots.
+ */
+
+import { spawn } from 'child_process';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { RecordingSettings } from '../shared/types.js';
+import type { ScreenshotMetadata } from './evidence-capture.js';
+import type { InteractionSession } from './session-recorder.js';
+import { formatPageError, type PageErrorEntry } from './page-errors.js';
+
+/**
+ * Settings used when neither the config file nor the caller sets them
+ */
+export const DEFAULT_RECORDING_SETTINGS: Required<RecordingSettings> = {
+  enabled: false,
+  fps: 5,
+  quality: 60,
+  maxFrames: 1500,
+  video: true,
+};
+
+/**
+ * Frame directory inside the test directory
+ */
+export const FRAMES_DIR = 'frames';
+
+/**
+ * Screencast frames are scaled down to fit this size (the game's own resolution doesn't matter for review)
+ */
+const MAX_FRAME_WIDTH = 1280;
+const MAX_FRAME_HEIGHT = 720;
+
+/**
+ * ffmpeg gets this long to encode recording.webm before it is stopped
+ */
+const FFMPEG_TIMEOUT_MS = 120000;
+
+/**
+ * One recorded frame
+ */
+export interface RecordedFrame {
+  file: string; // Relative to the test dir (e.g., "frames/frame-00012.jpg")
+  offset_ms: number; // Since the recording started; the frame is shown until the next one
+}
+
+export type RecordingMarkerKind = 'action' | 'screenshot' | 'error';
+
+/**
+ * Something that happened during the recording, placed on the frame timeline
+ */
+export interface RecordingMarker {
+  offset_ms: number; // Since the recording started
+  kind: RecordingMarkerKind;
+  label: string;
+  ok: boolean;
+}
+
+/**
+ * Contents of recording.json
+ */
+export interface RecordingIndex {
+  version: 1;
+  source: 'screencast' | 'screenshots';
+  fps: number; // Frame rate cap; the actual rate follows the page's repaints
+  started_at: string; // ISO8601
+  duration_ms: number;
+  frames: RecordedFrame[];
+  dropped_frames: number; // Frames past maxFrames
+  markers: RecordingMarker[];
+  video?: string; // recording.webm, when ffmpeg was available
+}
+
+/**
+ * Place inputs, screenshots and page errors on the recording's timeline
+ *
+ * @param recordingStart - When the recording started (epoch ms)
+ * @param input - Captured screenshots, recorded session and page errors
+ * @returns Markers in time order
+ */
+export function buildRecordingMarkers(
+  recordingStart: number,
+  input: { screenshots: ScreenshotMetadata[]; session?: InteractionSession | null; pageErrors: PageErrorEntry[] }
+): RecordingMarker[] {
+  const at = (timestamp: number) => Math.max(0, timestamp - recordingStart);
+  const markers: RecordingMarker[] = input.screenshots.map((shot) => ({
+    offset_ms: at(shot.timestamp),
+    kind: 'screenshot',
+    label: shot.description,
+    ok: true,
+  }));
+
+  if (input.session) {
+    // Session offsets count from when interaction started
+    const sessionStart = Date.parse(input.session.recordedAt);
+    for (const step of input.session.steps) {
+      if (step.kind !== 'action') continue;
+      markers.push({
+        offset_ms: at(sessionStart + step.offset_ms),
+        kind: 'action',
+        label: `${step.instruction}${step.source === 'modal-close' ? ' (close modal)' : ''}`,
+        ok: step.success,
+      });
+    }
+  }
+
+  for (const entry of input.pageErrors) {
+    markers.push({ offset_ms: at(entry.timestamp), kind: 'error', label: formatPageError(entry), ok: false });
+  }
+
+  return markers.sort((a, b) => a.offset_ms - b.offset_ms);
+}
+
+/**
+ * Records one page's frames into the test directory
+ */
+export class FrameRecorder {
+  private settings: Required<RecordingSettings>;
+  private testDir: string | null = null;
+  private source: RecordingIndex['source'] = 'screencast';
+  private frames: RecordedFrame[] = [];
+  private writes: Promise<void>[] = [];
+  private writeErrors: number = 0;
+  private droppedFrames: number = 0;
+  private startTime: number = 0;
+  private endTime: number = 0;
+  private lastKeptAt: number = -Infinity;
+  private held: { data: Buffer; at: number } | null = null; // Newest frame that arrived too soon after the last kept one
+  private holdTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopCapture: (() => Promise<void>) | null = null;
+  private started: boolean = false;
+  private stopped: boolean = false;
+
+  /**
+   * @param settings - Frame rate, quality and limits
+   */
+  constructor(settings: RecordingSettings = {}) {
+    this.settings = {
+      enabled: settings.enabled ?? DEFAULT_RECORDING_SETTINGS.enabled,
+      fps: Math.max(1, settings.fps ?? DEFAULT_RECORDING_SETTINGS.fps),
+      quality: settings.quality ?? DEFAULT_RECORDING_SETTINGS.quality,
+      maxFrames: settings.maxFrames ?? DEFAULT_RECORDING_SETTINGS.maxFrames,
+      video: settings.video ?? DEFAULT_RECORDING_SETTINGS.video,
+    };
+  }
+
+  /**
+   * Check whether recording is enabled
+   */
+  isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  /**
+   * Check whether recording was started (it may have been stopped since)
+   */
+  isStarted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Get the frame rate cap
+   */
+  getFps(): number {
+    return this.settings.fps;
+  }
+
+  /**
+   * Start recording a page
+   * Call before navigation so page load is recorded too
+   *
+   * @param page - Stagehand V3 page (screencast) or Playwright page (periodic screenshots)
+   * @param testDir - Test directory; frames go to testDir/frames
+   * @returns true if recording started
+   */
+  async start(page: any, testDir: string): Promise<boolean> {
+    if (!this.settings.enabled || this.started) {
+      return this.started;
+    }
+
+    await mkdir(join(testDir, FRAMES_DIR), { recursive: true });
+    this.testDir = testDir;
+    this.startTime = Date.now();
+
+    if (typeof page?.getSessionForFrame === 'function') {
+      await this.startScreencast(page.getSessionForFrame(page.mainFrameId()));
+    } else if (typeof page?.screenshot === 'function') {
+      this.startScreenshotLoop(page);
+    } else {
+      return false;
+    }
+
+    this.started = true;
+    return true;
+  }
+
+  /**
+   * Stream frames with Page.startScreencast on a CDP session
+   */
+  private async startScreencast(session: any): Promise<void> {
+    this.source = 'screencast';
+    session.on('Page.screencastFrame', (params: any) => {
+      // Chrome stops sending frames until each one is acknowledged
+      session.send('Page.screencastFrameAck', { sessionId: params.sessionId }).catch(() => {});
+      // Local clock, not params.metadata.timestamp: a remote browser's clock may be skewed from the markers'
+      this.offer(Buffer.from(params.data, 'base64'), Date.now());
+    });
+
+    await session.send('Page.startScreencast', {
+      format: 'jpeg',
+      quality: this.settings.quality,
+      maxWidth: MAX_FRAME_WIDTH,
+      maxHeight: MAX_FRAME_HEIGHT,
+      everyNthFrame: 1,
+    });
+    this.stopCapture = async () => {
+      await session.send('Page.stopScreencast');
+    };
+  }
+
+  /**
+   * Take JPEG screenshots at the frame rate until stopped
+   */
+  private startScreenshotLoop(page: any): void {
+    this.source = 'screenshots';
+    const interval = 1000 / this.settings.fps;
+    let running = true;
+
+    const loop = async () => {
+      while (running) {
+        const startedAt = Date.now();
+        try {
+          const data: Buffer = await page.screenshot({ type: 'jpeg', quality: this.settings.quality });
+          this.offer(data, startedAt);
+        } catch {
+          // Page is navigating or closed - try again next tick
+        }
+        const wait = interval - (Date.now() - startedAt);
+        if (wait > 0) {
+          await new Promise((resolve) => setTimeout(resolve, wait));
+        }
+      }
+    };
+
+    const done = loop();
+    this.stopCapture = async () => {
+      running = false;
+      await done;
+    };
+  }
+
+  /**
+   * Keep a frame, or hold it back when it arrives faster than the frame rate cap
+   * A held frame is kept once the interval has passed unless a newer one replaces it,
+   * so the last state before the page goes quiet is never lost
+   */
+  private offer(data: Buffer, at: number): void {
+    if (this.stopped) return;
+
+    const interval = 1000 / this.settings.fps;
+    if (at - this.lastKeptAt >= interval) {
+      this.held = null;
+      this.keep(data, at);
+      return;
+    }
+
+    this.held = { data, at };
+    if (!this.holdTimer) {
+      this.holdTimer = setTimeout(() => {
+        this.holdTimer = null;
+        this.flushHeld();
+      }, this.lastKeptAt + interval - at);
+    }
+  }
+
+  /**
+   * Keep the held frame, if any
+   */
+  private flushHeld(): void {
+    if (this.held) {
+      const { data, at } = this.held;
+      this.held = null;
+      this.keep(data, at);
+    }
+  }
+
+  /**
+   * Write a frame to disk and index it
+   */
+  private keep(data: Buffer, at: number): void {
+    if (!this.testDir) return;
+    if (this.frames.length >= this.settings.maxFrames) {
+      if (this.droppedFrames === 0) {
+        console.warn(`⚠ Recording reached ${this.settings.maxFrames} frames, dropping the rest`);
+      }
+      this.droppedFrames++;
+      return;
+    }
+
+    const file = `${FRAMES_DIR}/frame-${String(this.frames.length).padStart(5, '0')}.jpg`;
+    this.frames.push({ file, offset_ms: Math.max(0, at - this.startTime) });
+    this.lastKeptAt = at;
+    this.writes.push(
+      writeFile(join(this.testDir, file), data).catch(() => {
+        this.writeErrors++;
+      })
+    );
+  }
+
+  /**
+   * Stop recording and wait for every frame to be written
+   *
+   * @returns Recorded frames
+   */
+  async stop(): Promise<RecordedFrame[]> {
+    if (!this.started || this.stopped) {
+      return this.frames;
+    }
+
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer);
+      this.holdTimer = null;
+    }
+    this.flushHeld();
+    this.stopped = true;
+    this.endTime = Date.now();
+
+    try {
+      await this.stopCapture?.();
+    } catch {
+      // Page or browser already closed
+    }
+    await Promise.all(this.writes);
+    if (this.writeErrors > 0) {
+      console.warn(`⚠ ${this.writeErrors} recording frame(s) could not be written`);
+    }
+    return this.frames;
+  }
+
+  /**
+   * Assemble recording.webm from the frames with ffmpeg (skipped when ffmpeg isn't installed)
+   * Each frame is shown until the next one, so the video plays in real time
+   *
+   * @returns "recording.webm", or null when no video was written
+   */
+  async assembleVideo(): Promise<string | null> {
+    if (!this.settings.video || !this.testDir || this.frames.length < 2) {
+      return null;
+    }
+
+    // Concat demuxer list; paths are relative to the list file
+    const listPath = join(this.testDir, FRAMES_DIR, 'frames.ffconcat');
+    const duration = this.endTime - this.startTime;
+    const lines = ['ffconcat version 1.0'];
+    this.frames.forEach((frame, index) => {
+      const next = this.frames[index + 1]?.offset_ms ?? Math.max(duration, frame.offset_ms + 1000 / this.settings.fps);
+      lines.push(`file '${frame.file.slice(FRAMES_DIR.length + 1)}'`, `duration ${((next - frame.offset_ms) / 1000).toFixed(3)}`);
+    });
+    // The demuxer ignores the last entry's duration unless the file is listed again
+    lines.push(`file '${this.frames[this.frames.length - 1]!.file.slice(FRAMES_DIR.length + 1)}'`);
+    await writeFile(listPath, lines.join('\n') + '\n', 'utf-8');
+
+    const output = 'recording.webm';
+    const args = [
+      '-y', '-loglevel', 'error',
+      '-f', 'concat', '-safe', '0', '-i', listPath,
+      '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2', // VP8 needs even dimensions
+      '-r', String(this.settings.fps),
+      '-c:v', 'libvpx', '-b:v', '1M', '-pix_fmt', 'yuv420p',
+      join(this.testDir, output),
+    ];
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const ffmpeg = spawn('ffmpeg', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+        let stderr = '';
+        ffmpeg.stderr.on('data', (chunk) => {
+          stderr += chunk;
+        });
+        const timer = setTimeout(() => {
+          ffmpeg.kill();
+          reject(new Error(`timed out after ${FFMPEG_TIMEOUT_MS}ms`));
+        }, FFMPEG_TIMEOUT_MS);
+        ffmpeg.on('error', (error) => {
+          clearTimeout(timer);
+          reject(error);
+        });
+        ffmpeg.on('close', (code) => {
+          clearTimeout(timer);
+          code === 0 ? resolve() : reject(new Error(stderr.trim().split('\n').pop() || `exit code ${code}`));
+        });
+      });
+      return output;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.log(`ℹ ffmpeg not found on PATH, skipping ${output} (frames are in ${FRAMES_DIR}/)`);
+      } else {
+        console.warn(`⚠ Could not assemble ${output}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return null;
+    } finally {
+      await rm(listPath, { force: true });
+    }
+  }
+
+  /**
+   * Build recording.json
+   *
+   * @param markers - Events on the recording's timeline (see buildRecordingMarkers)
+   * @param video - Assembled video file, if any
+   * @returns Recording index
+   */
+  buildIndex(markers: RecordingMarker[], video?: string | null): RecordingIndex {
+    return {
+      version: 1,
+      source: this.source,
+      fps: this.settings.fps,
+      started_at: new Date(this.startTime).toISOString(),
+      duration_ms: (this.endTime || Date.now()) - this.startTime,
+      frames: this.frames,
+      dropped_frames: this.droppedFrames,
+      markers,
+      ...(video && { video }),
+    };
+  }
+
+  /**
+   * When recording started (epoch ms)
+   */
+  getStartTime(): number {
+    return this.startTime;
+  }
+}
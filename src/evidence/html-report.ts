@@ -0,0 +1,363 @@
+/**
+ * HTML Report Module
+ *
+ * Renders a single self-contained report.html for a run directory:
+ * - Status, score and the AI reasoning
+ * - Issues table
+ * - Timeline of screenshots and recorded inputs
+ * - Frame player with input / screenshot / error markers (when the session was recorded)
+ * - Screenshot gallery (relative links, so the folder can be zipped and shared as is)
+ * - Console log table with level filters
+ *
+ * No external CSS, fonts or scripts - the file opens offline from any location inside the run folder.
+ */
+
+import type { TestResult } from '../shared/types.js';
+import type { ConsoleLogEntry, TestManifest } from './evidence-capture.js';
+import type { InteractionSession } from './session-recorder.js';
+import type { RecordingIndex, RecordingMarkerKind } from './frame-recorder.js';
+
+/**
+ * Everything the report is rendered from
+ */
+export interface HtmlReportInput {
+  result: TestResult;
+  manifest: TestManifest;
+  session?: InteractionSession | null;
+  recording?: RecordingIndex | null;
+}
+
+/**
+ * One row of the timeline
+ */
+interface TimelineEvent {
+  at_ms: number; // Since the test started
+  kind: 'screenshot' | 'action' | 'wait';
+  label: string;
+  ok: boolean;
+}
+
+const LOG_LEVELS: ConsoleLogEntry['level'][] = ['error', 'warn', 'info', 'log'];
+
+const STATUS_COLORS: Record<TestResult['status'], string> = {
+  pass: '#1a7f37',
+  fail: '#cf222e',
+  error: '#9a6700',
+};
+
+const MARKER_COLORS: Record<RecordingMarkerKind, string> = {
+  action: '#0969da',
+  screenshot: '#8250df',
+  error: '#cf222e',
+};
+
+/**
+ * Escape text for HTML content and attributes
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format milliseconds as seconds with one decimal
+ */
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Merge screenshots and session steps into one time-ordered list
+ */
+function buildTimeline(manifest: TestManifest, session?: InteractionSession | null): TimelineEvent[] {
+  const events: TimelineEvent[] = manifest.screenshots.map((shot) => ({
+    at_ms: shot.timestamp - manifest.testStartTime,
+    kind: 'screenshot',
+    label: shot.description,
+    ok: true,
+  }));
+
+  if (session) {
+    // Session offsets count from when interaction started, not from the test start
+    const sessionStart = Date.parse(session.recordedAt) - manifest.testStartTime;
+    for (const step of session.steps) {
+      events.push(
+        step.kind === 'action'
+          ? {
+              at_ms: sessionStart + step.offset_ms,
+              kind: 'action',
+              label: `${step.instruction}${step.source === 'modal-close' ? ' (close modal)' : ''} - ${step.duration_ms}ms`,
+              ok: step.success,
+            }
+          : {
+              at_ms: sessionStart + step.offset_ms,
+              kind: 'wait',
+              label: `Wait ${step.duration_ms}ms (${step.reason})`,
+              ok: true,
+            }
+      );
+    }
+  }
+
+  return events.sort((a, b) => a.at_ms - b.at_ms);
+}
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  main { max-width: 1100px; margin: 0 auto; padding: 24px; }
+  section { background: #fff; border: 1px solid #d0d7de; border-radius: 8px; padding: 16px 20px; margin-bottom: 16px; }
+  h1 { font-size: 22px; margin: 0 0 8px; word-break: break-all; }
+  h2 { font-size: 16px; margin: 0 0 12px; }
+  .badge { display: inline-block; color: #fff; border-radius: 12px; padding: 2px 10px; font-size: 12px; font-weight: 600; text-transform: uppercase; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 12px; margin-top: 12px; }
+  .stat { background: #f6f8fa; border-radius: 6px; padding: 8px 12px; }
+  .stat b { display: block; font-size: 20px; }
+  .stat span { font-size: 12px; color: #57606a; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #d8dee4; vertical-align: top; }
+  th { background: #f6f8fa; }
+  td.time { white-space: nowrap; color: #57606a; font-variant-numeric: tabular-nums; }
+  td.msg { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; white-space: pre-wrap; word-break: break-word; }
+  .sev-critical, .lvl-error, .failed { color: #cf222e; font-weight: 600; }
+  .sev-major, .lvl-warn { color: #9a6700; font-weight: 600; }
+  .gallery { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 12px; }
+  figure { margin: 0; }
+  figure img { width: 100%; border: 1px solid #d0d7de; border-radius: 6px; }
+  figcaption { font-size: 12px; color: #57606a; margin-top: 4px; }
+  .filters label { margin-right: 12px; font-size: 13px; }
+  .reasoning { white-space: pre-wrap; line-height: 1.5; }
+  .muted { color: #57606a; }
+  .player img { display: block; max-width: 100%; max-height: 480px; margin: 0 auto 8px; border: 1px solid #d0d7de; border-radius: 6px; background: #000; }
+  .player .controls { display: flex; align-items: center; gap: 8px; }
+  .player input[type=range] { flex: 1; }
+  .markers { position: relative; height: 14px; margin: 4px 0 8px; }
+  .markers span { position: absolute; top: 0; width: 3px; height: 14px; border-radius: 1px; cursor: pointer; }
+  .markers span.failed-marker { outline: 1px solid #cf222e; }
+`;
+
+/**
+ * Toggles console rows by level; each checkbox's value is a level
+ */
+const FILTER_SCRIPT = `
+  document.querySelectorAll('.filters input').forEach(function (box) {
+    box.addEventListener('change', function () {
+      document.querySelectorAll('#console tr[data-level="' + box.value + '"]').forEach(function (row) {
+        row.style.display = box.checked ? '' : 'none';
+      });
+    });
+  });
+`;
+
+/**
+ * Frame player: the slider picks a frame, Play advances in real time, clicking a marker seeks to it
+ * Reads the frame list from the JSON in #recording-data
+ */
+const PLAYER_SCRIPT = `
+  (function () {
+    var data = document.getElementById('recording-data');
+    if (!data) return;
+    var frames = JSON.parse(data.textContent);
+    var img = document.getElementById('frame');
+    var slider = document.getElementById('frame-slider');
+    var time = document.getElementById('frame-time');
+    var play = document.getElementById('frame-play');
+    var timer = null;
+    function show(i) {
+      slider.value = i;
+      img.src = frames[i].file;
+      time.textContent = (frames[i].offset_ms / 1000).toFixed(1) + 's';
+    }
+    function frameAt(ms) {
+      var i = 0;
+      while (i + 1 < frames.length && frames[i + 1].offset_ms <= ms) i++;
+      return i;
+    }
+    function stop() {
+      clearTimeout(timer);
+      timer = null;
+      play.textContent = 'Play';
+    }
+    function step() {
+      var i = Number(slider.value) + 1;
+      if (i >= frames.length) return stop();
+      show(i);
+      timer = setTimeout(step, i + 1 < frames.length ? frames[i + 1].offset_ms - frames[i].offset_ms : 0);
+    }
+    slider.addEventListener('input', function () { stop(); show(Number(slider.value)); });
+    play.addEventListener('click', function () {
+      if (timer) return stop();
+      if (Number(slider.value) >= frames.length - 1) show(0);
+      play.textContent = 'Pause';
+      step();
+    });
+    document.querySelectorAll('.markers span').forEach(function (marker) {
+      marker.addEventListener('click', function () { stop(); show(frameAt(Number(marker.dataset.at))); });
+    });
+  })();
+`;
+
+/**
+ * Render the frame player section (empty when the session wasn't recorded)
+ */
+function renderRecording(recording?: RecordingIndex | null): string {
+  if (!recording || recording.frames.length === 0) {
+    return '';
+  }
+
+  const duration = Math.max(recording.duration_ms, 1);
+  const markers = recording.markers
+    .map(
+      (marker) =>
+        `<span class="${marker.ok ? '' : 'failed-marker'}" data-at="${marker.offset_ms}" ` +
+        `style="left: ${((marker.offset_ms / duration) * 100).toFixed(2)}%; background: ${MARKER_COLORS[marker.kind]}" ` +
+        `title="${escapeHtml(`${seconds(marker.offset_ms)} ${marker.kind}: ${marker.label}`)}"></span>`
+    )
+    .join('');
+  // Inline JSON: "<" is escaped so frame names can't close the script element
+  const frames = JSON.stringify(recording.frames).replace(/</g, '\\u003c');
+
+  return `<section class="player">
+  <h2>Recording (${recording.frames.length} frames, ${seconds(recording.duration_ms)})</h2>
+  <img id="frame" src="${escapeHtml(encodeURI(recording.frames[0]!.file))}" alt="Recorded frame">
+  <div class="controls">
+    <button id="frame-play" type="button">Play</button>
+    <input id="frame-slider" type="range" min="0" max="${recording.frames.length - 1}" value="0">
+    <span id="frame-time" class="muted">0.0s</span>
+  </div>
+  <div class="markers">${markers}</div>
+  <div class="muted">
+    Markers: <span style="color: ${MARKER_COLORS.action}">inputs</span>, <span style="color: ${MARKER_COLORS.screenshot}">screenshots</span>,
+    <span style="color: ${MARKER_COLORS.error}">page errors</span>${recording.dropped_frames > 0 ? ` &middot; ${recording.dropped_frames} frames dropped (frame limit)` : ''}${recording.video ? ` &middot; <a href="${escapeHtml(recording.video)}">${escapeHtml(recording.video)}</a>` : ''}
+  </div>
+  <script type="application/json" id="recording-data">${frames}</script>
+</section>`;
+}
+
+/**
+ * Render the run as a standalone HTML document
+ *
+ * @param input - Result, manifest, and (optional) recorded session and frame recording
+ * @returns HTML document
+ */
+export function renderHtmlReport({ result, manifest, session, recording }: HtmlReportInput): string {
+  const title = result.metadata.game_title || result.gameUrl;
+  const metrics = result.metadata.objective_metrics;
+  const timeline = buildTimeline(manifest, session);
+
+  const stats: Array<[string, string]> = [
+    ['Playability score', `${result.playability_score}/100`],
+    ['Confidence', `${result.confidence}%`],
+    ['Duration', seconds(result.execution_time_ms)],
+    ['Actions performed', String(result.metadata.actions_performed)],
+    ...(metrics ? [['Control response rate', `${metrics.control_response_rate.toFixed(1)}%`] as [string, string]] : []),
+    ...(metrics?.avg_fps != null ? [['Average FPS', `${metrics.avg_fps} (p95 ${metrics.p95_frame_time_ms}ms)`] as [string, string]] : []),
+    ['Browser errors', String(result.metadata.browser_errors)],
+  ];
+
+  const issueRows = result.issues
+    .map(
+      (issue) =>
+        `<tr><td class="sev-${issue.severity}">${issue.severity}</td><td>${escapeHtml(issue.type)}</td>` +
+        `<td>${escapeHtml(issue.description)}</td><td class="time">${seconds(issue.detected_at_ms)}</td></tr>`
+    )
+    .join('\n');
+
+  const timelineRows = timeline
+    .map(
+      (event) =>
+        `<tr><td class="time">${seconds(event.at_ms)}</td><td>${event.kind}</td>` +
+        `<td class="${event.ok ? '' : 'failed'}">${escapeHtml(event.label)}${event.ok ? '' : ' (failed)'}</td></tr>`
+    )
+    .join('\n');
+
+  const gallery = manifest.screenshots
+    .map(
+      (shot) =>
+        `<figure><a href="${escapeHtml(encodeURI(shot.filename))}"><img src="${escapeHtml(encodeURI(shot.filename))}" alt="${escapeHtml(shot.description)}" loading="lazy"></a>` +
+        `<figcaption>${seconds(shot.timestamp - manifest.testStartTime)} - ${escapeHtml(shot.description)}</figcaption></figure>`
+    )
+    .join('\n');
+
+  const levelCounts = Object.fromEntries(
+    LOG_LEVELS.map((level) => [level, manifest.consoleLogs.filter((log) => log.level === level).length])
+  );
+  const consoleRows = manifest.consoleLogs
+    .map(
+      (log) =>
+        `<tr data-level="${log.level}"><td class="time">${seconds(log.timestamp - manifest.testStartTime)}</td>` +
+        `<td class="lvl-${log.level}">${log.level}</td><td class="msg">${escapeHtml(log.message)}</td></tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`QA report - ${title}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<section>
+  <span class="badge" style="background: ${STATUS_COLORS[result.status]}">${result.status}</span>
+  <h1>${escapeHtml(title)}</h1>
+  <div class="muted">${escapeHtml(result.gameUrl)} &middot; ${escapeHtml(result.timestamp)} &middot; agent ${escapeHtml(result.metadata.agent_version)}</div>
+  <div class="stats">
+    ${stats.map(([label, value]) => `<div class="stat"><b>${escapeHtml(value)}</b><span>${label}</span></div>`).join('\n    ')}
+  </div>
+</section>
+
+<section>
+  <h2>AI evaluation</h2>
+  <div class="reasoning">${escapeHtml(result.metadata.evaluation_reasoning ?? 'No evaluation reasoning recorded.')}</div>
+</section>
+
+<section>
+  <h2>Issues (${result.issues.length})</h2>
+  ${
+    result.issues.length > 0
+      ? `<table><thead><tr><th>Severity</th><th>Type</th><th>Description</th><th>At</th></tr></thead><tbody>\n${issueRows}\n</tbody></table>`
+      : '<p class="muted">No issues found.</p>'
+  }
+</section>
+
+<section>
+  <h2>Timeline (${timeline.length})</h2>
+  ${
+    timeline.length > 0
+      ? `<table><thead><tr><th>At</th><th>Event</th><th>Detail</th></tr></thead><tbody>\n${timelineRows}\n</tbody></table>`
+      : '<p class="muted">No events recorded.</p>'
+  }
+</section>
+
+${renderRecording(recording)}
+
+<section>
+  <h2>Screenshots (${manifest.screenshots.length})</h2>
+  <div class="gallery">
+${gallery}
+  </div>
+</section>
+
+<section>
+  <h2>Console (${manifest.consoleLogs.length})</h2>
+  <div class="filters">
+    ${LOG_LEVELS.map((level) => `<label><input type="checkbox" value="${level}" checked> ${level} (${levelCounts[level]})</label>`).join('\n    ')}
+  </div>
+  ${
+    manifest.consoleLogs.length > 0
+      ? `<table id="console"><thead><tr><th>At</th><th>Level</th><th>Message</th></tr></thead><tbody>\n${consoleRows}\n</tbody></table>`
+      : '<p class="muted">No console output captured.</p>'
+  }
+</section>
+</main>
+<script>${FILTER_SCRIPT}${PLAYER_SCRIPT}</script>
+</body>
+</html>
+`;
+}
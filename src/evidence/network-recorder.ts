@@ -0,0 +1,587 @@
+/**
+ * Network Recorder Module
+ *
+ * Records every request the page makes into a HAR 1.2 log (network.har in the test directory):
+ * - Method, URL, headers, status, sizes and timings per request
+ * - Failed requests with their error text
+ * - Response bodies of text resources (JSON, JS, HTML, CSS, ...) within configurable size limits
+ *
+ * Works with Playwright pages (events) and Stagehand V3 pages (CDP on the main frame's session).
+ * Requests made inside cross-origin iframes are not recorded.
+ */
+
+import type { HarSettings } from '../shared/types.js';
+
+/**
+ * Body limits used when neither the config file nor the caller sets them
+ */
+export const DEFAULT_HAR_SETTINGS: Required<HarSettings> = {
+  enabled: true,
+  maxBodySize: 64 * 1024,
+  maxTotalBodySize: 5 * 1024 * 1024,
+};
+
+/**
+ * Slowest requests listed in the summary
+ */
+const SLOWEST_COUNT = 5;
+
+/**
+ * Failed requests listed in the summary
+ */
+const FAILED_LIST_LIMIT = 20;
+
+/**
+ * Response bodies of these MIME types are kept (binary assets never are)
+ */
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|javascript|x-javascript|ecmascript|xml|xhtml\+xml|manifest\+json|wasm-text))/i;
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * One HAR entry (HAR 1.2 fields plus _resourceType / _error)
+ */
+export interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    cookies: [];
+    headersSize: -1;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    cookies: [];
+    content: { size: number; mimeType: string; text?: string; encoding?: string; comment?: string };
+    redirectURL: string;
+    headersSize: -1;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+  _resourceType: string;
+  _error?: string;
+}
+
+/**
+ * HAR document
+ */
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: Array<{ id: string; startedDateTime: string; title: string; pageTimings: Record<string, never> }>;
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * Network summary for result metadata
+ */
+export interface NetworkSummary {
+  request_count: number;
+  failed_count: number; // Network failures plus HTTP >= 400
+  total_bytes: number; // Transferred bytes (encoded), as reported by the browser
+  bytes_by_type: Record<string, number>;
+  slowest: Array<{ url: string; resource_type: string; time_ms: number; bytes: number }>;
+  failed: Array<{ url: string; resource_type: string; status: number; error?: string }>;
+  bodies_truncated: number; // Text bodies skipped because of the size limits
+}
+
+/**
+ * Convert a header object to HAR name/value pairs
+ */
+function toHeaders(headers: Record<string, string> | undefined): HarHeader[] {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+/**
+ * Query string of a URL as HAR name/value pairs
+ */
+function toQueryString(url: string): HarHeader[] {
+  try {
+    return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Round to a tenth of a millisecond (-1 stays -1: "not applicable" in HAR)
+ */
+function ms(value: number): number {
+  return value < 0 ? -1 : Math.round(value * 10) / 10;
+}
+
+/**
+ * Phase boundaries of a request, in milliseconds from its start (-1: the phase did not happen)
+ */
+interface TimingOffsets {
+  dnsStart: number;
+  dnsEnd: number;
+  connectStart: number;
+  connectEnd: number;
+  sslStart: number;
+  sslEnd: number;
+  sendStart: number;
+  sendEnd: number;
+  headersEnd: number;
+}
+
+/**
+ * Offsets for responses without a breakdown (cached, failed or synthetic)
+ */
+const NO_TIMING: TimingOffsets = {
+  dnsStart: -1,
+  dnsEnd: -1,
+  connectStart: -1,
+  connectEnd: -1,
+  sslStart: -1,
+  sslEnd: -1,
+  sendStart: -1,
+  sendEnd: -1,
+  headersEnd: -1,
+};
+
+/**
+ * A request that has been sent but not finished
+ */
+interface PendingRequest {
+  entry: HarEntry;
+  startTime: number; // CDP monotonic seconds, or Date.now() for Playwright
+  offsets?: TimingOffsets;
+}
+
+/**
+ * Split a request's duration into HAR timings
+ */
+function toTimings(offsets: TimingOffsets, total: number): HarEntry['timings'] {
+  if (offsets.sendStart < 0 || offsets.headersEnd < 0) {
+    // No breakdown available (cached, failed or synthetic responses)
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: ms(total), receive: 0 };
+  }
+  const firstPhase = [offsets.dnsStart, offsets.connectStart, offsets.sendStart].find((v) => v >= 0) ?? 0;
+  return {
+    blocked: ms(firstPhase),
+    dns: offsets.dnsStart >= 0 ? ms(offsets.dnsEnd - offsets.dnsStart) : -1,
+    connect: offsets.connectStart >= 0 ? ms(offsets.connectEnd - offsets.connectStart) : -1,
+    ssl: offsets.sslStart >= 0 ? ms(offsets.sslEnd - offsets.sslStart) : -1,
+    send: ms(offsets.sendEnd - offsets.sendStart),
+    wait: ms(offsets.headersEnd - offsets.sendEnd),
+    receive: ms(Math.max(0, total - offsets.headersEnd)),
+  };
+}
+
+/**
+ * Records network traffic for one page into HAR entries
+ */
+export class NetworkRecorder {
+  private settings: Required<HarSettings>;
+  private entries: HarEntry[] = [];
+  private pending = new Map<string, PendingRequest>(); // By CDP request id
+  private bodyReads: Promise<void>[] = [];
+  private bodyBytes: number = 0;
+  private bodiesTruncated: number = 0;
+  private attached: boolean = false;
+  private readonly pageStartedDateTime = new Date().toISOString();
+
+  /**
+   * @param settings - Body capture limits
+   */
+  constructor(settings: HarSettings = {}) {
+    this.settings = {
+      enabled: settings.enabled ?? DEFAULT_HAR_SETTINGS.enabled,
+      maxBodySize: settings.maxBodySize ?? DEFAULT_HAR_SETTINGS.maxBodySize,
+      maxTotalBodySize: settings.maxTotalBodySize ?? DEFAULT_HAR_SETTINGS.maxTotalBodySize,
+    };
+  }
+
+  /**
+   * Check whether recording is enabled
+   */
+  isEnabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  /**
+   * Check whether listeners were attached to a page
+   */
+  isAttached(): boolean {
+    return this.attached;
+  }
+
+  /**
+   * Start recording a page's traffic
+   * Call before navigation so the page's own requests are recorded
+   *
+   * @param page - Playwright page or Stagehand V3 page
+   * @returns true if listeners were attached
+   */
+  async attach(page: any): Promise<boolean> {
+    if (!this.settings.enabled || this.attached) {
+      return this.attached;
+    }
+
+    if (typeof page?.on === 'function') {
+      this.attachPlaywright(page);
+    } else if (typeof page?.getSessionForFrame === 'function') {
+      await this.attachCdp(page.getSessionForFrame(page.mainFrameId()));
+    } else {
+      return false;
+    }
+
+    this.attached = true;
+    return true;
+  }
+
+  /**
+   * Check whether a body is worth fetching (text type, not known to exceed the limits)
+   */
+  private wantsBody(mimeType: string, size: number): boolean {
+    if (this.settings.maxBodySize <= 0 || !TEXT_MIME_TYPE.test(mimeType)) {
+      return false;
+    }
+    if (size > this.settings.maxBodySize || this.bodyBytes + size > this.settings.maxTotalBodySize) {
+      this.bodiesTruncated++;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Attach a fetched body if it fits within the limits
+   */
+  private keepBody(entry: HarEntry, text: string, encoding?: string): void {
+    const bytes = Buffer.byteLength(text);
+    if (bytes > this.settings.maxBodySize || this.bodyBytes + bytes > this.settings.maxTotalBodySize) {
+      this.bodiesTruncated++;
+      entry.response.content.comment = `Body not recorded: ${bytes} bytes exceeds the HAR body limits`;
+      return;
+    }
+    this.bodyBytes += bytes;
+    entry.response.content.text = text;
+    if (encoding) {
+      entry.response.content.encoding = encoding;
+    }
+  }
+
+  /**
+   * Create an entry for a request that was just sent
+   */
+  private createEntry(
+    method: string,
+    url: string,
+    headers: Record<string, string> | undefined,
+    resourceType: string,
+    postData?: string
+  ): HarEntry {
+    const contentType = headers?.['Content-Type'] ?? headers?.['content-type'] ?? 'application/octet-stream';
+    return {
+      pageref: 'page_1',
+      startedDateTime: new Date().toISOString(),
+      time: 0,
+      request: {
+        method,
+        url,
+        httpVersion: 'HTTP/1.1',
+        headers: toHeaders(headers),
+        queryString: toQueryString(url),
+        cookies: [],
+        headersSize: -1,
+        bodySize: postData ? Buffer.byteLength(postData) : 0,
+        ...(postData && { postData: { mimeType: contentType, text: postData } }),
+      },
+      response: {
+        status: 0,
+        statusText: '',
+        httpVersion: 'HTTP/1.1',
+        headers: [],
+        cookies: [],
+        content: { size: 0, mimeType: 'x-unknown' },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 },
+      _resourceType: resourceType.toLowerCase(),
+    };
+  }
+
+  /**
+   * Record through Chrome DevTools Protocol events (Stagehand V3 pages)
+   */
+  private async attachCdp(session: any): Promise<void> {
+    session.on('Network.requestWillBeSent', (params: any) => {
+      // A redirect reuses the request id: close the previous hop first
+      const previous = this.pending.get(params.requestId);
+      if (previous && params.redirectResponse) {
+        const offsets = this.applyCdpResponse(previous.entry, params.redirectResponse);
+        previous.entry.response.redirectURL = params.request.url;
+        previous.entry.time = ms((params.timestamp - previous.startTime) * 1000);
+        previous.entry.timings = toTimings(offsets ?? NO_TIMING, previous.entry.time);
+        this.entries.push(previous.entry);
+      }
+
+      const entry = this.createEntry(
+        params.request.method,
+        params.request.url,
+        params.request.headers,
+        params.type ?? 'other',
+        params.request.postData
+      );
+      if (typeof params.wallTime === 'number') {
+        entry.startedDateTime = new Date(params.wallTime * 1000).toISOString();
+      }
+      this.pending.set(params.requestId, { entry, startTime: params.timestamp });
+    });
+
+    session.on('Network.responseReceived', (params: any) => {
+      const request = this.pending.get(params.requestId);
+      if (request) {
+        request.offsets = this.applyCdpResponse(request.entry, params.response);
+      }
+    });
+
+    session.on('Network.loadingFinished', (params: any) => {
+      const request = this.pending.get(params.requestId);
+      if (!request) return;
+      this.pending.delete(params.requestId);
+
+      const { entry } = request;
+      entry.time = ms((params.timestamp - request.startTime) * 1000);
+      entry.response.bodySize = params.encodedDataLength ?? -1;
+      entry.response.content.size ||= Math.max(0, entry.response.bodySize);
+      entry.timings = toTimings(request.offsets ?? NO_TIMING, entry.time);
+      this.entries.push(entry);
+
+      if (this.wantsBody(entry.response.content.mimeType, entry.response.content.size)) {
+        this.bodyReads.push(
+          session
+            .send('Network.getResponseBody', { requestId: params.requestId })
+            .then((body: { body: string; base64Encoded: boolean }) => {
+              this.keepBody(entry, body.body, body.base64Encoded ? 'base64' : undefined);
+            })
+            .catch(() => {
+              // Evicted from the browser's buffer - keep the entry without a body
+            })
+        );
+      }
+    });
+
+    session.on('Network.loadingFailed', (params: any) => {
+      const request = this.pending.get(params.requestId);
+      if (!request) return;
+      this.pending.delete(params.requestId);
+
+      const { entry } = request;
+      entry.time = ms((params.timestamp - request.startTime) * 1000);
+      entry._error = params.corsErrorStatus?.corsError
+        ? `CORS error: ${params.corsErrorStatus.corsError}`
+        : params.blockedReason
+          ? `Blocked: ${params.blockedReason}`
+          : params.canceled
+            ? 'Canceled'
+            : params.errorText;
+      entry.timings = toTimings(NO_TIMING, entry.time);
+      this.entries.push(entry);
+    });
+
+    await session.send('Network.enable');
+  }
+
+  /**
+   * Copy a CDP Network.Response onto an entry
+   *
+   * @returns Timing offsets, when the browser reported them
+   */
+  private applyCdpResponse(entry: HarEntry, response: any): TimingOffsets | undefined {
+    entry.response.status = response.status;
+    entry.response.statusText = response.statusText ?? '';
+    entry.response.httpVersion = response.protocol ? String(response.protocol).toUpperCase() : 'HTTP/1.1';
+    entry.response.headers = toHeaders(response.headers);
+    entry.response.content.mimeType = response.mimeType || 'x-unknown';
+    entry.response.content.size = Number(
+      response.headers?.['content-length'] ?? response.headers?.['Content-Length'] ?? response.encodedDataLength ?? 0
+    );
+    entry.request.httpVersion = entry.response.httpVersion;
+    if (!response.timing) {
+      return undefined;
+    }
+    // Already in milliseconds from the request start (timing.requestTime)
+    const t = response.timing;
+    return {
+      dnsStart: t.dnsStart,
+      dnsEnd: t.dnsEnd,
+      connectStart: t.connectStart,
+      connectEnd: t.connectEnd,
+      sslStart: t.sslStart,
+      sslEnd: t.sslEnd,
+      sendStart: t.sendStart,
+      sendEnd: t.sendEnd,
+      headersEnd: t.receiveHeadersEnd,
+    };
+  }
+
+  /**
+   * Record through Playwright request events
+   */
+  private attachPlaywright(page: any): void {
+    const requests = new Map<any, PendingRequest>();
+
+    page.on('request', (request: any) => {
+      requests.set(request, {
+        entry: this.createEntry(
+          request.method(),
+          request.url(),
+          request.headers(),
+          request.resourceType(),
+          request.postData() ?? undefined
+        ),
+        startTime: Date.now(),
+      });
+    });
+
+    const finish = async (request: any, error?: string) => {
+      const tracked = requests.get(request);
+      if (!tracked) return;
+      requests.delete(request);
+
+      const { entry } = tracked;
+      entry.time = Date.now() - tracked.startTime;
+      if (error !== undefined) {
+        entry._error = error;
+      }
+
+      const response = error === undefined ? await request.response().catch(() => null) : null;
+      if (response) {
+        const headers: Record<string, string> = response.headers();
+        entry.response.status = response.status();
+        entry.response.statusText = response.statusText();
+        entry.response.headers = toHeaders(headers);
+        entry.response.content.mimeType = (headers['content-type'] ?? 'x-unknown').split(';')[0]!.trim();
+        const sizes = await request.sizes().catch(() => null);
+        entry.response.bodySize = sizes?.responseBodySize ?? -1;
+        entry.response.content.size = sizes?.responseBodySize ?? 0;
+
+        const redirect = headers['location'];
+        if (redirect) {
+          entry.response.redirectURL = redirect;
+        }
+      }
+
+      const timing = request.timing();
+      entry.timings = toTimings(
+        {
+          dnsStart: timing.domainLookupStart,
+          dnsEnd: timing.domainLookupEnd,
+          connectStart: timing.connectStart,
+          connectEnd: timing.connectEnd,
+          sslStart: timing.secureConnectionStart,
+          sslEnd: timing.secureConnectionStart >= 0 ? timing.connectEnd : -1,
+          sendStart: timing.requestStart,
+          sendEnd: timing.requestStart,
+          headersEnd: timing.responseStart,
+        },
+        entry.time
+      );
+      this.entries.push(entry);
+
+      if (response && this.wantsBody(entry.response.content.mimeType, entry.response.content.size)) {
+        this.bodyReads.push(
+          response
+            .text()
+            .then((text: string) => {
+              this.keepBody(entry, text);
+            })
+            .catch(() => {
+              // Body no longer available - keep the entry without it
+            })
+        );
+      }
+    };
+
+    page.on('requestfinished', (request: any) => void finish(request));
+    page.on('requestfailed', (request: any) => void finish(request, request.failure()?.errorText ?? 'Request failed'));
+  }
+
+  /**
+   * Build the HAR document
+   * Requests still in flight are included with the time elapsed so far
+   *
+   * @param title - Page title for the HAR page entry
+   * @param creatorVersion - Agent version
+   * @returns HAR log
+   */
+  async toHar(title: string, creatorVersion: string): Promise<HarLog> {
+    await Promise.allSettled(this.bodyReads);
+
+    const inFlight = [...this.pending.values()].map(({ entry }) => ({
+      ...entry,
+      time: ms(Date.now() - Date.parse(entry.startedDateTime)),
+      _error: 'Not finished when the test ended',
+    }));
+    const entries = [...this.entries, ...inFlight].sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'dreamup-qa', version: creatorVersion },
+        pages: [{ id: 'page_1', startedDateTime: this.pageStartedDateTime, title, pageTimings: {} }],
+        entries,
+      },
+    };
+  }
+
+  /**
+   * Summarize the recorded traffic
+   *
+   * @returns Network summary for result metadata
+   */
+  getSummary(): NetworkSummary {
+    const bytesOf = (entry: HarEntry) => Math.max(0, entry.response.bodySize);
+    const failed = this.entries.filter((entry) => entry._error !== undefined || entry.response.status >= 400);
+
+    const bytesByType: Record<string, number> = {};
+    for (const entry of this.entries) {
+      bytesByType[entry._resourceType] = (bytesByType[entry._resourceType] ?? 0) + bytesOf(entry);
+    }
+
+    return {
+      request_count: this.entries.length + this.pending.size,
+      failed_count: failed.length,
+      total_bytes: this.entries.reduce((sum, entry) => sum + bytesOf(entry), 0),
+      bytes_by_type: bytesByType,
+      slowest: [...this.entries]
+        .filter((entry) => entry._error === undefined)
+        .sort((a, b) => b.time - a.time)
+        .slice(0, SLOWEST_COUNT)
+        .map((entry) => ({
+          url: entry.request.url,
+          resource_type: entry._resourceType,
+          time_ms: entry.time,
+          bytes: bytesOf(entry),
+        })),
+      failed: failed.slice(0, FAILED_LIST_LIMIT).map((entry) => ({
+        url: entry.request.url,
+        resource_type: entry._resourceType,
+        status: entry.response.status,
+        ...(entry._error !== undefined && { error: entry._error }),
+      })),
+      bodies_truncated: this.bodiesTruncated,
+    };
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Page Errors Module
+ *
+ * Captures failures the game never logs itself:
+ * - Uncaught exceptions (e.g., thrown from the game loop)
+ * - Unhandled promise rejections
+ * - Requests that fail outright (DNS, CORS, blocked, connection reset)
+ * - Responses with HTTP status >= 400 (missing assets, broken APIs)
+ *
+ * Entries are mapped to Issues with fixed rules, so these problems are reported
+ * even when the AI evaluation is unavailable or misses them.
+ * Works with Playwright pages (events) and Stagehand V3 pages (CDP on the main frame's session).
+ * Errors inside cross-origin iframes are not captured.
+ */
+
+import type { Issue } from '../shared/types.js';
+
+export type PageErrorKind = 'pageerror' | 'unhandledrejection' | 'requestfailed' | 'http_error';
+
+/**
+ * One captured page error or failed request
+ */
+export interface PageErrorEntry {
+  kind: PageErrorKind;
+  message: string;
+  timestamp: number;
+  url?: string; // Failing request URL, or the script an exception was thrown from
+  stack?: string;
+  status?: number; // HTTP status (http_error only)
+  resource_type?: string; // document, script, stylesheet, image, fetch, ... (requests only)
+}
+
+/**
+ * Counts per kind, as reported in result metadata
+ */
+export interface PageErrorSummary {
+  page_errors: number;
+  unhandled_rejections: number;
+  failed_requests: number;
+  http_errors: number;
+}
+
+/**
+ * Same uncaught error this many times means it is thrown every frame (the game loop is dead)
+ */
+const REPEATED_ERROR_THRESHOLD = 5;
+
+/**
+ * Resources the game can't start without; failures of other resources (images, audio, XHR) are minor
+ */
+const ESSENTIAL_RESOURCES = ['document', 'script', 'stylesheet'];
+
+/**
+ * Browsers request this on their own; a missing one says nothing about the game
+ */
+const IGNORED_URL = /\/favicon\.ico(\?|$)/i;
+
+/**
+ * Cancelled requests (navigation, media seeking, aborted fetches) are not failures
+ */
+const IGNORED_FAILURES = /ERR_ABORTED|net::ERR_CACHE_MISS/i;
+
+/**
+ * Format a CDP stack trace like a JavaScript one
+ */
+function formatCdpStack(callFrames: any[] = []): string | undefined {
+  if (callFrames.length === 0) return undefined;
+  return callFrames
+    .map(
+      (frame) =>
+        `    at ${frame.functionName || '<anonymous>'} (${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1})`
+    )
+    .join('\n');
+}
+
+/**
+ * Compare URLs ignoring the hash and a trailing slash ("https://a.io/play" and "https://a.io/play/" are the same page)
+ */
+function sameUrl(a: string | undefined, b: string): boolean {
+  const normalize = (url: string) => {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.origin}${parsed.pathname.replace(/\/$/, '')}${parsed.search}`;
+    } catch {
+      return url;
+    }
+  };
+  return a !== undefined && normalize(a) === normalize(b);
+}
+
+/**
+ * Listen for page errors and failed requests
+ * Call before navigation so errors during page load are captured
+ *
+ * @param page - Playwright page or Stagehand V3 page
+ * @param onEntry - Called for every captured entry
+ * @returns true if listeners were attached
+ */
+export async function attachPageErrorListeners(
+  page: any,
+  onEntry: (entry: PageErrorEntry) => void
+): Promise<boolean> {
+  // Playwright page
+  if (typeof page?.on === 'function') {
+    page.on('pageerror', (error: any) => {
+      onEntry({
+        kind: 'pageerror',
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: Date.now(),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    });
+    page.on('requestfailed', (request: any) => {
+      onEntry({
+        kind: 'requestfailed',
+        message: request.failure()?.errorText ?? 'Request failed',
+        timestamp: Date.now(),
+        url: request.url(),
+        resource_type: request.resourceType(),
+      });
+    });
+    page.on('response', (response: any) => {
+      if (response.status() < 400) return;
+      onEntry({
+        kind: 'http_error',
+        message: `HTTP ${response.status()} ${response.statusText()}`.trim(),
+        timestamp: Date.now(),
+        url: response.url(),
+        status: response.status(),
+        resource_type: response.request().resourceType(),
+      });
+    });
+    return true;
+  }
+
+  // Stagehand V3 page: raw CDP on the main frame's session
+  if (typeof page?.getSessionForFrame !== 'function') {
+    return false;
+  }
+  const session = page.getSessionForFrame(page.mainFrameId());
+  const requests = new Map<string, { url: string; type: string }>();
+
+  session.on('Runtime.exceptionThrown', (params: any) => {
+    const details = params.exceptionDetails ?? {};
+    // Chrome reports rejections as "Uncaught (in promise)"
+    const rejection = /in promise/i.test(details.text ?? '');
+    const description: string = details.exception?.description ?? details.exception?.value ?? details.text ?? 'Unknown error';
+    onEntry({
+      kind: rejection ? 'unhandledrejection' : 'pageerror',
+      message: String(description).split('\n')[0]!,
+      timestamp: Date.now(),
+      url: details.url || details.stackTrace?.callFrames?.[0]?.url || undefined,
+      stack: formatCdpStack(details.stackTrace?.callFrames),
+    });
+  });
+  session.on('Network.requestWillBeSent', (params: any) => {
+    requests.set(params.requestId, { url: params.request?.url, type: String(params.type ?? 'other').toLowerCase() });
+  });
+  session.on('Network.responseReceived', (params: any) => {
+    const status: number = params.response?.status ?? 0;
+    if (status < 400) return;
+    onEntry({
+      kind: 'http_error',
+      message: `HTTP ${status} ${params.response?.statusText ?? ''}`.trim(),
+      timestamp: Date.now(),
+      url: params.response?.url,
+      status,
+      resource_type: String(params.type ?? 'other').toLowerCase(),
+    });
+  });
+  session.on('Network.loadingFailed', (params: any) => {
+    const request = requests.get(params.requestId);
+    if (params.canceled) return;
+    const reason = params.corsErrorStatus?.corsError
+      ? `CORS error: ${params.corsErrorStatus.corsError}`
+      : params.blockedReason
+        ? `Blocked: ${params.blockedReason}`
+        : params.errorText;
+    onEntry({
+      kind: 'requestfailed',
+      message: reason || 'Request failed',
+      timestamp: Date.now(),
+      url: request?.url,
+      resource_type: request?.type ?? String(params.type ?? 'other').toLowerCase(),
+    });
+  });
+
+  await session.send('Runtime.enable');
+  await session.send('Network.enable');
+  return true;
+}
+
+/**
+ * One-line description of an entry for the console log
+ */
+export function formatPageError(entry: PageErrorEntry): string {
+  switch (entry.kind) {
+    case 'pageerror':
+      return `Uncaught exception: ${entry.message}`;
+    case 'unhandledrejection':
+      return `Unhandled promise rejection: ${entry.message}`;
+    case 'requestfailed':
+      return `Request failed (${entry.resource_type ?? 'other'}): ${entry.url} - ${entry.message}`;
+    case 'http_error':
+      return `${entry.message} (${entry.resource_type ?? 'other'}): ${entry.url}`;
+  }
+}
+
+/**
+ * Count entries per kind
+ *
+ * @param entries - Captured entries
+ * @returns Summary for result metadata
+ */
+export function summarizePageErrors(entries: PageErrorEntry[]): PageErrorSummary {
+  const count = (kind: PageErrorKind) => entries.filter((entry) => entry.kind === kind).length;
+  return {
+    page_errors: count('pageerror'),
+    unhandled_rejections: count('unhandledrejection'),
+    failed_requests: count('requestfailed'),
+    http_errors: count('http_error'),
+  };
+}
+
+/**
+ * Map captured entries to issues
+ * - Exceptions and rejections → crash (major; critical when the same error repeats, i.e. the game loop is failing)
+ * - Failed requests and HTTP errors → load_failure (critical for the page itself, major for scripts and
+ *   stylesheets, minor for other assets)
+ * Repeats of the same error or URL are reported once, at their first occurrence.
+ *
+ * @param entries - Captured entries
+ * @param testStartTime - Test start (for detected_at_ms)
+ * @param pageUrl - URL of the game page (its own failure is critical)
+ * @returns Issues, in order of first occurrence
+ */
+export function pageErrorsToIssues(entries: PageErrorEntry[], testStartTime: number, pageUrl?: string): Issue[] {
+  const groups = new Map<string, { first: PageErrorEntry; count: number }>();
+  for (const entry of entries) {
+    if (entry.url && IGNORED_URL.test(entry.url)) continue;
+    if (entry.kind === 'requestfailed' && IGNORED_FAILURES.test(entry.message)) continue;
+
+    const key =
+      entry.kind === 'pageerror' || entry.kind === 'unhandledrejection'
+        ? `${entry.kind}:${entry.message}`
+        : `request:${entry.url}`;
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, { first: entry, count: 1 });
+    }
+  }
+
+  return [...groups.values()].map(({ first, count }): Issue => {
+    const detectedAt = Math.max(0, first.timestamp - testStartTime);
+    const repeats = count > 1 ? ` (${count} times)` : '';
+
+    if (first.kind === 'pageerror' || first.kind === 'unhandledrejection') {
+      return {
+        type: 'crash',
+        severity: count >= REPEATED_ERROR_THRESHOLD ? 'critical' : 'major',
+        description: `${formatPageError(first)}${first.url ? ` at ${first.url}` : ''}${repeats}`,
+        detected_at_ms: detectedAt,
+      };
+    }
+
+    const isPage = first.resource_type === 'document' && (!pageUrl || sameUrl(first.url, pageUrl));
+    return {
+      type: 'load_failure',
+      severity: isPage ? 'critical' : ESSENTIAL_RESOURCES.includes(first.resource_type ?? '') ? 'major' : 'minor',
+      description: `${formatPageError(first)}${repeats}`,
+      detected_at_ms: detectedAt,
+    };
+  });
+}
@@ -0,0 +1,277 @@
+/**
+ * Report Writers Module
+ *
+ * Renders test results for tools other than the viewer:
+ * - JUnit XML for CI dashboards (one testcase per game)
+ * - Markdown summaries for PR comments
+ *
+ * test-output.json (the "json" format) is always written by EvidenceCapture - the viewer reads it.
+ */
+
+import { basename, dirname, join, relative } from 'path';
+import type { Issue, ReportFormat, TestResult } from '../shared/types.js';
+import { ErrorTemplates } from '../shared/error-handler.js';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['json', 'junit', 'md'];
+
+/**
+ * Report file names inside a test directory, per format
+ */
+export const REPORT_FILES: Record<ReportFormat, string> = {
+  json: 'test-output.json',
+  junit: 'junit.xml',
+  md: 'report.md',
+};
+
+export const STATUS_ICONS: Record<TestResult['status'], string> = {
+  pass: '✅',
+  fail: '❌',
+  error: '⚠️',
+};
+
+/**
+ * Parse a comma-separated --report value (e.g., "junit,md")
+ *
+ * @param value - Format list
+ * @returns Formats, deduplicated, in the given order
+ */
+export function parseReportFormats(value: string): ReportFormat[] {
+  const formats = value
+    .split(',')
+    .map((format) => format.trim().toLowerCase())
+    .filter((format) => format !== '');
+
+  for (const format of formats) {
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      throw ErrorTemplates.invalidReportFormat(format, REPORT_FORMATS);
+    }
+  }
+  return [...new Set(formats as ReportFormat[])];
+}
+
+/**
+ * Escape text for XML attributes and content
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0 (ANSI colors from console logs, etc.)
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+export function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Display name for a result (page title, then URL)
+ */
+function resultName(result: TestResult): string {
+  return result.metadata.game_title || result.gameUrl;
+}
+
+/**
+ * Render one result as a JUnit testcase
+ * Failed runs get one <failure> per issue; errored runs get an <error> for the first critical issue.
+ * Passing runs stay green and list their issues in <system-out>.
+ */
+function renderTestCase(result: TestResult, name: string): string {
+  const lines: string[] = [];
+  const time = (result.execution_time_ms / 1000).toFixed(3);
+  lines.push(
+    `    <testcase name="${escapeXml(name)}" classname="${escapeXml(result.gameUrl)}" time="${time}">`
+  );
+  lines.push('      <properties>');
+  lines.push(`        <property name="playability_score" value="${result.playability_score}"/>`);
+  lines.push(`        <property name="confidence" value="${result.confidence}"/>`);
+  if (result.metadata.evidence_dir) {
+    lines.push(`        <property name="evidence_dir" value="${escapeXml(result.metadata.evidence_dir)}"/>`);
+  }
+  lines.push('      </properties>');
+
+  const failureElement = (tag: 'failure' | 'error', issue: Issue) =>
+    `      <${tag} message="${escapeXml(issue.description)}" type="${issue.severity}:${issue.type}">` +
+    `${escapeXml(`[${issue.severity}] ${issue.type} at ${issue.detected_at_ms}ms: ${issue.description}`)}</${tag}>`;
+
+  if (result.status === 'error') {
+    const cause = result.issues.find((issue) => issue.severity === 'critical') ?? result.issues[0];
+    lines.push(
+      cause
+        ? failureElement('error', cause)
+        : `      <error message="${escapeXml(result.metadata.evaluation_reasoning ?? 'Test errored')}" type="error"/>`
+    );
+    for (const issue of result.issues.filter((i) => i !== cause)) {
+      lines.push(failureElement('failure', issue));
+    }
+  } else if (result.status === 'fail') {
+    if (result.issues.length === 0) {
+      lines.push(
+        `      <failure message="Playability score ${result.playability_score}/100" type="score">` +
+          `${escapeXml(result.metadata.evaluation_reasoning ?? '')}</failure>`
+      );
+    }
+    for (const issue of result.issues) {
+      lines.push(failureElement('failure', issue));
+    }
+  }
+
+  const output = [
+    `Status: ${result.status} - playability ${result.playability_score}/100 (confidence ${result.confidence}%)`,
+    ...(result.status === 'pass' ? result.issues.map((i) => `[${i.severity}] ${i.type}: ${i.description}`) : []),
+    ...(result.metadata.evaluation_reasoning ? ['', result.metadata.evaluation_reasoning] : []),
+    ...result.screenshots.map((path) => `[[ATTACHMENT|${path}]]`),
+  ];
+  lines.push(`      <system-out>${escapeXml(output.join('\n'))}</system-out>`);
+  lines.push('    </testcase>');
+  return lines.join('\n');
+}
+
+/**
+ * Render results as a JUnit XML document with one testsuite
+ *
+ * @param results - Results to include (one testcase each)
+ * @param suiteName - Testsuite name
+ * @param names - Optional display names, by index (e.g., batch entry names)
+ * @returns XML document
+ */
+export function renderJUnitReport(
+  results: TestResult[],
+  suiteName: string = 'DreamUp QA',
+  names: Array<string | undefined> = []
+): string {
+  const failures = results.filter((r) => r.status === 'fail').length;
+  const errors = results.filter((r) => r.status === 'error').length;
+  const time = (results.reduce((sum, r) => sum + r.execution_time_ms, 0) / 1000).toFixed(3);
+  const timestamp = results[0]?.timestamp ?? new Date().toISOString();
+  const counts = `tests="${results.length}" failures="${failures}" errors="${errors}" time="${time}"`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(suiteName)}" ${counts}>`,
+    `  <testsuite name="${escapeXml(suiteName)}" ${counts} timestamp="${escapeXml(timestamp)}">`,
+    ...results.map((result, index) => renderTestCase(result, names[index] || resultName(result))),
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render one result as a Markdown summary
+ *
+ * @param result - Test result
+ * @param reportDir - Directory the Markdown file is written to (screenshot links are relative to it)
+ * @returns Markdown document
+ */
+export function renderMarkdownReport(result: TestResult, reportDir?: string): string {
+  const link = (path: string) => (reportDir ? relative(reportDir, path) : path).split('\\').join('/');
+  const lines: string[] = [];
+
+  lines.push(`## ${STATUS_ICONS[result.status]} ${result.status.toUpperCase()} - ${resultName(result)}`);
+  lines.push('');
+  lines.push('| | |');
+  lines.push('|---|---|');
+  lines.push(`| Game | ${escapeCell(result.gameUrl)} |`);
+  lines.push(`| Playability score | **${result.playability_score}/100** |`);
+  lines.push(`| Confidence | ${result.confidence}% |`);
+  lines.push(`| Duration | ${(result.execution_time_ms / 1000).toFixed(1)}s |`);
+  lines.push(`| Actions performed | ${result.metadata.actions_performed} |`);
+  if (result.metadata.objective_metrics) {
+    lines.push(`| Control response rate | ${result.metadata.objective_metrics.control_response_rate.toFixed(1)}% |`);
+  }
+  lines.push(`| Browser errors | ${result.metadata.browser_errors} |`);
+  lines.push(`| Tested at | ${result.timestamp} |`);
+  lines.push('');
+
+  lines.push(`### Issues (${result.issues.length})`);
+  lines.push('');
+  if (result.issues.length === 0) {
+    lines.push('No issues found.');
+  } else {
+    lines.push('| Severity | Type | Description | At |');
+    lines.push('|---|---|---|---|');
+    for (const issue of result.issues) {
+      lines.push(
+        `| ${issue.severity} | ${issue.type} | ${escapeCell(issue.description)} | ${(issue.detected_at_ms / 1000).toFixed(1)}s |`
+      );
+    }
+  }
+  lines.push('');
+
+  if (result.screenshots.length > 0) {
+    lines.push('### Screenshots');
+    lines.push('');
+    for (const path of result.screenshots) {
+      lines.push(`- [${basename(path)}](${encodeURI(link(path))})`);
+    }
+    lines.push('');
+  }
+
+  if (result.metadata.evaluation_reasoning) {
+    lines.push('### Evaluation');
+    lines.push('');
+    lines.push(result.metadata.evaluation_reasoning);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render batch results as a Markdown summary table
+ *
+ * @param results - Per-game results
+ * @param reportDir - Directory the Markdown file is written to (links are relative to it)
+ * @param names - Optional display names, by index
+ * @returns Markdown document
+ */
+export function renderBatchMarkdownReport(
+  results: TestResult[],
+  reportDir: string,
+  names: Array<string | undefined> = []
+): string {
+  const count = (status: TestResult['status']) => results.filter((r) => r.status === status).length;
+  const average =
+    results.length > 0 ? results.reduce((sum, r) => sum + r.playability_score, 0) / results.length : 0;
+
+  const lines: string[] = [];
+  lines.push('## DreamUp QA batch');
+  lines.push('');
+  lines.push(
+    `**${count('pass')}** passed, **${count('fail')}** failed, **${count('error')}** errored of ${results.length} - average score ${average.toFixed(1)}/100`
+  );
+  lines.push('');
+  lines.push('| | Game | Score | Issues | Report |');
+  lines.push('|---|---|---|---|---|');
+  for (const [index, result] of results.entries()) {
+    const evidenceDir = result.metadata.evidence_dir;
+    const report = evidenceDir
+      ? `[${REPORT_FILES.md}](${encodeURI(relative(reportDir, join(evidenceDir, REPORT_FILES.md)).split('\\').join('/'))})`
+      : '-';
+    lines.push(
+      `| ${STATUS_ICONS[result.status]} | ${escapeCell(names[index] || resultName(result))} | ${result.playability_score}/100 | ${result.issues.length} | ${report} |`
+    );
+  }
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Path of a sibling report for a JSON summary file (batch-summary-x.json → batch-summary-x.xml / .md)
+ *
+ * @param jsonPath - Path of the JSON summary
+ * @param format - Report format
+ * @returns Report path
+ */
+export function siblingReportPath(jsonPath: string, format: Exclude<ReportFormat, 'json'>): string {
+  const stem = basename(jsonPath).replace(/\.json$/i, '');
+  return join(dirname(jsonPath), `${stem}.${format === 'junit' ? 'xml' : 'md'}`);
+}
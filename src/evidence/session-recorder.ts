@@ -0,0 +1,217 @@
+/**
+ * Session Recorder Module
+ *
+ * Records the exact input sequence of a run so it can be replayed without an LLM:
+ * - Initial URL, viewport and device profile
+ * - Every action with its offset from the start of interaction
+ * - Stagehand's resolved actions (selector, method, arguments) for each act() call
+ * - Explicit waits (settle delays, idle baselines, modal animations)
+ *
+ * The session is saved as session.json in the evidence directory; `qa-agent replay` reads it.
+ */
+
+import type { Action as StagehandAction } from '@browserbasehq/stagehand';
+import type { Action, BrowserProviderName, DeviceProfileName, LocalGameSource } from '../shared/types.js';
+
+export const SESSION_VERSION = 1;
+
+/**
+ * Browser viewport at the start of the session
+ */
+export interface SessionViewport {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+}
+
+/**
+ * An input sent to the game
+ */
+export interface SessionActionStep {
+  kind: 'action';
+  index: number;
+  offset_ms: number; // Since the session started
+  source: 'action-set' | 'modal-close';
+  action: Pick<
+    Action,
+    'type' | 'target' | 'value' | 'duration' | 'x' | 'y' | 'direction' | 'distance' | 'from' | 'to' | 'steps' | 'deltaX' | 'deltaY' | 'modifiers'
+  >;
+  instruction: string; // Natural language instruction given to act()
+  resolved: StagehandAction[]; // What act() actually did; empty when it failed
+  success: boolean;
+  duration_ms: number;
+}
+
+/**
+ * A pause with no input
+ */
+export interface SessionWaitStep {
+  kind: 'wait';
+  index: number;
+  offset_ms: number;
+  duration_ms: number;
+  reason: string;
+}
+
+export type SessionStep = SessionActionStep | SessionWaitStep;
+
+/**
+ * Replayable interaction session (session.json)
+ */
+export interface InteractionSession {
+  version: number;
+  recordedAt: string;
+  gameUrl: string; // Original URL or local build path as given to the agent
+  initialUrl: string; // URL the browser was on when interaction started
+  localSource?: LocalGameSource;
+  browser?: BrowserProviderName;
+  device?: DeviceProfileName; // Device profile emulated during the run (replay emulates it again)
+  viewport: SessionViewport | null;
+  duration_ms: number;
+  steps: SessionStep[];
+}
+
+/**
+ * Reads the viewport from inside the page (works for every page implementation)
+ */
+const VIEWPORT_SCRIPT = `({
+  width: window.innerWidth,
+  height: window.innerHeight,
+  deviceScaleFactor: window.devicePixelRatio || 1,
+})`;
+
+/**
+ * Collects the steps of one interaction session
+ */
+export class SessionRecorder {
+  private readonly gameUrl: string;
+  private readonly browser?: BrowserProviderName;
+  private readonly device?: DeviceProfileName;
+  private initialUrl: string = '';
+  private localSource: LocalGameSource | undefined;
+  private viewport: SessionViewport | null = null;
+  private steps: SessionStep[] = [];
+  private startTime: number = Date.now();
+
+  /**
+   * @param gameUrl - Game URL or local build path as given to the agent
+   * @param browser - Browser backend used for the run
+   * @param device - Device profile emulated during the run
+   */
+  constructor(gameUrl: string, browser?: BrowserProviderName, device?: DeviceProfileName) {
+    this.gameUrl = gameUrl;
+    this.browser = browser;
+    this.device = device;
+  }
+
+  /**
+   * Start the session clock and capture the starting URL and viewport
+   *
+   * @param page - Playwright page the game is loaded in
+   * @param localSource - Served local build, if any
+   */
+  async start(page: any, localSource?: LocalGameSource): Promise<void> {
+    this.startTime = Date.now();
+    this.steps = [];
+    this.localSource = localSource;
+
+    try {
+      this.initialUrl = typeof page.url === 'function' ? page.url() : this.gameUrl;
+    } catch {
+      this.initialUrl = this.gameUrl;
+    }
+
+    try {
+      this.viewport = await page.evaluate(VIEWPORT_SCRIPT);
+    } catch (error) {
+      console.warn(`⚠ Could not read viewport for session: ${error instanceof Error ? error.message : String(error)}`);
+      this.viewport = null;
+    }
+  }
+
+  /**
+   * Record an input executed through act() (or sent directly, for taps and swipes)
+   *
+   * @param action - Action from the action set (or a synthetic one for modal closing)
+   * @param instruction - Instruction passed to act()
+   * @param result - Outcome, including Stagehand's resolved actions
+   * @param startedAt - Time the action started (epoch ms)
+   * @param source - Why the action was sent
+   */
+  recordAction(
+    action: Action,
+    instruction: string,
+    result: { success: boolean; actions?: StagehandAction[]; duration: number },
+    startedAt: number,
+    source: SessionActionStep['source'] = 'action-set'
+  ): void {
+    this.steps.push({
+      kind: 'action',
+      index: this.steps.length,
+      offset_ms: startedAt - this.startTime,
+      source,
+      action: {
+        type: action.type,
+        ...(action.target && { target: action.target }),
+        ...(action.value && { value: action.value }),
+        ...(action.duration !== undefined && { duration: action.duration }),
+        ...(action.x !== undefined && { x: action.x }),
+        ...(action.y !== undefined && { y: action.y }),
+        ...(action.direction && { direction: action.direction }),
+        ...(action.distance !== undefined && { distance: action.distance }),
+        ...(action.from && { from: action.from }),
+        ...(action.to && { to: action.to }),
+        ...(action.steps !== undefined && { steps: action.steps }),
+        ...(action.deltaX !== undefined && { deltaX: action.deltaX }),
+        ...(action.deltaY !== undefined && { deltaY: action.deltaY }),
+        ...(action.modifiers?.length && { modifiers: action.modifiers }),
+      },
+      instruction,
+      resolved: result.success ? result.actions ?? [] : [],
+      success: result.success,
+      duration_ms: result.duration,
+    });
+  }
+
+  /**
+   * Record a pause with no input
+   *
+   * @param durationMs - Length of the pause
+   * @param reason - What the pause was for (e.g., "settle", "idle baseline")
+   * @param startedAt - Time the pause started (epoch ms, default: now)
+   */
+  recordWait(durationMs: number, reason: string, startedAt: number = Date.now()): void {
+    this.steps.push({
+      kind: 'wait',
+      index: this.steps.length,
+      offset_ms: startedAt - this.startTime,
+      duration_ms: durationMs,
+      reason,
+    });
+  }
+
+  /**
+   * Get the recorded session
+   */
+  getSession(): InteractionSession {
+    return {
+      version: SESSION_VERSION,
+      recordedAt: new Date(this.startTime).toISOString(),
+      gameUrl: this.gameUrl,
+      initialUrl: this.initialUrl || this.gameUrl,
+      ...(this.localSource && { localSource: this.localSource }),
+      ...(this.browser && { browser: this.browser }),
+      ...(this.device && { device: this.device }),
+      viewport: this.viewport,
+      duration_ms: Date.now() - this.startTime,
+      steps: this.steps,
+    };
+  }
+
+  /**
+   * Number of recorded steps
+   */
+  getStepCount(): number {
+    return this.steps.length;
+  }
+}
@@ -3,6 +3,8 @@
  *
  * Builds a prioritized list of actions based on game analysis.
  * Creates variations of actions for retry logic (e.g., arrow keys, wasd, etc.)
+ * On touch devices, taps and swipes are tried before keys.
+ * Mouse gestures (drag, wheel, double-click, hover) are added when the analysis says the game uses them.
  */
 
 import type { Action } from '../shared/types.js';
@@ -12,6 +14,62 @@ import type { GameAnalysis } from './game-analyzer.js';
  * Action set builder for intelligent action generation
  */
 export class ActionSetBuilder {
+  private touchEnabled: boolean = false;
+
+  /**
+   * Include taps and swipes in built action sets
+   *
+   * @param enabled - Whether the emulated device has touch
+   */
+  setTouchEnabled(enabled: boolean): void {
+    this.touchEnabled = enabled;
+  }
+
+  /**
+   * Touch gestures for mobile games: a tap in the middle of the viewport, then swipes in all four directions
+   *
+   * @returns Tap and swipe actions (coordinates resolved against the viewport when executed)
+   */
+  getTouchActions(): Action[] {
+    return [
+      { type: 'tap', timestamp: Date.now() },
+      { type: 'swipe', direction: 'left', timestamp: Date.now() },
+      { type: 'swipe', direction: 'right', timestamp: Date.now() },
+      { type: 'swipe', direction: 'up', timestamp: Date.now() },
+      { type: 'swipe', direction: 'down', timestamp: Date.now() },
+    ];
+  }
+
+  /**
+   * Mouse gestures the analysis reported (e.g., "drag", "scroll", "double-click", "hover")
+   * Plain clicks are left to the start button and act()
+   *
+   * @param analysis - Game analysis from GameAnalyzer
+   * @returns Direct mouse actions (points resolved against the viewport center when executed)
+   */
+  getMouseActions(analysis: GameAnalysis): Action[] {
+    const used = analysis.mouseActions.map((action) => action.toLowerCase());
+    const mentions = (...words: string[]) => used.some((action) => words.some((word) => action.includes(word)));
+    const actions: Action[] = [];
+
+    if (mentions('drag', 'slingshot', 'pull')) {
+      actions.push({ type: 'drag', direction: 'right', timestamp: Date.now() });
+      actions.push({ type: 'drag', direction: 'left', timestamp: Date.now() });
+    }
+    if (mentions('wheel', 'scroll', 'zoom')) {
+      actions.push({ type: 'wheel', deltaY: 100, timestamp: Date.now() });
+      actions.push({ type: 'wheel', deltaY: -100, timestamp: Date.now() });
+    }
+    if (mentions('double', 'dblclick')) {
+      actions.push({ type: 'dblclick', timestamp: Date.now() });
+    }
+    if (mentions('hover', 'move', 'aim')) {
+      actions.push({ type: 'mouseMove', steps: 10, timestamp: Date.now() });
+    }
+
+    return actions;
+  }
+
   /**
    * Build action set from game analysis
    * Prioritizes actions based on what we learned about the game
@@ -36,7 +94,7 @@ export class ActionSetBuilder {
     const actions: Action[] = [];
 
     console.log(`🎯 Building simplified action set for: ${analysis.gameName}`);
-    console.log(`   Using: Arrow keys, WASD, Space, Enter, Backspace, Escape`);
+    console.log(`   Using: Arrow keys (tapped and held), WASD, Space, Enter, Backspace, Escape`);
 
     // Priority 0: Close modals first if present
     if (analysis.hasModal) {
@@ -69,7 +127,13 @@ export class ActionSetBuilder {
       // Otherwise, don't click - the game is likely auto-playable
     }
 
-    // Priority 2: Simplified action set - only core keys
+    // Priority 2: Touch gestures - mobile games may not listen for keys at all
+    if (this.touchEnabled) {
+      console.log(`   → Touch device: tap and swipe before keys`);
+      actions.push(...this.getTouchActions());
+    }
+
+    // Priority 3: Simplified action set - only core keys
     // Space/Enter for start
     actions.push({
       type: 'key',
@@ -88,6 +152,9 @@ export class ActionSetBuilder {
     actions.push({ type: 'key', value: 'ArrowLeft', timestamp: Date.now() });
     actions.push({ type: 'key', value: 'ArrowRight', timestamp: Date.now() });
 
+    // Platformers only move while a key is held
+    actions.push({ type: 'keyHold', value: 'ArrowRight', duration: 1000, timestamp: Date.now() });
+
     // WASD for alternative navigation
     actions.push({ type: 'key', value: 'w', timestamp: Date.now() });
     actions.push({ type: 'key', value: 'a', timestamp: Date.now() });
@@ -98,6 +165,13 @@ export class ActionSetBuilder {
     actions.push({ type: 'key', value: 'Escape', timestamp: Date.now() });
     actions.push({ type: 'key', value: 'Backspace', timestamp: Date.now() });
 
+    // Priority 4: Mouse gestures the game is known to use
+    const mouseActions = this.getMouseActions(analysis);
+    if (mouseActions.length > 0) {
+      console.log(`   → Mouse gestures: ${mouseActions.map((action) => action.type).join(', ')}`);
+      actions.push(...mouseActions);
+    }
+
     // Wait for game to settle
     actions.push({
       type: 'wait',
@@ -12,10 +12,10 @@
  * 2. Vision API analysis (accurate, costs API calls)
  */
 
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
+import { generateObject, type LanguageModel } from 'ai';
 import { z } from 'zod';
 import * as fs from 'fs';
+import { createModelProvider, type ModelProvider } from '../shared/llm-provider.js';
 
 /**
  * Game analysis result schema
@@ -28,7 +28,7 @@ const gameAnalysisSchema = z.object({
     .describe('List of keyboard keys used (e.g., ["ArrowUp", "ArrowDown", "Space"])'),
   mouseActions: z
     .array(z.string())
-    .describe('Mouse actions used (e.g., ["click", "drag"])'),
+    .describe('Mouse actions used (e.g., ["click", "drag", "scroll", "double-click", "hover"])'),
   startInstructions: z.string().describe('How to start the game'),
   startAction: z
     .enum(['button', 'key', 'auto'])
@@ -56,15 +56,12 @@ export type GameAnalysis = z.infer<typeof gameAnalysisSchema>;
  * Game Analyzer for determining game mechanics and controls
  */
 export class GameAnalyzer {
-  private modelName: string = 'gpt-4o';
-  private apiKey: string;
+  private model: LanguageModel;
+  private modelDescription: string;
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.OPENAI_API_KEY || '';
-
-    if (!this.apiKey) {
-      throw new Error('OPENAI_API_KEY not found in environment variables');
-    }
+  constructor(modelProvider: ModelProvider = createModelProvider()) {
+    this.model = modelProvider.getModel('analysis');
+    this.modelDescription = modelProvider.describe('analysis');
   }
 
   /**
@@ -74,7 +71,7 @@ export class GameAnalyzer {
    * @returns Game analysis with controls and mechanics
    */
   async analyzeGameFromScreenshot(screenshotPath: string): Promise<GameAnalysis> {
-    console.log('🎮 Analyzing game from screenshot with vision API...');
+    console.log(`🎮 Analyzing game from screenshot with vision API (${this.modelDescription})...`);
 
     try {
       if (!fs.existsSync(screenshotPath)) {
@@ -108,7 +105,7 @@ IMPORTANT:
   * Do NOT include menu navigation buttons or general UI buttons`;
 
       const response = await generateObject({
-        model: openai(this.modelName),
+        model: this.model,
         schema: gameAnalysisSchema,
         messages: [
           {
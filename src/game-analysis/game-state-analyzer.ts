@@ -8,10 +8,10 @@
  * - Respond to dynamic UI changes
  */
 
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
+import { generateObject, type LanguageModel } from 'ai';
 import { z } from 'zod';
 import * as fs from 'fs';
+import { createModelProvider, type ModelProvider } from '../shared/llm-provider.js';
 
 const gameStateSchema = z.object({
   isBlocked: z
@@ -50,16 +50,11 @@ export type GameState = z.infer<typeof gameStateSchema>;
  * Analyzes current game state from a screenshot
  */
 export class GameStateAnalyzer {
-  private modelName: string = 'gpt-4o';
-  private apiKey: string;
+  private model: LanguageModel;
   private extractedModalContent: string | null = null; // Cache modal content for control analysis
 
-  constructor(apiKey?: string) {
-    this.apiKey = apiKey || process.env.OPENAI_API_KEY || '';
-
-    if (!this.apiKey) {
-      throw new Error('OPENAI_API_KEY not found in environment variables');
-    }
+  constructor(modelProvider: ModelProvider = createModelProvider()) {
+    this.model = modelProvider.getModel('state');
   }
 
   /**
@@ -132,7 +127,7 @@ Be specific:
 Respond with your analysis.`;
 
       const response = await generateObject({
-        model: openai(this.modelName),
+        model: this.model,
         schema: gameStateSchema,
         messages: [
           {
@@ -3,11 +3,16 @@
  *
  * Coordinates the observe → act → wait → observe cycle for autonomous game interaction.
  * Uses Stagehand V3 capabilities to detect interactive elements and execute actions.
+ * Key holds and combos, drags, mouse moves, wheel scrolls and double-clicks bypass act()
+ * and go straight to the page's input APIs, as do key presses, typing, waits and coordinate
+ * clicks; taps and swipes are sent as touch events.
  */
 
 import { Stagehand } from '@browserbasehq/stagehand';
 import type { Action, PageState, ActionResult } from '../shared/types.js';
 import { simpleHash } from '../shared/utils/hash.js';
+import { describeInputAction, executeInputAction, isDirectInputAction, isPrimitiveAction } from './input-actions.js';
+import { executeTouchAction } from './touch-input.js';
 
 /**
  * Orchestrates autonomous interaction with game pages using Stagehand V3
@@ -165,7 +170,50 @@ export class ActionOrchestrator {
 
       let success = false;
 
-      switch (action.type) {
+      // Inputs act() can't express (and modifier clicks) are sent directly, and so are primitive
+      // inputs (keys, typing, waits, coordinate clicks): act() would spend an LLM call on each.
+      // Key presses and typing focus the game element first
+      switch (isDirectInputAction(action) || isPrimitiveAction(action) ? 'direct' : action.type) {
+        case 'direct': {
+          try {
+            const pages = (this.stagehand as any).context?.pages?.();
+            if (!pages || pages.length === 0) {
+              throw new Error('No pages available in browser context');
+            }
+            const executed = await executeInputAction(pages[0], action);
+            Object.assign(action, executed); // Keep the resolved points in the history
+            success = true;
+            console.log(`✓ ${describeInputAction(executed)} executed`);
+          } catch (inputError) {
+            console.warn(`⚠ ${action.type} action error: ${inputError instanceof Error ? inputError.message : String(inputError)}`);
+            success = false;
+          }
+          break;
+        }
+
+        case 'tap':
+        case 'swipe': {
+          try {
+            if (action.type === 'tap' && action.target) {
+              // Labeled taps go through act(); the device profile delivers its click as a touch
+              const result = await this.stagehand.act(action.value || `Tap on element: ${action.target}`);
+              success = result?.success ?? true;
+            } else {
+              const pages = (this.stagehand as any).context?.pages?.();
+              if (!pages || pages.length === 0) {
+                throw new Error('No pages available in browser context');
+              }
+              Object.assign(action, await executeTouchAction(pages[0], action)); // Keep the resolved points
+              success = true;
+            }
+            console.log(`✓ ${action.type === 'tap' ? 'Tap' : 'Swipe'} executed`);
+          } catch (touchError) {
+            console.warn(`⚠ ${action.type} action error: ${touchError instanceof Error ? touchError.message : String(touchError)}`);
+            success = false;
+          }
+          break;
+        }
+
         case 'click': {
           try {
             // Check if this is a canvas coordinate-based click (target format: "canvas:x,y")
@@ -195,46 +243,10 @@ export class ActionOrchestrator {
           break;
         }
 
-        case 'type': {
-          if (!action.value) {
-            throw new Error('Type action requires a value');
-          }
-
-          try {
-            // Use Stagehand V3's act() with simple string instruction
-            const result = await this.stagehand.act(`Type the text: "${action.value}"`);
-            success = result?.success ?? true;
-            console.log(`✓ Type executed`);
-          } catch (actError) {
-            console.warn(`⚠ Type action error: ${actError instanceof Error ? actError.message : String(actError)}`);
-            success = false;
-          }
-          break;
-        }
-
+        case 'type':
         case 'key': {
-          if (!action.value) {
-            throw new Error('Key action requires a value');
-          }
-
-          try {
-            // Use Stagehand V3's act() with simple string instruction
-            const result = await this.stagehand.act(`Press the ${action.value} key`);
-            success = result?.success ?? true;
-            console.log(`✓ Key press executed`);
-          } catch (actError) {
-            console.warn(`⚠ Key action error: ${actError instanceof Error ? actError.message : String(actError)}`);
-            success = false;
-          }
-          break;
-        }
-
-        case 'wait': {
-          const duration = action.duration || 1000;
-          console.log(`⏳ Waiting ${duration}ms for page to settle...`);
-          await new Promise((resolve) => setTimeout(resolve, duration));
-          success = true;
-          break;
+          // Primitive once they have a value
+          throw new Error(`${action.type === 'key' ? 'Key' : 'Type'} action requires a value`);
         }
 
         default: {
@@ -3,20 +3,63 @@
  *
  * Enhanced interaction with games using:
  * - Game analysis (determine controls from HTML/vision)
- * - Smart action sets (keyboard, mouse, waits)
+ * - Smart action sets (keyboard, mouse, waits; taps and swipes on touch devices)
+ * - Direct input for what act() can't express (key holds and combos, drags, wheel, double-clicks)
+ *   and, by default, for primitive inputs (keys, typing, coordinate clicks, waits) - act() is
+ *   kept for semantic targets like "Click Play"; latency is tracked per path
  * - Retry logic with action variations
  * - State change detection (know when actions work)
  */
 
+import * as fs from 'fs';
 import type { Stagehand } from '@browserbasehq/stagehand';
-import type { Action, ActionResult } from '../shared/types.js';
+import type { Action, ActionResult, InputMode } from '../shared/types.js';
 import { GameAnalyzer } from '../game-analysis/game-analyzer.js';
 import { GameStateAnalyzer } from '../game-analysis/game-state-analyzer.js';
 import { ActionSetBuilder } from '../game-analysis/action-set-builder.js';
-import { StateChangeDetector } from '../detection/state-change-detector.js';
-import { ObserveStateDetector } from '../detection/observe-state-detector.js';
-import { StagehandActInteractor } from './stagehand-act-interactor.js';
+import { StateChangeDetector, type StateChangeResult } from '../detection/state-change-detector.js';
+import { DomMutationDetector, type ObservationWindow } from '../detection/dom-mutation-detector.js';
+import { StagehandActInteractor, type ActResult } from './stagehand-act-interactor.js';
+import { executeTouchAction } from './touch-input.js';
+import { focusGameElement, isDirectInputAction, isPrimitiveAction } from './input-actions.js';
 import { EvidenceCapture } from '../evidence/evidence-capture.js';
+import type { SessionRecorder } from '../evidence/session-recorder.js';
+import { createModelProvider, type ModelProvider } from '../shared/llm-provider.js';
+import type { TimeoutOverrides } from '../utils/timeout-utils.js';
+
+/**
+ * How long to wait after an action for changes to settle
+ * The idle baseline waits as long with no input. The input window also spans the action itself
+ * (act() can take seconds), so idle change is scaled up to the measured input window length
+ */
+const SETTLE_DELAY_MS = 800;
+
+/**
+ * Change measured for one action: background (idle) change vs change across the input
+ */
+export interface ChangeProbe {
+  action: string;
+  idle_diff_ratio: number | null; // null when no idle baseline was captured
+  input_diff_ratio: number | null;
+  input_window_ms: number | null; // From the idle baseline's last frame to the after-action frame
+  dom_elements_changed: number | null; // From the DOM mutation window (null when unavailable)
+  credited: boolean; // Whether the action counted as a state change
+}
+
+/**
+ * How an action reached the page: input APIs, act(), or touch gestures
+ */
+export type InputPath = 'direct' | 'act' | 'touch';
+
+/**
+ * Execution time of the actions sent through one input path
+ */
+export interface InputLatency {
+  actions: number;
+  avg_ms: number;
+  max_ms: number;
+  total_ms: number;
+}
 
 /**
  * Improved game interactor with intelligent action selection and retry logic
@@ -28,7 +71,7 @@ export class ImprovedGameInteractor {
   private gameStateAnalyzer: GameStateAnalyzer;
   private actionSetBuilder: ActionSetBuilder;
   private stateDetector: StateChangeDetector;
-  private observeDetector: ObserveStateDetector;
+  private domDetector: DomMutationDetector;
   private actInteractor: StagehandActInteractor | null = null; // NEW: Use stagehand.act() for actions
   private actionHistory: Action[] = [];
   private currentActionSet: Action[] = [];
@@ -40,16 +83,22 @@ export class ImprovedGameInteractor {
   private analyzeBeforeAction: boolean = true; // Whether to analyze state before each action
   private gameReanalyzed: boolean = false; // Track if we've already re-analyzed the game
   private successfulActions: number = 0; // Track actions that caused state changes
-  private maxSuccessfulActions: number = 2; // Stop after 2 successful actions
-  private useObserveDetection: boolean = true; // Use observe-based detection instead of screenshots
-  private useStagehandAct: boolean = true; // NEW: Use stagehand.act() instead of direct keyboard/click
-
-  constructor(analyzeBeforeAction: boolean = true) {
-    this.gameAnalyzer = new GameAnalyzer();
-    this.gameStateAnalyzer = new GameStateAnalyzer();
+  private maxSuccessfulActions: number = 2; // Stop after this many successful actions (configurable)
+  private useDomDetection: boolean = true; // Count DOM mutations / canvas changes when pixel diffing finds no change
+  private useIdleBaseline: boolean = true; // Measure idle change before each action to discount animation
+  private changeProbes: ChangeProbe[] = [];
+  private sessionRecorder: SessionRecorder | null = null; // Records inputs and waits for replay
+  private timeouts: TimeoutOverrides = {};
+  private touchEnabled: boolean = false; // Device has touch - taps and swipes join the action set
+  private useStagehandAct: boolean = false; // Send primitive inputs (keys, typing, coordinate clicks, waits) through act() too
+  private inputLatencies: Record<InputPath, number[]> = { direct: [], act: [], touch: [] };
+
+  constructor(analyzeBeforeAction: boolean = true, modelProvider: ModelProvider = createModelProvider()) {
+    this.gameAnalyzer = new GameAnalyzer(modelProvider);
+    this.gameStateAnalyzer = new GameStateAnalyzer(modelProvider);
     this.actionSetBuilder = new ActionSetBuilder();
     this.stateDetector = new StateChangeDetector();
-    this.observeDetector = new ObserveStateDetector();
+    this.domDetector = new DomMutationDetector();
     this.analyzeBeforeAction = analyzeBeforeAction;
     this.successfulActions = 0;
   }
@@ -62,6 +111,64 @@ export class ImprovedGameInteractor {
     this.captureIntermediateScreenshots = captureIntermediates;
   }
 
+  /**
+   * Enable or disable the idle baseline captured before each action
+   * @param enabled - Whether to subtract background animation from input response
+   */
+  setIdleBaseline(enabled: boolean): void {
+    this.useIdleBaseline = enabled;
+  }
+
+  /**
+   * Set the minimum fraction of changed pixels that counts as a state change
+   * @param threshold - Diff ratio 0-1 (default: 0.0005)
+   */
+  setDiffThreshold(threshold: number): void {
+    this.stateDetector.setThreshold(threshold);
+  }
+
+  /**
+   * Set how many state-changing actions end the interaction
+   * @param count - Successful actions goal (default: 2)
+   */
+  setMaxSuccessfulActions(count: number): void {
+    this.maxSuccessfulActions = count;
+  }
+
+  /**
+   * Override Stagehand observe()/act() timeouts for this run
+   * @param timeouts - Per-operation timeouts
+   */
+  setTimeouts(timeouts: TimeoutOverrides): void {
+    this.timeouts = timeouts;
+    this.actInteractor?.setTimeouts(timeouts);
+  }
+
+  /**
+   * Add taps and swipes to the action set (for touch device profiles)
+   * @param enabled - Whether the emulated device has touch
+   */
+  setTouchEnabled(enabled: boolean): void {
+    this.touchEnabled = enabled;
+    this.actionSetBuilder.setTouchEnabled(enabled);
+  }
+
+  /**
+   * Choose how primitive inputs are sent
+   * @param mode - 'direct' (default): input APIs, no LLM call; 'act': through act() like semantic targets
+   */
+  setInputMode(mode: InputMode): void {
+    this.useStagehandAct = mode === 'act';
+  }
+
+  /**
+   * Record every input and wait into a replayable session
+   * @param recorder - Started session recorder
+   */
+  setSessionRecorder(recorder: SessionRecorder): void {
+    this.sessionRecorder = recorder;
+  }
+
   /**
    * Set the Stagehand instance AND the actual Playwright page
    * @param stagehand - Stagehand instance (for legacy compatibility)
@@ -72,10 +179,11 @@ export class ImprovedGameInteractor {
     if (playwrightPage) {
       this.playwrightPage = playwrightPage;
     }
-    // Initialize the observe detector with Stagehand for reliable state detection
-    this.observeDetector.setStagehand(stagehand);
+    // DOM mutation detection runs inside the actual page
+    this.domDetector.setPage(this.playwrightPage ?? (stagehand as any).context?.pages?.()[0]);
     // Initialize the stagehand.act() interactor
     this.actInteractor = new StagehandActInteractor(stagehand);
+    this.actInteractor.setTimeouts(this.timeouts);
   }
 
   /**
@@ -117,6 +225,14 @@ export class ImprovedGameInteractor {
       this.currentActionSet = this.getDefaultActionSet();
     }
 
+    // Direct key presses go to whatever has focus - give it to the game before any input is measured
+    if (!this.useStagehandAct) {
+      const focused = await focusGameElement(page);
+      if (focused) {
+        console.log(`🎯 Keyboard focus: ${focused.label}`);
+      }
+    }
+
     this.screenshotPaths = [screenshotPath];
     this.intermediateScreenshotCount = 0; // Reset intermediate counter
     this.gameReanalyzed = false; // Reset re-analysis flag
@@ -148,7 +264,7 @@ export class ImprovedGameInteractor {
 
   /**
    * Execute next action from the action set with retry logic
-   * Uses stagehand.act() instead of direct keyboard/click for better compatibility
+   * Primitive inputs go straight to the page; clicks on described elements use stagehand.act()
    *
    * @returns Action result
    */
@@ -168,9 +284,26 @@ export class ImprovedGameInteractor {
     console.log(`🎯 Executing action ${this.currentActionIndex}/${this.currentActionSet.length}: ${action.type}`);
 
     try {
-      // Use stagehand.act() to execute the action
+      // Gestures, holds, combos and drags always go straight to the page (act() can only click,
+      // type and press); so do primitive inputs unless act() was asked for. act() (observe + LLM)
+      // is for semantic targets
       const instruction = this.actInteractor.actionToInstruction(action);
-      const result = await this.actInteractor.executeActionWithAct(instruction, action.type);
+      const startedAt = Date.now();
+      let executed: Action = action;
+      let result: ActResult;
+      let path: InputPath;
+      if (action.type === 'swipe' || (action.type === 'tap' && !action.target)) {
+        path = 'touch';
+        ({ action: executed, result } = await this.executeTouchAction(action));
+      } else if (isDirectInputAction(action) || (!this.useStagehandAct && isPrimitiveAction(action))) {
+        path = 'direct';
+        ({ action: executed, result } = await this.actInteractor.executeDirectAction(action, this.playwrightPage));
+      } else {
+        path = 'act';
+        result = await this.actInteractor.executeActionWithAct(instruction, action.type);
+      }
+      this.inputLatencies[path].push(result.duration);
+      this.sessionRecorder?.recordAction(executed, instruction, result, startedAt);
 
       // Track in history
       this.actionHistory.push(action);
@@ -202,6 +335,30 @@ export class ImprovedGameInteractor {
     }
   }
 
+  /**
+   * Tap or swipe directly on the page
+   * Points default to the viewport center; the resolved coordinates are returned so the
+   * recorded session replays the exact gesture
+   *
+   * @param action - tap or swipe action
+   * @returns Action with resolved coordinates, and the outcome
+   */
+  private async executeTouchAction(action: Action): Promise<{ action: Action; result: ActResult }> {
+    const startTime = Date.now();
+    const page = this.playwrightPage ?? (this.stagehand as any)?.context?.pages?.()[0];
+
+    try {
+      const executed = await executeTouchAction(page, action);
+      const message =
+        executed.type === 'swipe' ? `Swiped ${executed.direction}` : `Tapped (${executed.x}, ${executed.y})`;
+      return { action: executed, result: { success: true, message, duration: Date.now() - startTime } };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠ Touch input failed: ${errorMsg}`);
+      return { action, result: { success: false, message: `Error: ${errorMsg}`, duration: Date.now() - startTime } };
+    }
+  }
+
   /**
    * Execute interaction cycle with state change detection
    * Only captures screenshot if state changed and within intermediate limit
@@ -214,6 +371,16 @@ export class ImprovedGameInteractor {
     evidence: EvidenceCapture,
     beforeScreenshot: string
   ): Promise<boolean> {
+    // Open a DOM mutation window; with an idle baseline the first window measures idle activity
+    const observing = this.useDomDetection && (await this.domDetector.start());
+
+    // Idle baseline: same wait with no input, to measure background animation
+    const idleBaseline = this.useIdleBaseline ? await this.captureIdleBaseline() : null;
+    let idleWindow: ObservationWindow | null = null;
+    if (observing && idleBaseline) {
+      idleWindow = await this.domDetector.collect();
+    }
+
     // Execute action
     const result = await this.executeNextAction();
 
@@ -222,7 +389,22 @@ export class ImprovedGameInteractor {
     }
 
     // Small wait for changes to settle
-    await new Promise((resolve) => setTimeout(resolve, 800));
+    this.sessionRecorder?.recordWait(SETTLE_DELAY_MS, 'settle');
+    await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY_MS));
+
+    // Close the input window before any analysis touches the page
+    const inputWindow = observing ? await this.domDetector.collect() : null;
+
+    // Capture after screenshot for comparison - before re-analysis, so LLM calls don't stretch the window
+    const pagesForScreenshot = (this.stagehand as any).context?.pages?.();
+    if (!pagesForScreenshot || pagesForScreenshot.length === 0) {
+      return false;
+    }
+
+    const afterScreenshotPath = await evidence.captureScreenshot(pagesForScreenshot[0], 'After action');
+    const inputWindowMs = idleBaseline ? Date.now() - idleBaseline.endedAt : null;
+    // How much longer the input window ran than the idle one (action time + settle vs settle)
+    const windowScale = idleBaseline && inputWindowMs ? Math.max(1, inputWindowMs / idleBaseline.durationMs) : 1;
 
     // After modal has been closed and game is truly ready, re-analyze
     // This helps detect actual gameplay controls that weren't visible on splash screen
@@ -264,14 +446,6 @@ export class ImprovedGameInteractor {
       }
     }
 
-    // Capture after screenshot for comparison
-    const pagesForScreenshot = (this.stagehand as any).context?.pages?.();
-    if (!pagesForScreenshot || pagesForScreenshot.length === 0) {
-      return false;
-    }
-
-    const afterScreenshotPath = await evidence.captureScreenshot(pagesForScreenshot[0], 'After action');
-
     // Check if a modal appeared - if so, close it and consider that a state change
     const modalDetected = await pagesForScreenshot[0].evaluate(() => {
       const modal = document.querySelector('[role="dialog"], [aria-modal="true"], .modal, .popup');
@@ -289,14 +463,23 @@ export class ImprovedGameInteractor {
       // Use StagehandActInteractor to close the modal
       if (this.actInteractor) {
         console.log(`🖱️  Clicking: Close modal`);
-        const closeResult = await this.actInteractor.executeActionWithAct(
-          'Close any modal dialogs, overlays, or popup windows by clicking the close button or pressing Escape',
+        const closeInstruction =
+          'Close any modal dialogs, overlays, or popup windows by clicking the close button or pressing Escape';
+        const closeStartedAt = Date.now();
+        const closeResult = await this.actInteractor.executeActionWithAct(closeInstruction, 'modal-close');
+        this.inputLatencies.act.push(closeResult.duration);
+        this.sessionRecorder?.recordAction(
+          { type: 'click', value: closeInstruction },
+          closeInstruction,
+          closeResult,
+          closeStartedAt,
           'modal-close'
         );
 
         if (closeResult.success) {
           console.log(`✓ Modal closed successfully`);
           // Small wait for modal animation
+          this.sessionRecorder?.recordWait(500, 'modal animation');
           await new Promise((resolve) => setTimeout(resolve, 500));
           // Recapture screenshot after closing modal
           const afterModalScreenshot = await evidence.captureScreenshot(pagesForScreenshot[0], 'After closing modal');
@@ -306,18 +489,54 @@ export class ImprovedGameInteractor {
       }
     }
 
-    // Detect state change using observe-based detection (more reliable than screenshots)
-    let stateChange;
-
-    if (this.useObserveDetection) {
-      // Use Stagehand observe() for more reliable detection
-      const actionDescription = `Action #${this.currentActionIndex}`;
-      stateChange = await this.observeDetector.observeActionEffect(actionDescription, 2000);
+    // Detect state change with pixel-level screenshot diffing
+    // With an idle baseline, diff from the frame right before the input and discount idle change
+    // (scaled to the input window length)
+    let pixelDiff: StateChangeResult;
+    if (idleBaseline) {
+      const inputDiff = this.stateDetector.compareBuffers(
+        idleBaseline.endFrame,
+        fs.readFileSync(afterScreenshotPath),
+        afterScreenshotPath
+      );
+      pixelDiff = this.stateDetector.compareWithIdleBaseline(idleBaseline.result, inputDiff, windowScale);
     } else {
-      // Fallback to screenshot comparison
-      stateChange = this.stateDetector.compareScreenshots(beforeScreenshot, afterScreenshotPath);
+      pixelDiff = this.stateDetector.compareScreenshots(beforeScreenshot, afterScreenshotPath);
+    }
+    if (pixelDiff.boundingBoxes && pixelDiff.boundingBoxes.length > 0) {
+      const regions = pixelDiff.boundingBoxes
+        .slice(0, 3)
+        .map((box) => `${box.width}x${box.height}@${box.x},${box.y}`)
+        .join(', ');
+      console.log(`🔍 Pixel diff: ${((pixelDiff.diffRatio ?? 0) * 100).toFixed(2)}% changed, regions: ${regions}`);
+    }
+    if (pixelDiff.diffMaskPath) {
+      console.log(`  Diff mask: ${pixelDiff.diffMaskPath}`);
     }
 
+    const domChange = observing ? this.domDetector.evaluate(inputWindow, idleWindow, windowScale) : null;
+    if (domChange) {
+      console.log(`🧬 DOM: ${domChange.description}`);
+    }
+
+    // DOM/canvas changes count when the pixels didn't move enough (e.g. small text updates)
+    let stateChange: { changed: boolean; confidence: number; description: string } = pixelDiff;
+    if (!stateChange.changed && domChange?.changed) {
+      stateChange = domChange;
+    }
+
+    const lastAction = this.actionHistory[this.actionHistory.length - 1];
+    this.changeProbes.push({
+      action: lastAction
+        ? `${lastAction.type}:${lastAction.value || lastAction.target || lastAction.direction || ''}`
+        : 'unknown',
+      idle_diff_ratio: idleBaseline?.result.diffRatio ?? null,
+      input_diff_ratio: pixelDiff.diffRatio ?? null,
+      input_window_ms: inputWindowMs,
+      dom_elements_changed: domChange?.observationDetails?.elementsChanged ?? null,
+      credited: stateChange.changed,
+    });
+
     if (stateChange.changed) {
       console.log(
         `✓ State changed detected (confidence: ${stateChange.confidence}%): ${stateChange.description}`
@@ -349,6 +568,66 @@ export class ImprovedGameInteractor {
     return stateChange.changed;
   }
 
+  /**
+   * Capture two frames SETTLE_DELAY_MS apart without any input
+   * The diff between them is the change the game makes on its own (animations, particles)
+   *
+   * @returns Idle diff, the last idle frame (the "before" frame for the upcoming input), when it was taken
+   *   and the measured window length, or null if capture failed
+   */
+  private async captureIdleBaseline(): Promise<{
+    result: StateChangeResult;
+    endFrame: Buffer;
+    endedAt: number;
+    durationMs: number;
+  } | null> {
+    const page = this.playwrightPage ?? (this.stagehand as any)?.context?.pages?.()[0];
+    if (!page || typeof page.screenshot !== 'function') {
+      return null;
+    }
+
+    try {
+      const startFrame: Buffer = await page.screenshot();
+      const startedAt = Date.now();
+      this.sessionRecorder?.recordWait(SETTLE_DELAY_MS, 'idle baseline');
+      await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY_MS));
+      const endFrame: Buffer = await page.screenshot();
+      const endedAt = Date.now();
+      const result = this.stateDetector.compareBuffers(startFrame, endFrame);
+
+      console.log(`⏸  Idle baseline: ${((result.diffRatio ?? 0) * 100).toFixed(3)}% changed without input`);
+      return { result, endFrame, endedAt, durationMs: endedAt - startedAt };
+    } catch (error) {
+      console.warn(`⚠ Idle baseline capture failed: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Get idle vs input change measurements for each detected action
+   */
+  getChangeProbes(): ChangeProbe[] {
+    return this.changeProbes;
+  }
+
+  /**
+   * Get execution time per input path (paths no action used are left out)
+   */
+  getInputLatency(): Partial<Record<InputPath, InputLatency>> {
+    const latency: Partial<Record<InputPath, InputLatency>> = {};
+    for (const [path, durations] of Object.entries(this.inputLatencies) as [InputPath, number[]][]) {
+      if (durations.length === 0) continue;
+      const total = durations.reduce((sum, duration) => sum + duration, 0);
+      latency[path] = {
+        actions: durations.length,
+        avg_ms: Math.round(total / durations.length),
+        max_ms: Math.max(...durations),
+        total_ms: total,
+      };
+    }
+    return latency;
+  }
+
   /**
    * Get action history
    */
@@ -386,6 +665,8 @@ export class ImprovedGameInteractor {
     this.failedActions.clear();
     this.screenshotPaths = [];
     this.successfulActions = 0;
+    this.changeProbes = [];
+    this.inputLatencies = { direct: [], act: [], touch: [] };
   }
 
   /**
@@ -396,6 +677,9 @@ export class ImprovedGameInteractor {
       // Click first to focus the game (important for web-based games like Wordle)
       { type: 'click', timestamp: Date.now() },
 
+      // Taps and swipes on touch devices (mobile games may not listen for keys at all)
+      ...(this.touchEnabled ? this.actionSetBuilder.getTouchActions() : []),
+
       // Start/submit keys
       { type: 'key', value: 'Space', timestamp: Date.now() },
       { type: 'key', value: 'Enter', timestamp: Date.now() },
@@ -0,0 +1,327 @@
+/**
+ * Input Actions Module
+ *
+ * Executes inputs straight through the page's input APIs (key-input.ts, mouse-input.ts),
+ * without an LLM call:
+ * - Actions act() can't express: key holds and combos, drags, mouse moves, wheel scrolls,
+ *   double-clicks and modifier clicks (Shift+click)
+ * - Primitive actions that need no understanding of the page: key presses, typing, clicks at
+ *   coordinates (or the center) and waits. act() is left for semantic targets ("Click Play")
+ *
+ * Keyboard input goes to the game element: the largest canvas (else iframe) is focused first,
+ * unless the page already focused something itself.
+ * Shared by the action executors and session replay.
+ */
+
+import type { Action, InputPoint } from '../shared/types.js';
+import { holdKey, pressKey, pressKeyCombo, typeText } from './key-input.js';
+import { clickMouse, dragMouse, moveMouse, scrollWheel } from './mouse-input.js';
+import { getViewportSize, swipeEnd } from './touch-input.js';
+
+/**
+ * Action types that are always executed directly
+ */
+export const DIRECT_INPUT_TYPES: readonly Action['type'][] = ['keyHold', 'keyCombo', 'drag', 'mouseMove', 'wheel', 'dblclick'];
+
+const DEFAULT_HOLD_MS = 1000;
+const DEFAULT_DRAG_STEPS = 10;
+const DEFAULT_WHEEL_DELTA = 100;
+const DEFAULT_WAIT_MS = 1000;
+
+/**
+ * Action types that send keyboard input (the game element is focused first)
+ */
+const KEYBOARD_TYPES: readonly Action['type'][] = ['key', 'type', 'keyHold', 'keyCombo'];
+
+/**
+ * What keyboard input was sent to, as reported by focusGameElement()
+ */
+export interface FocusedElement {
+  kind: 'canvas' | 'iframe' | 'element';
+  label: string; // e.g. "canvas#game 800x600", "input"
+}
+
+/**
+ * Center of the first element matching a CSS selector, or null
+ */
+const ELEMENT_CENTER_SCRIPT = (selector: string) => `(() => {
+  let el = null;
+  try { el = document.querySelector(${JSON.stringify(selector)}); } catch (e) { return null; }
+  if (!el) return null;
+  const rect = el.getBoundingClientRect();
+  return { x: Math.round(rect.left + rect.width / 2), y: Math.round(rect.top + rect.height / 2) };
+})()`;
+
+/**
+ * Focuses the largest visible canvas (else iframe) unless the page already focused an element
+ * A canvas only takes focus with a tabindex; -1 keeps it out of the tab order
+ */
+const FOCUS_GAME_SCRIPT = `(() => {
+  const label = (el) => {
+    const name = el.tagName.toLowerCase() + (el.id ? '#' + el.id : '');
+    const rect = el.getBoundingClientRect();
+    return el.tagName === 'CANVAS' || el.tagName === 'IFRAME' ? name + ' ' + Math.round(rect.width) + 'x' + Math.round(rect.height) : name;
+  };
+  const kindOf = (el) => (el.tagName === 'CANVAS' ? 'canvas' : el.tagName === 'IFRAME' ? 'iframe' : 'element');
+
+  const active = document.activeElement;
+  if (active && active !== document.body && active !== document.documentElement) {
+    return { kind: kindOf(active), label: label(active) };
+  }
+
+  const largest = (selector) => {
+    let best = null;
+    let bestArea = 0;
+    for (const el of document.querySelectorAll(selector)) {
+      const rect = el.getBoundingClientRect();
+      const style = getComputedStyle(el);
+      const area = rect.width * rect.height;
+      if (area > bestArea && style.visibility !== 'hidden' && style.display !== 'none') {
+        best = el;
+        bestArea = area;
+      }
+    }
+    return best;
+  };
+  const target = largest('canvas') || largest('iframe');
+  if (!target) return null;
+  if (target.tagName === 'CANVAS' && !target.hasAttribute('tabindex')) {
+    target.setAttribute('tabindex', '-1');
+  }
+  target.focus({ preventScroll: true });
+  return document.activeElement === target ? { kind: kindOf(target), label: label(target) } : null;
+})()`;
+
+/**
+ * Give the game element keyboard focus
+ * Call once before measuring input response: the first call may add a tabindex to the canvas
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @returns What has focus, or null when keys go to the document
+ */
+export async function focusGameElement(page: any): Promise<FocusedElement | null> {
+  try {
+    return await page.evaluate(FOCUS_GAME_SCRIPT);
+  } catch {
+    return null; // Keys still reach document listeners
+  }
+}
+
+/**
+ * Whether an action needs no understanding of the page and can skip act():
+ * key presses, typing, waits, and clicks at coordinates, a canvas point or the center
+ * Clicks on a described element ("Click Play", a selector) still need act()
+ *
+ * @param action - Action to check
+ * @returns true if executeInputAction() can execute it
+ */
+export function isPrimitiveAction(action: Action): boolean {
+  switch (action.type) {
+    case 'key':
+    case 'type':
+      return !!action.value;
+    case 'wait':
+      return true;
+    case 'click':
+      return (
+        (action.x !== undefined && action.y !== undefined) ||
+        parseCanvasTarget(action.target) !== null ||
+        (!action.target && !action.value)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse a "canvas:x,y" click target
+ */
+function parseCanvasTarget(target?: string): InputPoint | null {
+  const match = target?.match(/^canvas:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/);
+  return match ? { x: Number(match[1]), y: Number(match[2]) } : null;
+}
+
+/**
+ * Scroll amounts of a wheel action: unset deltas are 0, except a wheel with neither scrolls down
+ *
+ * @param action - Wheel action
+ * @returns Horizontal and vertical scroll in CSS pixels
+ */
+export function resolveWheelDeltas(action: Pick<Action, 'deltaX' | 'deltaY'>): { deltaX: number; deltaY: number } {
+  if (action.deltaX === undefined && action.deltaY === undefined) {
+    return { deltaX: 0, deltaY: DEFAULT_WHEEL_DELTA };
+  }
+  return { deltaX: action.deltaX ?? 0, deltaY: action.deltaY ?? 0 };
+}
+
+/**
+ * Whether an action goes straight to the page instead of through act()
+ * Clicks do too when modifier keys must be held - act() can't hold them
+ *
+ * @param action - Action to check
+ * @returns true if executeInputAction() handles it
+ */
+export function isDirectInputAction(action: Pick<Action, 'type' | 'modifiers'>): boolean {
+  return DIRECT_INPUT_TYPES.includes(action.type) || (action.type === 'click' && (action.modifiers?.length ?? 0) > 0);
+}
+
+/**
+ * Short description for logs and replay output, e.g. "hold ArrowRight 1000ms", "Shift+click (400, 300)"
+ *
+ * @param action - Direct input action
+ * @returns Description
+ */
+export function describeInputAction(action: Action): string {
+  const at = (point?: Partial<InputPoint>) =>
+    point?.x !== undefined && point.y !== undefined ? `(${Math.round(point.x)}, ${Math.round(point.y)})` : action.target ?? 'center';
+  const held = action.modifiers?.length ? `${action.modifiers.join('+')}+` : '';
+
+  switch (action.type) {
+    case 'key':
+      return `key ${held}${action.value ?? ''}`;
+    case 'type':
+      return `type "${action.value ?? ''}"`;
+    case 'wait':
+      return `wait ${action.duration ?? DEFAULT_WAIT_MS}ms`;
+    case 'keyHold':
+      return `hold ${action.value ?? 'ArrowRight'} ${action.duration ?? DEFAULT_HOLD_MS}ms`;
+    case 'keyCombo':
+      return `press ${action.value ?? ''}`;
+    case 'drag':
+      return `${held}drag ${at(action.from ?? action)} → ${action.to ? at(action.to) : action.direction ?? 'right'}`;
+    case 'mouseMove':
+      return `${held}move mouse to ${at(action)}`;
+    case 'wheel': {
+      const { deltaX, deltaY } = resolveWheelDeltas(action);
+      return `${held}wheel ${deltaX},${deltaY} at ${at(action)}`;
+    }
+    case 'dblclick':
+      return `${held}double-click ${at(action)}`;
+    case 'click':
+      return `${held}click ${at(action)}`;
+    default:
+      return action.type;
+  }
+}
+
+/**
+ * Find the center of an element
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param selector - CSS selector (first match)
+ * @returns Center in CSS pixels, or null when nothing matches
+ */
+export async function getElementCenter(page: any, selector: string): Promise<InputPoint | null> {
+  return page.evaluate(ELEMENT_CENTER_SCRIPT(selector));
+}
+
+/**
+ * Resolve where a pointer action happens: its x/y, a "canvas:x,y" target, the center of its
+ * target element, or the viewport center
+ */
+async function resolvePoint(page: any, action: Action): Promise<InputPoint> {
+  if (action.x !== undefined && action.y !== undefined) {
+    return { x: action.x, y: action.y };
+  }
+  const canvasPoint = parseCanvasTarget(action.target);
+  if (canvasPoint) {
+    return canvasPoint;
+  }
+  if (action.target) {
+    const center = await getElementCenter(page, action.target);
+    if (!center) {
+      throw new Error(`No element matches "${action.target}"`);
+    }
+    return center;
+  }
+  const viewport = await getViewportSize(page);
+  return { x: Math.round(viewport.width / 2), y: Math.round(viewport.height / 2) };
+}
+
+/**
+ * Execute a direct input action on the page
+ * Unset points and amounts are resolved first and returned, so a recorded session replays the exact input
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param action - A direct input action (isDirectInputAction) or a primitive one (isPrimitiveAction)
+ * @returns The action with its resolved key, points and amounts
+ */
+export async function executeInputAction(page: any, action: Action): Promise<Action> {
+  const modifiers = action.modifiers ?? [];
+
+  if (KEYBOARD_TYPES.includes(action.type)) {
+    await focusGameElement(page);
+  }
+
+  switch (action.type) {
+    case 'key': {
+      if (!action.value) {
+        throw new Error('key action requires a value (e.g., "ArrowLeft")');
+      }
+      await pressKey(page, action.value, modifiers);
+      return action;
+    }
+
+    case 'type': {
+      if (!action.value) {
+        throw new Error('type action requires a value');
+      }
+      await typeText(page, action.value);
+      return action;
+    }
+
+    case 'wait': {
+      const duration = action.duration ?? DEFAULT_WAIT_MS;
+      await new Promise((resolve) => setTimeout(resolve, duration));
+      return { ...action, duration };
+    }
+
+    case 'keyHold': {
+      const key = action.value || 'ArrowRight';
+      const duration = action.duration ?? DEFAULT_HOLD_MS;
+      await holdKey(page, key, duration);
+      return { ...action, value: key, duration };
+    }
+
+    case 'keyCombo': {
+      if (!action.value) {
+        throw new Error('keyCombo action requires a value (e.g., "Control+Z")');
+      }
+      await pressKeyCombo(page, action.value);
+      return action;
+    }
+
+    case 'drag': {
+      // Without an end point, drag like a swipe: a direction and distance (default: 40% of the viewport)
+      const from = action.from ?? (await resolvePoint(page, action));
+      const to = action.to ?? swipeEnd(from, action.direction ?? 'right', await getViewportSize(page), action.distance);
+      const steps = action.steps ?? DEFAULT_DRAG_STEPS;
+      await dragMouse(page, from, to, steps, modifiers);
+      return { ...action, from, to, steps };
+    }
+
+    case 'mouseMove': {
+      const to = await resolvePoint(page, action);
+      const steps = action.steps ?? 1;
+      await moveMouse(page, to, steps, modifiers);
+      return { ...action, ...to, steps };
+    }
+
+    case 'wheel': {
+      const point = await resolvePoint(page, action);
+      const { deltaX, deltaY } = resolveWheelDeltas(action);
+      await scrollWheel(page, point, deltaX, deltaY, modifiers);
+      return { ...action, ...point, deltaX, deltaY };
+    }
+
+    case 'dblclick':
+    case 'click': {
+      const point = await resolvePoint(page, action);
+      await clickMouse(page, point, action.type === 'dblclick' ? 2 : 1, modifiers);
+      return { ...action, ...point };
+    }
+
+    default:
+      throw new Error(`${action.type} actions are not executed as direct input`);
+  }
+}
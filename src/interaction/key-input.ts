@@ -0,0 +1,241 @@
+/**
+ * Key Input Module
+ *
+ * Low-level key down / key up for inputs Stagehand's page API has no public method for
+ * (holding a key for a duration, key combos, modifiers held during pointer input), and for
+ * plain key presses and typing sent without act().
+ * Uses Playwright's keyboard when present, otherwise sends CDP Input.dispatchKeyEvent
+ * on the Stagehand V3 page's main session.
+ */
+
+import type { KeyModifier } from '../shared/types.js';
+
+/**
+ * CDP key fields for one key
+ */
+interface KeyDefinition {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string; // Only for keys that produce characters
+}
+
+/**
+ * Named keys games commonly listen for
+ */
+const NAMED_KEYS: Record<string, { code: string; keyCode: number; text?: string }> = {
+  ArrowLeft: { code: 'ArrowLeft', keyCode: 37 },
+  ArrowUp: { code: 'ArrowUp', keyCode: 38 },
+  ArrowRight: { code: 'ArrowRight', keyCode: 39 },
+  ArrowDown: { code: 'ArrowDown', keyCode: 40 },
+  Enter: { code: 'Enter', keyCode: 13, text: '\r' },
+  Escape: { code: 'Escape', keyCode: 27 },
+  Backspace: { code: 'Backspace', keyCode: 8 },
+  Tab: { code: 'Tab', keyCode: 9 },
+  Shift: { code: 'ShiftLeft', keyCode: 16 },
+  Control: { code: 'ControlLeft', keyCode: 17 },
+  Alt: { code: 'AltLeft', keyCode: 18 },
+  Meta: { code: 'MetaLeft', keyCode: 91 },
+};
+
+/**
+ * CDP modifier bits (the `modifiers` field of Input.dispatchKeyEvent / dispatchMouseEvent)
+ */
+const MODIFIER_BITS: Record<KeyModifier, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+/**
+ * Other spellings accepted for modifiers in key combos
+ */
+const MODIFIER_ALIASES: Record<string, KeyModifier> = {
+  alt: 'Alt',
+  option: 'Alt',
+  control: 'Control',
+  ctrl: 'Control',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+  shift: 'Shift',
+};
+
+/**
+ * Combine modifiers into a CDP modifier bitmask
+ *
+ * @param modifiers - Held modifier keys
+ * @returns Bitmask (0 when none)
+ */
+export function modifierMask(modifiers: readonly KeyModifier[] = []): number {
+  return modifiers.reduce((mask, modifier) => mask | MODIFIER_BITS[modifier], 0);
+}
+
+/**
+ * Split a key combo into its modifiers and main key
+ *
+ * @param combo - e.g. "Control+Shift+S", "Shift+ArrowRight", "Control++"
+ * @returns Modifiers (in order) and the main key
+ */
+export function parseKeyCombo(combo: string): { modifiers: KeyModifier[]; key: string } {
+  // A trailing "++" means the "+" key itself
+  const plusKey = combo.endsWith('++');
+  const tokens = (plusKey ? combo.slice(0, -2) : combo).split('+').map((token) => token.trim());
+  const key = plusKey ? '+' : tokens.pop() ?? '';
+  if (!key) {
+    throw new Error(`Key combo "${combo}" has no key`);
+  }
+
+  const modifiers = tokens
+    .filter((token) => token !== '')
+    .map((token) => {
+      const modifier = MODIFIER_ALIASES[token.toLowerCase()];
+      if (!modifier) {
+        throw new Error(`Unknown modifier "${token}" in key combo "${combo}"`);
+      }
+      return modifier;
+    });
+  return { modifiers: [...new Set(modifiers)], key };
+}
+
+/**
+ * Resolve a key name ("ArrowLeft", "Space", "a", "5") to CDP key fields
+ *
+ * @param name - Key name as used in action sets and scenarios
+ * @returns Key definition
+ */
+export function resolveKey(name: string): KeyDefinition {
+  if (name === 'Space' || name === ' ') {
+    return { key: ' ', code: 'Space', keyCode: 32, text: ' ' };
+  }
+
+  const named = NAMED_KEYS[name];
+  if (named) {
+    return { key: name, ...named };
+  }
+
+  if (name.length === 1) {
+    const upper = name.toUpperCase();
+    if (/[A-Z]/.test(upper)) {
+      return { key: name, code: `Key${upper}`, keyCode: upper.charCodeAt(0), text: name };
+    }
+    if (/[0-9]/.test(name)) {
+      return { key: name, code: `Digit${name}`, keyCode: name.charCodeAt(0), text: name };
+    }
+    return { key: name, code: '', keyCode: 0, text: name };
+  }
+
+  // Unknown named key (F1, Home, ...) - key name alone is enough for most listeners
+  return { key: name, code: name, keyCode: 0 };
+}
+
+/**
+ * Send one key event
+ */
+async function dispatchKey(page: any, type: 'down' | 'up', key: KeyDefinition, modifiers: number = 0): Promise<void> {
+  // Playwright page
+  if (page.keyboard?.down) {
+    const playwrightKey = key.code === 'Space' ? 'Space' : key.key;
+    await (type === 'down' ? page.keyboard.down(playwrightKey) : page.keyboard.up(playwrightKey));
+    return;
+  }
+
+  // Stagehand V3 page: raw CDP on the main frame's session
+  // With Control/Alt/Meta held the key is a shortcut, not text
+  const text = modifiers & ~MODIFIER_BITS.Shift ? undefined : key.text;
+  const session = page.getSessionForFrame(page.mainFrameId());
+  await session.send('Input.dispatchKeyEvent', {
+    type: type === 'down' ? (text ? 'keyDown' : 'rawKeyDown') : 'keyUp',
+    key: key.key,
+    code: key.code,
+    windowsVirtualKeyCode: key.keyCode,
+    ...(modifiers && { modifiers }),
+    ...(type === 'down' && text && { text, unmodifiedText: text }),
+  });
+}
+
+/**
+ * Hold modifier keys while running an input, then release them in reverse order
+ * The modifiers are always released, even if the input fails
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param modifiers - Modifier keys to hold (none: fn runs as is)
+ * @param fn - Input to perform while they are held
+ * @returns What fn returns
+ */
+export async function withModifiers<T>(page: any, modifiers: readonly KeyModifier[], fn: () => Promise<T>): Promise<T> {
+  const pressed: KeyModifier[] = [];
+  try {
+    for (const modifier of modifiers) {
+      pressed.push(modifier);
+      await dispatchKey(page, 'down', resolveKey(modifier), modifierMask(pressed));
+    }
+    return await fn();
+  } finally {
+    for (let i = pressed.length - 1; i >= 0; i--) {
+      await dispatchKey(page, 'up', resolveKey(pressed[i]!), modifierMask(pressed.slice(0, i)));
+    }
+  }
+}
+
+/**
+ * Press and release a key, optionally with modifiers held
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param name - Key name (e.g., "ArrowLeft", "Space", "a")
+ * @param modifiers - Keys held during the press
+ */
+export async function pressKey(page: any, name: string, modifiers: readonly KeyModifier[] = []): Promise<void> {
+  const definition = resolveKey(name);
+  const mask = modifierMask(modifiers);
+  await withModifiers(page, modifiers, async () => {
+    await dispatchKey(page, 'down', definition, mask);
+    await dispatchKey(page, 'up', definition, mask);
+  });
+}
+
+/**
+ * Press a key combo: modifiers down, the key down and up, modifiers up
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param combo - e.g. "Control+Z", "Shift+Tab"
+ */
+export async function pressKeyCombo(page: any, combo: string): Promise<void> {
+  const { modifiers, key } = parseKeyCombo(combo);
+  await pressKey(page, key, modifiers);
+}
+
+/**
+ * Type text one key at a time into whatever has focus
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param text - Text to type
+ */
+export async function typeText(page: any, text: string): Promise<void> {
+  if (typeof page?.keyboard?.type === 'function') {
+    await page.keyboard.type(text);
+    return;
+  }
+  for (const char of text) {
+    await pressKey(page, char);
+  }
+}
+
+/**
+ * Hold a key down for a duration, then release it
+ * The key is always released, even if waiting is interrupted
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param name - Key name (e.g., "ArrowRight", "Space", "w")
+ * @param durationMs - How long to hold the key
+ */
+export async function holdKey(page: any, name: string, durationMs: number): Promise<void> {
+  const key = resolveKey(name);
+  await dispatchKey(page, 'down', key);
+  try {
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+  } finally {
+    await dispatchKey(page, 'up', key);
+  }
+}
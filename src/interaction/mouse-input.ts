@@ -0,0 +1,193 @@
+/**
+ * Mouse Input Module
+ *
+ * Pointer input act() can't express: mouse moves, drags, wheel scrolls and clicks at
+ * coordinates with modifier keys held. Uses Playwright's mouse when present, otherwise sends
+ * CDP Input.dispatchMouseEvent on the Stagehand V3 page's main session.
+ * Coordinates are CSS pixels relative to the viewport.
+ */
+
+import type { InputPoint, KeyModifier } from '../shared/types.js';
+import { modifierMask, withModifiers } from './key-input.js';
+
+/**
+ * Where the mouse was left on each page - CDP can't be asked, and moves interpolate from it
+ */
+const lastPositions = new WeakMap<object, InputPoint>();
+
+/**
+ * Fields of one CDP mouse event
+ */
+interface MouseEvent {
+  type: 'mouseMoved' | 'mousePressed' | 'mouseReleased' | 'mouseWheel';
+  x: number;
+  y: number;
+  button?: 'none' | 'left';
+  buttons?: number; // Buttons held (1: left)
+  clickCount?: number;
+  deltaX?: number;
+  deltaY?: number;
+}
+
+/**
+ * Whether the page has Playwright's mouse API
+ */
+function hasPlaywrightMouse(page: any): boolean {
+  return typeof page?.mouse?.move === 'function';
+}
+
+/**
+ * Send one CDP mouse event on a Stagehand V3 page
+ */
+async function dispatchMouse(page: any, event: MouseEvent, modifiers: readonly KeyModifier[]): Promise<void> {
+  const session = page.getSessionForFrame(page.mainFrameId());
+  const mask = modifierMask(modifiers);
+  await session.send('Input.dispatchMouseEvent', { ...event, ...(mask && { modifiers: mask }) });
+  lastPositions.set(page, { x: event.x, y: event.y });
+}
+
+/**
+ * Send evenly spaced CDP moves from one point to another (the last one lands on `to`)
+ */
+async function interpolateMoves(
+  page: any,
+  from: InputPoint,
+  to: InputPoint,
+  steps: number,
+  held: boolean,
+  modifiers: readonly KeyModifier[]
+): Promise<void> {
+  const count = Math.max(1, Math.round(steps));
+  for (let step = 1; step <= count; step++) {
+    const progress = step / count;
+    await dispatchMouse(
+      page,
+      {
+        type: 'mouseMoved',
+        x: from.x + (to.x - from.x) * progress,
+        y: from.y + (to.y - from.y) * progress,
+        button: held ? 'left' : 'none',
+        buttons: held ? 1 : 0,
+      },
+      modifiers
+    );
+  }
+}
+
+/**
+ * Move the mouse to a point
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param to - Where the pointer ends up
+ * @param steps - Intermediate moves from the current position (default: 1)
+ * @param modifiers - Keys held during the move
+ */
+export async function moveMouse(
+  page: any,
+  to: InputPoint,
+  steps: number = 1,
+  modifiers: readonly KeyModifier[] = []
+): Promise<void> {
+  await withModifiers(page, modifiers, async () => {
+    if (hasPlaywrightMouse(page)) {
+      await page.mouse.move(to.x, to.y, { steps });
+      return;
+    }
+    await interpolateMoves(page, lastPositions.get(page) ?? to, to, steps, false, modifiers);
+  });
+}
+
+/**
+ * Click (or double-click) at a point
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param point - Where to click
+ * @param clickCount - 1 for a click, 2 for a double-click (fires dblclick)
+ * @param modifiers - Keys held during the click (e.g., Shift+click)
+ */
+export async function clickMouse(
+  page: any,
+  point: InputPoint,
+  clickCount: number = 1,
+  modifiers: readonly KeyModifier[] = []
+): Promise<void> {
+  await withModifiers(page, modifiers, async () => {
+    if (hasPlaywrightMouse(page)) {
+      await (clickCount === 2 ? page.mouse.dblclick(point.x, point.y) : page.mouse.click(point.x, point.y, { clickCount }));
+      return;
+    }
+
+    await dispatchMouse(page, { type: 'mouseMoved', ...point, button: 'none', buttons: 0 }, modifiers);
+    // Each press carries its running count - the second one is what makes it a double-click
+    for (let count = 1; count <= clickCount; count++) {
+      await dispatchMouse(page, { type: 'mousePressed', ...point, button: 'left', buttons: 1, clickCount: count }, modifiers);
+      await dispatchMouse(page, { type: 'mouseReleased', ...point, button: 'left', buttons: 0, clickCount: count }, modifiers);
+    }
+  });
+}
+
+/**
+ * Drag with the left button from one point to another
+ * The button is always released, even if a move fails
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param from - Where the button goes down
+ * @param to - Where it is released
+ * @param steps - Intermediate moves while dragging (default: 10)
+ * @param modifiers - Keys held during the drag
+ */
+export async function dragMouse(
+  page: any,
+  from: InputPoint,
+  to: InputPoint,
+  steps: number = 10,
+  modifiers: readonly KeyModifier[] = []
+): Promise<void> {
+  await withModifiers(page, modifiers, async () => {
+    if (hasPlaywrightMouse(page)) {
+      await page.mouse.move(from.x, from.y);
+      await page.mouse.down();
+      try {
+        await page.mouse.move(to.x, to.y, { steps });
+      } finally {
+        await page.mouse.up();
+      }
+      return;
+    }
+
+    await dispatchMouse(page, { type: 'mouseMoved', ...from, button: 'none', buttons: 0 }, modifiers);
+    await dispatchMouse(page, { type: 'mousePressed', ...from, button: 'left', buttons: 1, clickCount: 1 }, modifiers);
+    try {
+      await interpolateMoves(page, from, to, steps, true, modifiers);
+    } finally {
+      const at = lastPositions.get(page) ?? from;
+      await dispatchMouse(page, { type: 'mouseReleased', ...at, button: 'left', buttons: 0, clickCount: 1 }, modifiers);
+    }
+  });
+}
+
+/**
+ * Scroll the mouse wheel over a point
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param point - Where the pointer is while scrolling
+ * @param deltaX - Horizontal scroll in CSS pixels (positive: right)
+ * @param deltaY - Vertical scroll in CSS pixels (positive: down)
+ * @param modifiers - Keys held during the scroll (e.g., Control for zoom)
+ */
+export async function scrollWheel(
+  page: any,
+  point: InputPoint,
+  deltaX: number,
+  deltaY: number,
+  modifiers: readonly KeyModifier[] = []
+): Promise<void> {
+  await withModifiers(page, modifiers, async () => {
+    if (hasPlaywrightMouse(page)) {
+      await page.mouse.move(point.x, point.y);
+      await page.mouse.wheel(deltaX, deltaY);
+      return;
+    }
+    await dispatchMouse(page, { type: 'mouseWheel', ...point, deltaX, deltaY }, modifiers);
+  });
+}
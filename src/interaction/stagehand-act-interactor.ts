@@ -4,16 +4,21 @@
  * Uses Stagehand's agent.act() method as the primary interaction mechanism.
  * This leverages Stagehand's vision and understanding to execute intent-based actions
  * rather than low-level keyboard/mouse commands.
+ * Inputs act() can't express (key holds and combos, drags, mouse moves, wheel, double-clicks)
+ * and primitive inputs (key presses, typing, coordinate clicks, waits) go straight to the page
+ * through executeDirectAction().
  */
 
-import type { Stagehand } from '@browserbasehq/stagehand';
+import type { Stagehand, Action as StagehandAction } from '@browserbasehq/stagehand';
 import type { Action } from '../shared/types.js';
-import { executeWithTimeout, getTimeout, TimeoutError } from '../utils/timeout-utils.js';
+import { executeWithTimeout, getTimeout, TimeoutError, type TimeoutOverrides } from '../utils/timeout-utils.js';
+import { describeInputAction, executeInputAction, resolveWheelDeltas } from './input-actions.js';
 
 export interface ActResult {
   success: boolean;
   message: string;
   actionDescription?: string;
+  actions?: StagehandAction[]; // Resolved selector/method/arguments - replayable without an LLM
   duration: number;
 }
 
@@ -59,6 +64,7 @@ export class StagehandActInteractor {
   private learnedInteractions: Map<string, LearnedInteraction> = new Map();
   private pageState: PageState | null = null;
   private actionAttempts: Map<string, number> = new Map(); // Track how many times we've tried each action
+  private timeouts: TimeoutOverrides = {};
 
   constructor(stagehand?: Stagehand) {
     this.stagehand = stagehand || null;
@@ -71,6 +77,13 @@ export class StagehandActInteractor {
     this.stagehand = stagehand;
   }
 
+  /**
+   * Override observe()/act() timeouts for this run
+   */
+  setTimeouts(timeouts: TimeoutOverrides): void {
+    this.timeouts = timeouts;
+  }
+
   /**
    * Set game context for better instruction generation
    * This helps Stagehand understand which game is being played and generate more specific instructions
@@ -210,7 +223,7 @@ export class StagehandActInteractor {
         // Wrap observe() with timeout to prevent hanging
         const rawObserved = await executeWithTimeout(
           () => this.stagehand!.observe(observeInstruction),
-          getTimeout('STAGEHAND_OBSERVE'),
+          getTimeout('STAGEHAND_OBSERVE', this.timeouts),
           `observe: ${observeInstruction}`
         );
 
@@ -268,7 +281,7 @@ export class StagehandActInteractor {
       // Wrap with timeout to prevent hanging operations
       const result = await executeWithTimeout(
         () => this.stagehand!.act(contextAugmentedInstruction),
-        getTimeout('STAGEHAND_ACT'),
+        getTimeout('STAGEHAND_ACT', this.timeouts),
         `act: ${contextAugmentedInstruction}`
       );
 
@@ -298,6 +311,7 @@ export class StagehandActInteractor {
           success: true,
           message: result.message,
           actionDescription: result.actionDescription,
+          actions: result.actions,
           duration,
         };
       } else {
@@ -455,11 +469,86 @@ export class StagehandActInteractor {
       case 'wait':
         return `Wait for the page to update`;
 
+      case 'tap':
+        // Labeled taps go through act(); the device profile delivers its click as a touch
+        if (action.value) {
+          return action.value;
+        }
+        return action.x !== undefined && action.y !== undefined
+          ? `Tap at (${action.x}, ${action.y})`
+          : `Tap the middle of the game`;
+
+      case 'swipe':
+        return `Swipe ${action.direction ?? 'left'} across the game`;
+
+      // Executed directly (executeDirectAction) - the instruction only describes them
+      case 'keyHold':
+        return `Hold the ${action.value || 'ArrowRight'} key for ${action.duration ?? 1000}ms`;
+
+      case 'keyCombo':
+        return `Press ${action.value || 'the key combination'}`;
+
+      case 'drag':
+        return `Drag across the game${action.direction ? ` to the ${action.direction}` : ''}`;
+
+      case 'mouseMove':
+        return `Move the mouse over the game`;
+
+      case 'wheel': {
+        const { deltaX, deltaY } = resolveWheelDeltas(action);
+        return `Scroll the mouse wheel ${deltaY < 0 || deltaX < 0 ? 'back' : 'forward'}`;
+      }
+
+      case 'dblclick':
+        return action.value ? `Double-click ${action.value}` : `Double-click the game`;
+
       default:
         return action.value || `Perform an action`;
     }
   }
 
+  /**
+   * Execute an input straight through the page's input APIs (no observe, no LLM call)
+   *
+   * @param action - Direct input or primitive action (see input-actions.ts)
+   * @param page - Page to send input to (default: the Stagehand context's first page)
+   * @returns The action with resolved coordinates, and the outcome
+   */
+  async executeDirectAction(action: Action, page?: any): Promise<{ action: Action; result: ActResult }> {
+    const startTime = Date.now();
+    const instruction = this.actionToInstruction(action);
+    const target = page ?? (this.stagehand as any)?.context?.pages?.()[0];
+
+    try {
+      if (!target) {
+        throw new Error('No page available for direct input');
+      }
+      const executed = await executeInputAction(target, action);
+      const description = describeInputAction(executed);
+      console.log(`⌨️  Direct input: ${description}`);
+
+      const result: ActResult = {
+        success: true,
+        message: description,
+        actionDescription: description,
+        duration: Date.now() - startTime,
+      };
+      this.recordSuccessfulInteraction(action.type, instruction);
+      this.actionHistory.push({ instruction, result });
+      this.lastError = null;
+      return { action: executed, result };
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠ Direct input failed (${action.type}): ${errorMsg}`);
+
+      const result: ActResult = { success: false, message: `Error: ${errorMsg}`, duration: Date.now() - startTime };
+      this.recordFailedInteraction(action.type, instruction);
+      this.actionHistory.push({ instruction, result });
+      this.lastError = errorMsg;
+      return { action, result };
+    }
+  }
+
   /**
    * Execute a game move/action with intelligence-guided instructions
    *
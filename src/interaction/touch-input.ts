@@ -0,0 +1,149 @@
+/**
+ * Touch Input Module
+ *
+ * Taps and swipes for mobile-first games, which often listen only for touch events.
+ * Sends CDP Input.dispatchTouchEvent on the Stagehand V3 page's main session; Playwright
+ * pages get a CDP session from their context. Coordinates are CSS pixels relative to the viewport.
+ */
+
+import type { Action, SwipeDirection } from '../shared/types.js';
+
+/**
+ * Touch moves sent per swipe (enough for gesture libraries to measure velocity)
+ */
+const SWIPE_STEPS = 10;
+
+/**
+ * Default swipe length as a share of the viewport along the swipe
+ */
+const DEFAULT_SWIPE_RATIO = 0.4;
+
+/**
+ * A point in CSS pixels
+ */
+export interface TouchPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Reads the viewport size from inside the page
+ */
+const VIEWPORT_SCRIPT = `({ width: window.innerWidth, height: window.innerHeight })`;
+
+/**
+ * Get a CDP session that can dispatch input to the page
+ */
+async function getInputSession(page: any): Promise<{ send: (method: string, params?: object) => Promise<unknown> }> {
+  // Stagehand V3 page
+  if (typeof page?.getSessionForFrame === 'function') {
+    return page.getSessionForFrame(page.mainFrameId());
+  }
+  // Playwright page
+  if (typeof page?.context === 'function' && typeof page.context().newCDPSession === 'function') {
+    return page.context().newCDPSession(page);
+  }
+  throw new Error('Touch input is not supported on this page');
+}
+
+/**
+ * Read the page's viewport size
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @returns Viewport in CSS pixels
+ */
+export async function getViewportSize(page: any): Promise<{ width: number; height: number }> {
+  return page.evaluate(VIEWPORT_SCRIPT);
+}
+
+/**
+ * Work out where a swipe ends
+ *
+ * @param start - Where the finger goes down
+ * @param direction - Direction the finger moves
+ * @param viewport - Viewport size (for the default distance and clamping)
+ * @param distance - Swipe length in CSS pixels (default: 40% of the viewport along the swipe)
+ * @returns End point, kept inside the viewport
+ */
+export function swipeEnd(
+  start: TouchPoint,
+  direction: SwipeDirection,
+  viewport: { width: number; height: number },
+  distance?: number
+): TouchPoint {
+  const horizontal = direction === 'left' || direction === 'right';
+  const length = distance ?? Math.round((horizontal ? viewport.width : viewport.height) * DEFAULT_SWIPE_RATIO);
+  const sign = direction === 'left' || direction === 'up' ? -1 : 1;
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max - 1);
+
+  return horizontal
+    ? { x: clamp(start.x + sign * length, viewport.width), y: start.y }
+    : { x: start.x, y: clamp(start.y + sign * length, viewport.height) };
+}
+
+/**
+ * Tap a point
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param point - Where to tap
+ */
+export async function tap(page: any, point: TouchPoint): Promise<void> {
+  const session = await getInputSession(page);
+  await session.send('Input.dispatchTouchEvent', { type: 'touchStart', touchPoints: [point] });
+  await session.send('Input.dispatchTouchEvent', { type: 'touchEnd', touchPoints: [] });
+}
+
+/**
+ * Swipe from one point to another
+ * The finger is always lifted, even if a move fails
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param from - Where the finger goes down
+ * @param to - Where it is lifted
+ * @param durationMs - Gesture length (default: 300)
+ */
+export async function swipe(page: any, from: TouchPoint, to: TouchPoint, durationMs: number = 300): Promise<void> {
+  const session = await getInputSession(page);
+  await session.send('Input.dispatchTouchEvent', { type: 'touchStart', touchPoints: [from] });
+  try {
+    for (let step = 1; step <= SWIPE_STEPS; step++) {
+      await new Promise((resolve) => setTimeout(resolve, durationMs / SWIPE_STEPS));
+      const progress = step / SWIPE_STEPS;
+      await session.send('Input.dispatchTouchEvent', {
+        type: 'touchMove',
+        touchPoints: [{ x: from.x + (to.x - from.x) * progress, y: from.y + (to.y - from.y) * progress }],
+      });
+    }
+  } finally {
+    await session.send('Input.dispatchTouchEvent', { type: 'touchEnd', touchPoints: [] });
+  }
+}
+
+/**
+ * Execute a tap or swipe action
+ * Points default to the viewport center; the resolved gesture is returned so a recorded
+ * session replays it exactly
+ *
+ * @param page - Playwright or Stagehand V3 page
+ * @param action - tap or swipe action
+ * @returns The action with its resolved start point (and, for swipes, direction and distance)
+ */
+export async function executeTouchAction(page: any, action: Action): Promise<Action> {
+  const viewport = await getViewportSize(page);
+  const start = {
+    x: action.x ?? Math.round(viewport.width / 2),
+    y: action.y ?? Math.round(viewport.height / 2),
+  };
+
+  if (action.type === 'swipe') {
+    const direction = action.direction ?? 'left';
+    const end = swipeEnd(start, direction, viewport, action.distance);
+    console.log(`👆 Swipe ${direction}: (${start.x}, ${start.y}) → (${end.x}, ${end.y})`);
+    await swipe(page, start, end, action.duration);
+    return { ...action, ...start, direction, distance: Math.abs(end.x - start.x) + Math.abs(end.y - start.y) };
+  }
+
+  console.log(`👆 Tap: (${start.x}, ${start.y})`);
+  await tap(page, start);
+  return { ...action, ...start };
+}
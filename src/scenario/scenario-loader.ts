@@ -0,0 +1,254 @@
+/**
+ * Scenario Loader Module
+ *
+ * Parses declarative test scenarios (YAML or JSON) into normalized steps:
+ * - Inputs: press, hold, click, type, wait, and touch gestures: tap, swipe
+ * - Assertions: expect-change, expect-text
+ * - Evidence: screenshot
+ *
+ * Each step in the file is a single-key object, e.g. `- press: Enter` or
+ * `- click: { x: 200, y: 150 }`; shorthand values are expanded here so the runner
+ * only deals with one shape per step type.
+ */
+
+import { readFile } from 'fs/promises';
+import { dirname, extname, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type { BrowserProviderName, DeviceProfileName, Issue, SwipeDirection } from '../shared/types.js';
+import { ErrorTemplates } from '../shared/error-handler.js';
+import { deviceProfileSchema } from '../shared/config-file.js';
+import { isRemoteGameUrl } from '../browser/game-source.js';
+
+/**
+ * Default time an assertion waits for its condition
+ */
+export const DEFAULT_EXPECT_TIMEOUT_MS = 2000;
+
+export type ScenarioStep =
+  | { type: 'press'; key: string; repeat: number }
+  | { type: 'hold'; key: string; duration: number }
+  | { type: 'click'; x: number; y: number }
+  | { type: 'click'; selector: string }
+  | { type: 'tap'; x: number; y: number }
+  | { type: 'tap'; selector: string }
+  | { type: 'swipe'; direction: SwipeDirection; x?: number; y?: number; distance?: number; duration: number }
+  | { type: 'type'; text: string }
+  | { type: 'wait'; duration: number }
+  | { type: 'expect-change'; timeout: number; threshold?: number; severity: Issue['severity'] }
+  | {
+      type: 'expect-text';
+      text: string;
+      selector?: string;
+      absent: boolean; // Assert the text is NOT shown
+      timeout: number;
+      severity: Issue['severity'];
+    }
+  | { type: 'screenshot'; description: string };
+
+export type ScenarioStepType = ScenarioStep['type'];
+
+/**
+ * A loaded scenario
+ */
+export interface Scenario {
+  name: string;
+  gameUrl: string; // URL or absolute local build path
+  browser?: BrowserProviderName;
+  device?: DeviceProfileName; // Viewport and touch emulation (default: desktop)
+  headed?: boolean;
+  timeout?: number;
+  evaluate: boolean; // Also run the AI evaluator on the captured screenshots
+  steps: ScenarioStep[];
+}
+
+const severitySchema = z.enum(['critical', 'major', 'minor']);
+const directionSchema = z.enum(['left', 'right', 'up', 'down']);
+const keySchema = z.string().min(1);
+
+/**
+ * Schema for each step type, transforming shorthand into the normalized step
+ */
+const stepSchemas: Record<ScenarioStepType, z.ZodType<ScenarioStep, z.ZodTypeDef, unknown>> = {
+  press: z
+    .union([keySchema, z.object({ key: keySchema, repeat: z.number().int().positive().default(1) })])
+    .transform((value) =>
+      typeof value === 'string'
+        ? { type: 'press' as const, key: value, repeat: 1 }
+        : { type: 'press' as const, ...value }
+    ),
+  hold: z
+    .object({ key: keySchema, duration: z.number().int().positive() })
+    .transform((value) => ({ type: 'hold' as const, ...value })),
+  click: z
+    .union([
+      z.string().min(1),
+      z.object({ x: z.number().nonnegative(), y: z.number().nonnegative() }),
+      z.object({ selector: z.string().min(1) }),
+    ])
+    .transform((value) =>
+      typeof value === 'string' ? { type: 'click' as const, selector: value } : { type: 'click' as const, ...value }
+    ),
+  tap: z
+    .union([
+      z.string().min(1),
+      z.object({ x: z.number().nonnegative(), y: z.number().nonnegative() }),
+      z.object({ selector: z.string().min(1) }),
+    ])
+    .transform((value) =>
+      typeof value === 'string' ? { type: 'tap' as const, selector: value } : { type: 'tap' as const, ...value }
+    ),
+  swipe: z
+    .union([
+      directionSchema,
+      z.object({
+        direction: directionSchema,
+        x: z.number().nonnegative().optional(),
+        y: z.number().nonnegative().optional(),
+        distance: z.number().positive().optional(),
+        duration: z.number().int().positive().optional(),
+      }),
+    ])
+    .transform((value) => {
+      const options = typeof value === 'string' ? { direction: value } : value;
+      return { type: 'swipe' as const, ...options, duration: options.duration ?? 300 };
+    }),
+  type: z.string().transform((text) => ({ type: 'type' as const, text })),
+  wait: z
+    .union([z.number().int().nonnegative(), z.object({ duration: z.number().int().nonnegative() })])
+    .transform((value) => ({ type: 'wait' as const, duration: typeof value === 'number' ? value : value.duration })),
+  'expect-change': z
+    .union([
+      z.literal(true),
+      z.null(),
+      z.object({
+        timeout: z.number().int().positive().optional(),
+        threshold: z.number().min(0).max(1).optional(),
+        severity: severitySchema.optional(),
+      }),
+    ])
+    .transform((value) => ({
+      type: 'expect-change' as const,
+      timeout: (value && value !== true && value.timeout) || DEFAULT_EXPECT_TIMEOUT_MS,
+      ...(value && value !== true && value.threshold !== undefined && { threshold: value.threshold }),
+      severity: (value && value !== true && value.severity) || 'major',
+    })),
+  'expect-text': z
+    .union([
+      z.string().min(1),
+      z.object({
+        text: z.string().min(1),
+        selector: z.string().min(1).optional(),
+        absent: z.boolean().optional(),
+        timeout: z.number().int().positive().optional(),
+        severity: severitySchema.optional(),
+      }),
+    ])
+    .transform((value) => {
+      const options = typeof value === 'string' ? { text: value } : value;
+      return {
+        type: 'expect-text' as const,
+        text: options.text,
+        ...(options.selector && { selector: options.selector }),
+        absent: options.absent ?? false,
+        timeout: options.timeout ?? DEFAULT_EXPECT_TIMEOUT_MS,
+        severity: options.severity ?? 'major',
+      };
+    }),
+  screenshot: z
+    .union([z.string(), z.null()])
+    .transform((description) => ({ type: 'screenshot' as const, description: description || 'Scenario screenshot' })),
+};
+
+const STEP_TYPES = Object.keys(stepSchemas) as ScenarioStepType[];
+
+/**
+ * Schema for the scenario file (steps are validated separately, per type)
+ */
+const scenarioFileSchema = z
+  .object({
+    name: z.string().optional(),
+    url: z.string().min(1).optional(),
+    gameUrl: z.string().min(1).optional(),
+    browser: z.enum(['browserbase', 'local']).optional(),
+    device: deviceProfileSchema.optional(),
+    headed: z.boolean().optional(),
+    timeout: z.number().int().positive().optional(),
+    evaluate: z.boolean().optional(),
+    steps: z.array(z.record(z.unknown())).min(1),
+  })
+  .refine((file) => file.url || file.gameUrl, { message: 'a scenario needs a "url"' });
+
+/**
+ * Format zod issues as "path: message" pairs
+ */
+function formatIssues(error: z.ZodError, prefix: string = ''): string {
+  return error.issues
+    .map((issue) => `${[prefix, ...issue.path].filter((part) => part !== '').join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Validate a parsed scenario document
+ *
+ * @param raw - Parsed YAML/JSON content
+ * @param filePath - Source path (for errors and resolving relative local builds)
+ * @returns Normalized scenario
+ */
+export function parseScenario(raw: unknown, filePath: string): Scenario {
+  const parsed = scenarioFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw ErrorTemplates.invalidScenarioFile(filePath, formatIssues(parsed.error));
+  }
+
+  const steps = parsed.data.steps.map((entry, index): ScenarioStep => {
+    const keys = Object.keys(entry);
+    if (keys.length !== 1 || !STEP_TYPES.includes(keys[0] as ScenarioStepType)) {
+      throw ErrorTemplates.invalidScenarioFile(
+        filePath,
+        `steps.${index}: expected exactly one of ${STEP_TYPES.join(', ')} (got ${keys.join(', ') || 'nothing'})`
+      );
+    }
+
+    const type = keys[0] as ScenarioStepType;
+    const step = stepSchemas[type].safeParse(entry[type]);
+    if (!step.success) {
+      throw ErrorTemplates.invalidScenarioFile(filePath, formatIssues(step.error, `steps.${index}.${type}`));
+    }
+    return step.data;
+  });
+
+  // Relative local builds are resolved against the scenario file's directory
+  const url = (parsed.data.url ?? parsed.data.gameUrl)!;
+  const gameUrl =
+    isRemoteGameUrl(url) || url.startsWith('file://') ? url : resolve(dirname(resolve(filePath)), url);
+
+  return {
+    name: parsed.data.name ?? gameUrl,
+    gameUrl,
+    browser: parsed.data.browser,
+    device: parsed.data.device,
+    headed: parsed.data.headed,
+    timeout: parsed.data.timeout,
+    evaluate: parsed.data.evaluate ?? false,
+    steps,
+  };
+}
+
+/**
+ * Load a scenario from a .yaml/.yml or .json file
+ *
+ * @param filePath - Path to the scenario file
+ * @returns Normalized scenario
+ */
+export async function loadScenarioFile(filePath: string): Promise<Scenario> {
+  let raw: unknown;
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    raw = extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw ErrorTemplates.invalidScenarioFile(filePath, error instanceof Error ? error.message : String(error));
+  }
+
+  return parseScenario(raw, filePath);
+}
@@ -0,0 +1,286 @@
+/**
+ * Scenario Runner Module
+ *
+ * Executes declarative scenario steps against a loaded game page:
+ * - Inputs go straight to the page (no LLM): key presses, held keys, clicks, taps, swipes, typing;
+ *   keys, clicks and typing use the agent's executeInputAction(), which focuses the game first
+ * - expect-change diffs the screen against the frame taken before the latest input
+ * - expect-text polls the page (or one element) for text
+ * - Failed assertions and steps become Issues; the run always continues
+ */
+
+import type { Issue } from '../shared/types.js';
+import { EvidenceCapture } from '../evidence/evidence-capture.js';
+import { StateChangeDetector } from '../detection/state-change-detector.js';
+import { executeInputAction, getElementCenter } from '../interaction/input-actions.js';
+import { getViewportSize, swipe, swipeEnd, tap } from '../interaction/touch-input.js';
+import type { ScenarioStep, ScenarioStepType } from './scenario-loader.js';
+
+/**
+ * How often assertions re-check their condition
+ */
+const POLL_INTERVAL_MS = 250;
+
+/**
+ * Step types that send input to the game
+ */
+export const INPUT_STEPS: ScenarioStepType[] = ['press', 'hold', 'click', 'tap', 'swipe', 'type'];
+
+/**
+ * Outcome of one scenario step
+ */
+export interface ScenarioStepResult {
+  index: number;
+  type: ScenarioStepType;
+  passed: boolean;
+  duration_ms: number;
+  detail: string;
+  screenshot?: string; // Evidence captured by the step (screenshot steps, failed assertions)
+}
+
+/**
+ * Runs scenario steps and collects results and issues
+ */
+export class ScenarioRunner {
+  private page: any;
+  private evidence: EvidenceCapture;
+  private diffThreshold?: number;
+  private referenceFrame: Buffer | null = null; // Frame before the latest input, for expect-change
+  private results: ScenarioStepResult[] = [];
+  private issues: Issue[] = [];
+  private startTime: number = Date.now();
+
+  /**
+   * @param page - Page the game is loaded in
+   * @param evidence - Evidence capture for screenshots
+   * @param diffThreshold - Default diff ratio for expect-change (default: detector default)
+   */
+  constructor(page: any, evidence: EvidenceCapture, diffThreshold?: number) {
+    this.page = page;
+    this.evidence = evidence;
+    this.diffThreshold = diffThreshold;
+  }
+
+  /**
+   * Execute all steps in order
+   *
+   * @param steps - Normalized scenario steps
+   * @returns Per-step results
+   */
+  async run(steps: ScenarioStep[]): Promise<ScenarioStepResult[]> {
+    this.startTime = Date.now();
+    this.results = [];
+    this.issues = [];
+    // Reference frames cost a screenshot per input - only take them when something will use them
+    const needsReference = steps.some((step) => step.type === 'expect-change');
+
+    for (const [index, step] of steps.entries()) {
+      const stepStart = Date.now();
+
+      if (needsReference && INPUT_STEPS.includes(step.type)) {
+        this.referenceFrame = await this.page.screenshot();
+      }
+
+      let outcome: Omit<ScenarioStepResult, 'index' | 'type' | 'duration_ms'>;
+      try {
+        outcome = await this.executeStep(step);
+      } catch (error) {
+        outcome = { passed: false, detail: error instanceof Error ? error.message : String(error) };
+      }
+
+      const result: ScenarioStepResult = {
+        index,
+        type: step.type,
+        duration_ms: Date.now() - stepStart,
+        ...outcome,
+      };
+      this.results.push(result);
+
+      console.log(`${result.passed ? '✓' : '✗'} Step ${index + 1}/${steps.length} [${step.type}] ${result.detail}`);
+      if (!result.passed) {
+        this.issues.push(this.toIssue(step, result));
+      }
+    }
+
+    return this.results;
+  }
+
+  /**
+   * Get issues raised by failed steps
+   */
+  getIssues(): Issue[] {
+    return this.issues;
+  }
+
+  /**
+   * Get per-step results of the last run
+   */
+  getResults(): ScenarioStepResult[] {
+    return this.results;
+  }
+
+  /**
+   * Execute one step
+   */
+  private async executeStep(step: ScenarioStep): Promise<Omit<ScenarioStepResult, 'index' | 'type' | 'duration_ms'>> {
+    switch (step.type) {
+      case 'press':
+        // Same input path as the agent and replay: the game element is focused first
+        for (let i = 0; i < step.repeat; i++) {
+          await executeInputAction(this.page, { type: 'key', value: step.key });
+        }
+        return { passed: true, detail: step.repeat > 1 ? `${step.key} x${step.repeat}` : step.key };
+
+      case 'hold':
+        await executeInputAction(this.page, { type: 'keyHold', value: step.key, duration: step.duration });
+        return { passed: true, detail: `${step.key} for ${step.duration}ms` };
+
+      case 'click':
+        if ('selector' in step) {
+          await executeInputAction(this.page, { type: 'click', target: step.selector });
+          return { passed: true, detail: step.selector };
+        }
+        await executeInputAction(this.page, { type: 'click', x: step.x, y: step.y });
+        return { passed: true, detail: `(${step.x}, ${step.y})` };
+
+      case 'tap': {
+        if ('selector' in step) {
+          const point = await getElementCenter(this.page, step.selector);
+          if (!point) {
+            return { passed: false, detail: `${step.selector} not found` };
+          }
+          await tap(this.page, point);
+          return { passed: true, detail: step.selector };
+        }
+        await tap(this.page, { x: step.x, y: step.y });
+        return { passed: true, detail: `(${step.x}, ${step.y})` };
+      }
+
+      case 'swipe': {
+        // Starts from the viewport center unless a point is given
+        const viewport = await getViewportSize(this.page);
+        const start = { x: step.x ?? Math.round(viewport.width / 2), y: step.y ?? Math.round(viewport.height / 2) };
+        const end = swipeEnd(start, step.direction, viewport, step.distance);
+        await swipe(this.page, start, end, step.duration);
+        return { passed: true, detail: `${step.direction} (${start.x}, ${start.y}) → (${end.x}, ${end.y})` };
+      }
+
+      case 'type':
+        await executeInputAction(this.page, { type: 'type', value: step.text });
+        return { passed: true, detail: `"${step.text}"` };
+
+      case 'wait':
+        await new Promise((resolve) => setTimeout(resolve, step.duration));
+        return { passed: true, detail: `${step.duration}ms` };
+
+      case 'screenshot': {
+        const screenshot = await this.evidence.captureScreenshot(this.page, step.description);
+        return { passed: true, detail: step.description, screenshot };
+      }
+
+      case 'expect-change':
+        return this.expectChange(step);
+
+      case 'expect-text':
+        return this.expectText(step);
+    }
+  }
+
+  /**
+   * Wait up to the timeout for the screen to differ from the frame before the latest input
+   */
+  private async expectChange(
+    step: Extract<ScenarioStep, { type: 'expect-change' }>
+  ): Promise<Omit<ScenarioStepResult, 'index' | 'type' | 'duration_ms'>> {
+    if (!this.referenceFrame) {
+      return { passed: false, detail: 'no input before expect-change to compare against' };
+    }
+
+    const detector = new StateChangeDetector({
+      threshold: step.threshold ?? this.diffThreshold,
+      saveDiffMask: false,
+    });
+    const deadline = Date.now() + step.timeout;
+    let lastRatio = 0;
+
+    do {
+      const result = detector.compareBuffers(this.referenceFrame, await this.page.screenshot());
+      lastRatio = result.diffRatio ?? 0;
+      if (result.changed) {
+        return { passed: true, detail: `${(lastRatio * 100).toFixed(2)}% of pixels changed` };
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    } while (Date.now() < deadline);
+
+    const screenshot = await this.evidence.captureScreenshot(this.page, 'expect-change failed');
+    return {
+      passed: false,
+      detail: `screen did not change within ${step.timeout}ms (${(lastRatio * 100).toFixed(3)}% of pixels changed, threshold ${(detector.getThreshold() * 100).toFixed(3)}%)`,
+      screenshot,
+    };
+  }
+
+  /**
+   * Wait up to the timeout for text to appear (or disappear, with absent: true)
+   */
+  private async expectText(
+    step: Extract<ScenarioStep, { type: 'expect-text' }>
+  ): Promise<Omit<ScenarioStepResult, 'index' | 'type' | 'duration_ms'>> {
+    const where = step.selector ? ` in ${step.selector}` : '';
+    const deadline = Date.now() + step.timeout;
+
+    do {
+      const text: string | null = await this.page.evaluate((selector: string | null) => {
+        const element = selector ? document.querySelector(selector) : document.body;
+        if (!element) return null;
+        return (element as HTMLElement).innerText ?? element.textContent ?? '';
+      }, step.selector ?? null);
+
+      const found = text !== null && text.includes(step.text);
+      if (found !== step.absent) {
+        return { passed: true, detail: `"${step.text}" ${step.absent ? 'absent' : 'found'}${where}` };
+      }
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    } while (Date.now() < deadline);
+
+    const screenshot = await this.evidence.captureScreenshot(this.page, 'expect-text failed');
+    return {
+      passed: false,
+      detail: step.absent
+        ? `"${step.text}" still shown${where} after ${step.timeout}ms`
+        : `"${step.text}" not found${where} within ${step.timeout}ms`,
+      screenshot,
+    };
+  }
+
+  /**
+   * Turn a failed step into an issue
+   */
+  private toIssue(step: ScenarioStep, result: ScenarioStepResult): Issue {
+    const label = `Scenario step ${result.index + 1} (${step.type})`;
+    switch (step.type) {
+      case 'expect-change':
+        return {
+          type: 'unresponsive',
+          severity: step.severity,
+          description: `${label}: ${result.detail}`,
+          detected_at_ms: Date.now() - this.startTime,
+        };
+      case 'expect-text':
+        return {
+          type: 'other',
+          severity: step.severity,
+          description: `${label}: ${result.detail}`,
+          detected_at_ms: Date.now() - this.startTime,
+        };
+      default:
+        // The input itself failed (e.g., selector not found)
+        return {
+          type: 'other',
+          severity: 'major',
+          description: `${label} failed: ${result.detail}`,
+          detected_at_ms: Date.now() - this.startTime,
+        };
+    }
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * Config File Module
+ *
+ * Loads run settings from qa.config.json / qa.config.ts so they don't have to be
+ * repeated as CLI flags:
+ * - Test options (timeout, screenshots, output, browser, device profile, LLM, diff threshold, report formats,
+ *   HAR limits, frame recording, performance and memory thresholds)
+ * - Interaction loop limits and input mode (maxActions, timePerAction, maxSuccessfulActions, inputMode, ...)
+ * - OPERATION_TIMEOUTS replacements and per-phase timeout budgets
+ * - Per-URL-pattern overrides
+ *
+ * Precedence (later wins): built-in defaults < config file < matching overrides < batch entry < CLI flags
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import type { DeviceProfileName, InteractionSettings, QAConfig, ReportFormat } from './types.js';
+import { ErrorTemplates } from './error-handler.js';
+import { OPERATION_TIMEOUTS, type OperationTimeoutKey } from '../utils/timeout-utils.js';
+import { BUDGET_PHASES, type BudgetPhase } from '../utils/timeout-budget.js';
+import { REPORT_FORMATS } from '../evidence/report-writers.js';
+import { DEVICE_PROFILE_NAMES } from '../browser/device-profiles.js';
+
+/**
+ * Files looked up in the working directory when no --config is given (first match wins)
+ */
+export const CONFIG_FILE_NAMES = ['qa.config.ts', 'qa.config.json'];
+
+/**
+ * Interaction loop limits used when neither the config file nor the caller sets them
+ */
+export const DEFAULT_INTERACTION_SETTINGS: Required<InteractionSettings> = {
+  maxActions: 10,
+  timePerAction: 2000,
+  maxSuccessfulActions: 2,
+  maxConsecutiveFailures: 3,
+  inputMode: 'direct',
+};
+
+/**
+ * Schema for LLM provider / model selection (config files and batch files)
+ */
+export const llmConfigSchema = z.object({
+  provider: z.enum(['openai', 'anthropic', 'google', 'openai-compatible']).optional(),
+  baseUrl: z.string().url().optional(),
+  model: z.string().min(1).optional(),
+  models: z
+    .object({
+      analysis: z.string().min(1).optional(),
+      state: z.string().min(1).optional(),
+      evaluation: z.string().min(1).optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Schema for a device profile name (config files, batch files and scenarios)
+ */
+export const deviceProfileSchema = z.enum(DEVICE_PROFILE_NAMES as [DeviceProfileName, ...DeviceProfileName[]]);
+
+const interactionSettingsSchema = z
+  .object({
+    maxActions: z.number().int().positive().optional(),
+    timePerAction: z.number().int().positive().optional(),
+    maxSuccessfulActions: z.number().int().positive().optional(),
+    maxConsecutiveFailures: z.number().int().positive().optional(),
+    inputMode: z.enum(['direct', 'act']).optional(),
+  })
+  .strict();
+
+const timeoutOverridesSchema = z
+  .object(
+    Object.fromEntries(
+      (Object.keys(OPERATION_TIMEOUTS) as OperationTimeoutKey[]).map((key) => [key, z.number().int().positive().optional()])
+    ) as Record<OperationTimeoutKey, z.ZodOptional<z.ZodNumber>>
+  )
+  .strict();
+
+const phaseBudgetsSchema = z
+  .object(
+    Object.fromEntries(BUDGET_PHASES.map((phase) => [phase, z.number().int().positive().optional()])) as Record<
+      BudgetPhase,
+      z.ZodOptional<z.ZodNumber>
+    >
+  )
+  .strict();
+
+const harSettingsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    maxBodySize: z.number().int().min(0).optional(),
+    maxTotalBodySize: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+const recordingSettingsSchema = z
+  .object({
+    enabled: z.boolean().optional(),
+    fps: z.number().positive().max(30).optional(),
+    quality: z.number().int().min(1).max(100).optional(),
+    maxFrames: z.number().int().positive().optional(),
+    video: z.boolean().optional(),
+  })
+  .strict();
+
+const performanceThresholdsSchema = z
+  .object({
+    minFps: z.number().min(0).optional(),
+    maxP95FrameTime: z.number().positive().optional(),
+    maxLongTasks: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+const memoryThresholdsSchema = z
+  .object({
+    maxGrowthRate: z.number().positive().optional(),
+  })
+  .strict();
+
+/**
+ * Settings allowed at the top level and in each override
+ */
+const settingsSchema = z
+  .object({
+    timeout: z.number().int().positive().optional(),
+    screenshots: z.number().int().positive().optional(),
+    output: z.string().min(1).optional(),
+    browser: z.enum(['browserbase', 'local']).optional(),
+    device: deviceProfileSchema.optional(),
+    headed: z.boolean().optional(),
+    llm: llmConfigSchema.optional(),
+    diffThreshold: z.number().min(0).max(1).optional(),
+    interaction: interactionSettingsSchema.optional(),
+    timeouts: timeoutOverridesSchema.optional(),
+    budget: phaseBudgetsSchema.optional(),
+    reports: z.array(z.enum(REPORT_FORMATS as [ReportFormat, ...ReportFormat[]])).optional(),
+    har: harSettingsSchema.optional(),
+    recording: recordingSettingsSchema.optional(),
+    performance: performanceThresholdsSchema.optional(),
+    memory: memoryThresholdsSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a config file
+ */
+const configFileSchema = settingsSchema
+  .extend({
+    overrides: z
+      .array(
+        settingsSchema.extend({
+          match: z.string().min(1), // Glob ("*" wildcards) or /regex/ tested against the game URL or path
+        })
+      )
+      .optional(),
+  })
+  .strict();
+
+export type QAConfigFile = z.infer<typeof configFileSchema>;
+type FileSettings = z.infer<typeof settingsSchema>;
+
+/**
+ * A loaded config file
+ */
+export interface LoadedConfigFile {
+  path: string;
+  config: QAConfigFile;
+}
+
+/**
+ * Check whether a game URL or path matches an override pattern
+ *
+ * @param pattern - Glob with "*" wildcards (whole-string match) or /regex/
+ * @param gameUrl - Game URL or local path as given to the agent
+ * @returns true if the override applies
+ */
+export function matchesGamePattern(pattern: string, gameUrl: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    return new RegExp(regex[1]!, regex[2]).test(gameUrl);
+  }
+
+  const glob = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${glob}$`, 'i').test(gameUrl);
+}
+
+/**
+ * Validate a parsed config file
+ *
+ * @param raw - Parsed JSON / module export
+ * @param filePath - Source path (for errors)
+ * @returns Validated config
+ */
+export function parseConfigFile(raw: unknown, filePath: string): QAConfigFile {
+  const parsed = configFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const reason = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw ErrorTemplates.invalidConfigFile(filePath, reason);
+  }
+  return parsed.data;
+}
+
+/**
+ * Load a config file
+ * With no path, looks for qa.config.ts / qa.config.json in the working directory
+ *
+ * @param filePath - Explicit config path (e.g., from --config); must exist when given
+ * @returns Loaded config, or null when no path was given and none was found
+ */
+export async function loadConfigFile(filePath?: string): Promise<LoadedConfigFile | null> {
+  const path = filePath
+    ? resolve(filePath)
+    : CONFIG_FILE_NAMES.map((name) => resolve(name)).find((candidate) => existsSync(candidate));
+  if (!path) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    if (extname(path).toLowerCase() === '.json') {
+      raw = JSON.parse(await readFile(path, 'utf-8'));
+    } else {
+      // .ts / .js configs export the settings object (default export or named "config")
+      const module = await import(pathToFileURL(path).href);
+      raw = module.default ?? module.config;
+    }
+  } catch (error) {
+    throw ErrorTemplates.invalidConfigFile(path, error instanceof Error ? error.message : String(error));
+  }
+
+  return { path, config: parseConfigFile(raw, path) };
+}
+
+/**
+ * Drop undefined values so they don't hide lower-precedence settings when spread
+ */
+function defined<T extends object>(value: T | undefined): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Merge config layers; later layers win, nested settings merge key by key
+ *
+ * @param layers - Partial configs from lowest to highest precedence
+ * @returns Merged config
+ */
+export function mergeConfigs(...layers: Array<Partial<QAConfig> | undefined>): Partial<QAConfig> {
+  return layers.reduce<Partial<QAConfig>>((merged, layer) => {
+    if (!layer) return merged;
+    const next: Partial<QAConfig> = { ...merged, ...defined(layer) };
+    if (merged.llm || layer.llm) {
+      next.llm = { ...merged.llm, ...defined(layer.llm) };
+      if (merged.llm?.models || layer.llm?.models) {
+        next.llm.models = { ...merged.llm?.models, ...defined(layer.llm?.models) };
+      }
+    }
+    if (merged.interaction || layer.interaction) {
+      next.interaction = { ...merged.interaction, ...defined(layer.interaction) };
+    }
+    if (merged.timeouts || layer.timeouts) {
+      next.timeouts = { ...merged.timeouts, ...defined(layer.timeouts) };
+    }
+    if (merged.budget || layer.budget) {
+      next.budget = { ...merged.budget, ...defined(layer.budget) };
+    }
+    if (merged.har || layer.har) {
+      next.har = { ...merged.har, ...defined(layer.har) };
+    }
+    if (merged.recording || layer.recording) {
+      next.recording = { ...merged.recording, ...defined(layer.recording) };
+    }
+    if (merged.performance || layer.performance) {
+      next.performance = { ...merged.performance, ...defined(layer.performance) };
+    }
+    if (merged.memory || layer.memory) {
+      next.memory = { ...merged.memory, ...defined(layer.memory) };
+    }
+    return next;
+  }, {});
+}
+
+/**
+ * Map config file field names onto QAConfig
+ */
+function toQAConfig(settings: FileSettings): Partial<QAConfig> {
+  return {
+    timeout: settings.timeout,
+    screenshotCount: settings.screenshots,
+    outputDir: settings.output,
+    browser: settings.browser,
+    device: settings.device,
+    headed: settings.headed,
+    llm: settings.llm,
+    diffThreshold: settings.diffThreshold,
+    interaction: settings.interaction,
+    timeouts: settings.timeouts,
+    budget: settings.budget,
+    reports: settings.reports,
+    har: settings.har,
+    recording: settings.recording,
+    performance: settings.performance,
+    memory: settings.memory,
+  };
+}
+
+/**
+ * Apply a loaded config file underneath an explicit config
+ * Settings already present in config (CLI flags, batch entries) always win
+ *
+ * @param config - Explicit config
+ * @param loaded - Loaded config file (null leaves config unchanged)
+ * @returns Config with file settings and matching overrides filled in
+ */
+export function applyConfigFileSettings(config: QAConfig, loaded: LoadedConfigFile | null): QAConfig {
+  if (!loaded) {
+    return config;
+  }
+
+  const { overrides = [], ...base } = loaded.config;
+  const matching = overrides.filter((override) => matchesGamePattern(override.match, config.gameUrl));
+
+  const merged = mergeConfigs(
+    toQAConfig(base),
+    ...matching.map(({ match: _match, ...settings }) => toQAConfig(settings)),
+    config
+  );
+
+  return {
+    ...merged,
+    gameUrl: config.gameUrl,
+    configSource: { path: loaded.path, overrides: matching.map((override) => override.match) },
+  };
+}
+
+/**
+ * Load the config file (explicit or discovered) and apply it underneath config
+ *
+ * @param config - Config built from CLI flags
+ * @param configPath - Explicit --config path
+ * @returns Effective config
+ */
+export async function applyConfigFile(config: QAConfig, configPath?: string): Promise<QAConfig> {
+  const loaded = await loadConfigFile(configPath);
+  if (loaded) {
+    console.log(`⚙️  Config: ${loaded.path}`);
+  }
+  return applyConfigFileSettings(config, loaded);
+}
+
+/**
+ * Fill unset interaction limits with defaults
+ *
+ * @param settings - Configured limits
+ * @returns Complete limits
+ */
+export function resolveInteractionSettings(settings: InteractionSettings = {}): Required<InteractionSettings> {
+  return {
+    maxActions: settings.maxActions ?? DEFAULT_INTERACTION_SETTINGS.maxActions,
+    timePerAction: settings.timePerAction ?? DEFAULT_INTERACTION_SETTINGS.timePerAction,
+    maxSuccessfulActions: settings.maxSuccessfulActions ?? DEFAULT_INTERACTION_SETTINGS.maxSuccessfulActions,
+    maxConsecutiveFailures: settings.maxConsecutiveFailures ?? DEFAULT_INTERACTION_SETTINGS.maxConsecutiveFailures,
+    inputMode: settings.inputMode ?? DEFAULT_INTERACTION_SETTINGS.inputMode,
+  };
+}
@@ -21,6 +21,17 @@ export const ErrorCodes = {
   CONFIG_MISSING_API_KEY: 'CONFIG_MISSING_API_KEY',
   CONFIG_INVALID_URL: 'CONFIG_INVALID_URL',
   CONFIG_INVALID_TIMEOUT: 'CONFIG_INVALID_TIMEOUT',
+  CONFIG_INVALID_BROWSER: 'CONFIG_INVALID_BROWSER',
+  CONFIG_INVALID_DEVICE: 'CONFIG_INVALID_DEVICE',
+  CONFIG_INVALID_BATCH_FILE: 'CONFIG_INVALID_BATCH_FILE',
+  CONFIG_INVALID_LLM: 'CONFIG_INVALID_LLM',
+  CONFIG_INVALID_SESSION_FILE: 'CONFIG_INVALID_SESSION_FILE',
+  CONFIG_INVALID_SCENARIO: 'CONFIG_INVALID_SCENARIO',
+  CONFIG_INVALID_CONFIG_FILE: 'CONFIG_INVALID_CONFIG_FILE',
+  CONFIG_INVALID_REPORT_FORMAT: 'CONFIG_INVALID_REPORT_FORMAT',
+  CONFIG_INVALID_RUN: 'CONFIG_INVALID_RUN',
+  CONFIG_INVALID_BASELINE: 'CONFIG_INVALID_BASELINE',
+  CONFIG_INVALID_OPTION: 'CONFIG_INVALID_OPTION',
 
   // Browser errors
   BROWSER_INIT_FAILED: 'BROWSER_INIT_FAILED',
@@ -43,6 +54,9 @@ export const ErrorCodes = {
   LLM_RESPONSE_INVALID: 'LLM_RESPONSE_INVALID',
   EVALUATION_TIMEOUT: 'EVALUATION_TIMEOUT',
 
+  // Timeout budget errors
+  BUDGET_EXHAUSTED: 'BUDGET_EXHAUSTED',
+
   // General errors
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   NOT_IMPLEMENTED: 'NOT_IMPLEMENTED',
@@ -120,6 +134,96 @@ export const ErrorTemplates = {
         `Check internet connection is working`,
         `Try running another simple test to isolate the issue`,
         `Check Browserbase service status`,
+        `For --browser local, ensure Chrome/Chromium is installed (or set CHROME_PATH)`,
+      ]
+    ),
+
+  deviceEmulationFailed: (label: string) =>
+    createError(
+      `Could not emulate ${label}`,
+      ErrorCodes.BROWSER_INIT_FAILED,
+      `The run would use the browser's default viewport but be reported as ${label}`,
+      [
+        `Check the warning above for the reason the device profile was rejected`,
+        `Use --device desktop to run without emulation`,
+      ]
+    ),
+
+  invalidBrowserProvider: (value: string, supported: readonly string[]) =>
+    createError(
+      `Unknown browser provider: "${value}"`,
+      ErrorCodes.CONFIG_INVALID_BROWSER,
+      `Supported browser providers: ${supported.join(', ')}`,
+      [
+        `Use --browser browserbase to run in a remote Browserbase session`,
+        `Use --browser local to launch Chromium on this machine`,
+      ]
+    ),
+
+  invalidDeviceProfile: (value: string, supported: readonly string[]) =>
+    createError(
+      `Unknown device profile: "${value}"`,
+      ErrorCodes.CONFIG_INVALID_DEVICE,
+      `Supported device profiles: ${supported.join(', ')}`,
+      [
+        `Use --device desktop (1280x720) or --device desktop-hd (1920x1080) for desktop games`,
+        `Use --device iphone or --device android-tablet (add -landscape for landscape) to test with touch`,
+      ]
+    ),
+
+  invalidReportFormat: (value: string, supported: readonly string[]) =>
+    createError(
+      `Unknown report format: "${value}"`,
+      ErrorCodes.CONFIG_INVALID_REPORT_FORMAT,
+      `Supported report formats: ${supported.join(', ')}`,
+      [
+        `Pass a comma-separated list, e.g. --report junit,md`,
+        `test-output.json is always written; junit adds junit.xml and md adds report.md`,
+      ]
+    ),
+
+  invalidOptionValue: (option: string, value: string, expected: string) =>
+    createError(
+      `Invalid value for ${option}: "${value}"`,
+      ErrorCodes.CONFIG_INVALID_OPTION,
+      `${option} expects ${expected}`,
+      [
+        `Check the value passed after ${option}`,
+        `Leave the option out to use its default`,
+      ]
+    ),
+
+  invalidLLMProvider: (value: string, supported: readonly string[]) =>
+    createError(
+      `Unknown LLM provider: "${value}"`,
+      ErrorCodes.CONFIG_INVALID_LLM,
+      `Supported LLM providers: ${supported.join(', ')}`,
+      [
+        `Use --llm-provider (or QA_LLM_PROVIDER) to choose the provider`,
+        `Use openai-compatible with QA_LLM_BASE_URL for local servers (Ollama, llama.cpp, vLLM)`,
+      ]
+    ),
+
+  llmModelRequired: (provider: string, role: string) =>
+    createError(
+      `No model configured for the ${role} role with provider "${provider}"`,
+      ErrorCodes.CONFIG_INVALID_LLM,
+      `This provider has no default model - it must be named explicitly`,
+      [
+        `Set QA_LLM_MODEL to use one model for every role`,
+        `Or set QA_MODEL_${role.toUpperCase()} for this role only`,
+        `The model must accept image input (a vision-capable model)`,
+      ]
+    ),
+
+  llmBaseUrlRequired: (provider: string) =>
+    createError(
+      `Provider "${provider}" requires a base URL`,
+      ErrorCodes.CONFIG_INVALID_LLM,
+      `OpenAI-compatible servers are reached through their /v1 endpoint`,
+      [
+        `Set QA_LLM_BASE_URL (e.g., http://localhost:11434/v1 for Ollama)`,
+        `Or pass --llm-base-url <url>`,
       ]
     ),
 
@@ -136,6 +240,92 @@ export const ErrorTemplates = {
       ]
     ),
 
+  budgetExhausted: (phase: string, phaseMs: number, totalMs: number) =>
+    createError(
+      `Timeout budget exhausted during ${phase} (${phaseMs}ms available, ${totalMs}ms overall)`,
+      ErrorCodes.BUDGET_EXHAUSTED,
+      `The ${phase} phase did not finish before its share of the overall timeout ran out`,
+      [
+        `Raise the overall budget with --timeout (or "timeout" in qa.config.json)`,
+        `Or give this phase more time with "budget": { "${phase}": <ms> } in qa.config.json`,
+        `metadata.timeout_budget in the result shows how long each phase took`,
+      ]
+    ),
+
+  invalidBatchFile: (path: string, reason: string) =>
+    createError(
+      `Invalid batch file ${path}: ${reason}`,
+      ErrorCodes.CONFIG_INVALID_BATCH_FILE,
+      `A batch file is a JSON array of games, or an object with a "games" array`,
+      [
+        `Each game is a URL/path string or an object with a "url" field`,
+        `Optional per-game fields: name, timeout, screenshots, browser, headed, llm, diffThreshold`,
+        `Optional top-level fields: concurrency, defaults`,
+        `Validate the file with a JSON linter`,
+      ]
+    ),
+
+  invalidSessionFile: (path: string, reason: string) =>
+    createError(
+      `Invalid session file ${path}: ${reason}`,
+      ErrorCodes.CONFIG_INVALID_SESSION_FILE,
+      `Replay needs a session.json recorded by a previous test run`,
+      [
+        `Session files are saved in each run's evidence directory (test-results/<game>/<run>/session.json)`,
+        `Runs recorded before session recording was added have no session file`,
+        `Do not edit the "version" or "steps" fields by hand`,
+      ]
+    ),
+
+  invalidConfigFile: (path: string, reason: string) =>
+    createError(
+      `Invalid config file ${path}: ${reason}`,
+      ErrorCodes.CONFIG_INVALID_CONFIG_FILE,
+      `qa.config.json / qa.config.ts holds default settings and per-game overrides`,
+      [
+        `Top-level fields: timeout, screenshots, output, browser, device, headed, llm, diffThreshold, interaction, timeouts, budget, reports, har, recording, performance, memory, overrides`,
+        `interaction: maxActions, timePerAction, maxSuccessfulActions, maxConsecutiveFailures`,
+        `timeouts: STAGEHAND_ACT, STAGEHAND_OBSERVE, INTERACTION_LOOP, AI_EVALUATION, OVERALL_TEST (milliseconds)`,
+        `budget: navigation, analysis, interaction, evaluation (milliseconds)`,
+        `overrides: [{ "match": "*itch.io*", ...settings }] - glob or /regex/ matched against the game URL`,
+        `A .ts config must export the settings object as default`,
+      ]
+    ),
+
+  invalidRunDirectory: (path: string, reason: string) =>
+    createError(
+      `Cannot read test run ${path}: ${reason}`,
+      ErrorCodes.CONFIG_INVALID_RUN,
+      `Comparison needs run directories containing test-output.json (and ideally manifest.json)`,
+      [
+        `Run directories look like test-results/<gameId>/<timestamp>/`,
+        `Runs that errored before evaluation have no test-output.json`,
+      ]
+    ),
+
+  invalidBaseline: (path: string, reason: string) =>
+    createError(
+      `Invalid baseline ${path}: ${reason}`,
+      ErrorCodes.CONFIG_INVALID_BASELINE,
+      `baseline.json points at the golden run of a game, inside test-results/<gameId>/`,
+      [
+        `Mark a run again with: qa-agent baseline test-results/<gameId>/<timestamp>`,
+        `Remove the pointer with: qa-agent baseline test-results/<gameId> --clear`,
+      ]
+    ),
+
+  invalidScenarioFile: (path: string, reason: string) =>
+    createError(
+      `Invalid scenario file ${path}: ${reason}`,
+      ErrorCodes.CONFIG_INVALID_SCENARIO,
+      `A scenario is a YAML or JSON object with a "url" and a list of "steps"`,
+      [
+        `Each step is a single-key object: press, hold, click, type, wait, expect-change, expect-text or screenshot`,
+        `Example: - press: Enter   /   - click: { x: 200, y: 150 }   /   - expect-text: "Game over"`,
+        `Optional top-level fields: name, browser, headed, timeout, evaluate`,
+      ]
+    ),
+
   llmApiError: (service: string, status: string) =>
     createError(
       `${service} API error: ${status}`,
@@ -149,6 +339,29 @@ export const ErrorTemplates = {
       ]
     ),
 
+  localGameNotFound: (path: string) =>
+    createError(
+      `Local game build not found: ${path}`,
+      ErrorCodes.CONFIG_INVALID_URL,
+      `Local games must be a directory, an .html file, or a .zip archive`,
+      [
+        `Check the path exists and is readable`,
+        `Point at the build output folder that contains index.html`,
+        `Use an http:// or https:// URL for hosted games`,
+      ]
+    ),
+
+  localGameRequiresLocalBrowser: (path: string) =>
+    createError(
+      `Cannot test local build ${path} with a remote Browserbase session`,
+      ErrorCodes.CONFIG_INVALID_BROWSER,
+      `Local builds are served from 127.0.0.1, which remote browsers cannot reach`,
+      [
+        `Use --browser local (the default for local paths)`,
+        `Or deploy the build and test its public URL`,
+      ]
+    ),
+
   gameNotFound: (url: string) =>
     createError(
       `Game page returned 404 or is not accessible: ${url}`,
@@ -0,0 +1,237 @@
+/**
+ * LLM Provider Module
+ *
+ * Single place where language models are chosen, so every LLM call site
+ * (GameAnalyzer, GameStateAnalyzer, AIEvaluator) uses the same backend:
+ * - OpenAI (default)
+ * - Anthropic
+ * - Google (Gemini)
+ * - Any OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio) via base URL
+ *
+ * Models are picked per role, so frequent per-action checks can use a cheap model
+ * while the final evaluation uses a strong one.
+ */
+
+import { createOpenAI } from '@ai-sdk/openai';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+import type { LLMConfig, LLMProviderName, ModelRole } from './types.js';
+import { ErrorTemplates } from './error-handler.js';
+
+export const LLM_PROVIDERS: readonly LLMProviderName[] = [
+  'openai',
+  'anthropic',
+  'google',
+  'openai-compatible',
+];
+
+/**
+ * Default models per provider and role (all must accept image input)
+ * openai-compatible servers have no defaults - the model must be named explicitly
+ */
+const DEFAULT_MODELS: Record<LLMProviderName, Partial<Record<ModelRole, string>>> = {
+  openai: { analysis: 'gpt-4o', state: 'gpt-4o-mini', evaluation: 'gpt-4o' },
+  anthropic: { analysis: 'claude-sonnet-4-5', state: 'claude-haiku-4-5', evaluation: 'claude-sonnet-4-5' },
+  google: { analysis: 'gemini-2.5-pro', state: 'gemini-2.5-flash', evaluation: 'gemini-2.5-pro' },
+  'openai-compatible': {},
+};
+
+/**
+ * Human-readable provider names for log output
+ */
+const PROVIDER_LABELS: Record<LLMProviderName, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  google: 'Google',
+  'openai-compatible': 'OpenAI-compatible',
+};
+
+/**
+ * Check whether a string names a supported LLM provider
+ *
+ * @param value - Candidate provider name
+ * @returns true if value is an LLMProviderName
+ */
+export function isLLMProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a provider name from CLI/env input
+ *
+ * @param value - Raw provider name (case-insensitive)
+ * @returns Validated provider name
+ */
+export function parseLLMProviderName(value: string): LLMProviderName {
+  const normalized = value.trim().toLowerCase();
+  if (!isLLMProviderName(normalized)) {
+    throw ErrorTemplates.invalidLLMProvider(value, LLM_PROVIDERS);
+  }
+  return normalized;
+}
+
+/**
+ * Build an LLM config from raw CLI flag values
+ *
+ * @param options - --llm-provider, --llm-base-url and --model values
+ * @returns LLM config, or undefined when no flag was given (environment decides)
+ */
+export function parseLLMCliOptions(options: {
+  provider?: string;
+  baseUrl?: string;
+  model?: string;
+}): LLMConfig | undefined {
+  if (!options.provider && !options.baseUrl && !options.model) {
+    return undefined;
+  }
+  return {
+    provider: options.provider ? parseLLMProviderName(options.provider) : undefined,
+    baseUrl: options.baseUrl,
+    model: options.model,
+  };
+}
+
+/**
+ * Fill unset LLM config fields from QA_LLM_* / QA_MODEL_* environment variables
+ *
+ * @param config - Explicit config (CLI, batch file or library caller)
+ * @returns Config with environment fallbacks applied
+ */
+export function resolveLLMConfig(config: LLMConfig = {}): LLMConfig {
+  const env = process.env;
+  const provider =
+    config.provider ?? (env.QA_LLM_PROVIDER ? parseLLMProviderName(env.QA_LLM_PROVIDER) : 'openai');
+
+  return {
+    provider,
+    baseUrl: config.baseUrl || env.QA_LLM_BASE_URL || undefined,
+    apiKey: config.apiKey || env.QA_LLM_API_KEY || undefined,
+    model: config.model || env.QA_LLM_MODEL || undefined,
+    models: {
+      analysis: config.models?.analysis || env.QA_MODEL_ANALYSIS || undefined,
+      state: config.models?.state || env.QA_MODEL_STATE || undefined,
+      evaluation: config.models?.evaluation || env.QA_MODEL_EVALUATION || undefined,
+    },
+  };
+}
+
+/**
+ * Resolves language models for each role from one configured provider
+ */
+export class ModelProvider {
+  readonly name: LLMProviderName;
+  readonly label: string;
+  private readonly config: LLMConfig;
+  private readonly factory: (modelName: string) => LanguageModel;
+
+  constructor(config: LLMConfig = {}) {
+    this.config = resolveLLMConfig(config);
+    this.name = this.config.provider!;
+    this.label = PROVIDER_LABELS[this.name];
+    this.factory = this.createFactory();
+  }
+
+  /**
+   * Get the model name configured for a role
+   * Precedence: per-role override, shared model, provider default
+   *
+   * @param role - LLM call site
+   * @returns Model name
+   */
+  getModelName(role: ModelRole): string {
+    const modelName = this.config.models?.[role] || this.config.model || DEFAULT_MODELS[this.name][role];
+    if (!modelName) {
+      throw ErrorTemplates.llmModelRequired(this.name, role);
+    }
+    return modelName;
+  }
+
+  /**
+   * Get the language model for a role
+   *
+   * @param role - LLM call site
+   * @returns AI SDK language model
+   */
+  getModel(role: ModelRole): LanguageModel {
+    return this.factory(this.getModelName(role));
+  }
+
+  /**
+   * Describe the model used for a role (for logs and test metadata)
+   *
+   * @param role - LLM call site
+   * @returns e.g. "OpenAI gpt-4o"
+   */
+  describe(role: ModelRole): string {
+    return `${this.label} ${this.getModelName(role)}`;
+  }
+
+  /**
+   * Summarize provider and per-role models for test metadata
+   */
+  getSummary(): { provider: LLMProviderName; base_url?: string; models: Record<ModelRole, string> } {
+    return {
+      provider: this.name,
+      ...(this.config.baseUrl && { base_url: this.config.baseUrl }),
+      models: {
+        analysis: this.getModelName('analysis'),
+        state: this.getModelName('state'),
+        evaluation: this.getModelName('evaluation'),
+      },
+    };
+  }
+
+  /**
+   * Build the provider-specific model factory, validating credentials up front
+   */
+  private createFactory(): (modelName: string) => LanguageModel {
+    const { apiKey, baseUrl } = this.config;
+
+    switch (this.name) {
+      case 'openai': {
+        const key = apiKey || process.env.OPENAI_API_KEY;
+        if (!key) {
+          throw ErrorTemplates.missingApiKey('OpenAI');
+        }
+        const provider = createOpenAI({ apiKey: key, baseURL: baseUrl });
+        return (modelName) => provider(modelName);
+      }
+      case 'anthropic': {
+        const key = apiKey || process.env.ANTHROPIC_API_KEY;
+        if (!key) {
+          throw ErrorTemplates.missingApiKey('ANTHROPIC');
+        }
+        const provider = createAnthropic({ apiKey: key, baseURL: baseUrl });
+        return (modelName) => provider(modelName);
+      }
+      case 'google': {
+        const key = apiKey || process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+        if (!key) {
+          throw ErrorTemplates.missingApiKey('GOOGLE_GENERATIVE_AI');
+        }
+        const provider = createGoogleGenerativeAI({ apiKey: key, baseURL: baseUrl });
+        return (modelName) => provider(modelName);
+      }
+      case 'openai-compatible': {
+        if (!baseUrl) {
+          throw ErrorTemplates.llmBaseUrlRequired(this.name);
+        }
+        // Local servers usually don't need a key
+        const provider = createOpenAICompatible({ name: 'openai-compatible', baseURL: baseUrl, apiKey });
+        return (modelName) => provider(modelName);
+      }
+    }
+  }
+}
+
+/**
+ * Create a model provider from config (with environment fallbacks)
+ *
+ * @param config - LLM config (defaults to environment / OpenAI)
+ * @returns Model provider instance
+ */
+export function createModelProvider(config: LLMConfig = {}): ModelProvider {
+  return new ModelProvider(config);
+}
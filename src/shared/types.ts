@@ -2,18 +2,61 @@
  * Core type definitions for DreamUp QA Pipeline
  */
 
+import type { TimeoutOverrides } from '../utils/timeout-utils.js';
+import type { PhaseBudgets } from '../utils/timeout-budget.js';
+
 /**
  * Represents a single action to be executed in the browser
  */
 export interface Action {
-  type: 'click' | 'type' | 'key' | 'wait';
+  type:
+    | 'click'
+    | 'type'
+    | 'key'
+    | 'wait'
+    | 'tap'
+    | 'swipe'
+    | 'keyHold'
+    | 'keyCombo'
+    | 'drag'
+    | 'mouseMove'
+    | 'wheel'
+    | 'dblclick';
   target?: string; // CSS selector or element identifier
-  value?: string; // Text to type or key to press
-  duration?: number; // Wait duration in milliseconds
+  value?: string; // Text to type, key to press or hold, or key combo ("Control+Shift+S")
+  duration?: number; // Wait duration in milliseconds (swipe: gesture length; keyHold: how long the key is held)
+  x?: number; // Tap point / swipe start / mouse position in CSS pixels (default: viewport center)
+  y?: number;
+  direction?: SwipeDirection; // Direction the finger moves
+  distance?: number; // Swipe length in CSS pixels (default: 40% of the viewport along the swipe)
+  from?: InputPoint; // Drag start
+  to?: InputPoint; // Drag end
+  steps?: number; // Intermediate mouse moves for drag / mouseMove
+  deltaX?: number; // Wheel scroll in CSS pixels (positive: right / down)
+  deltaY?: number;
+  modifiers?: KeyModifier[]; // Keys held during click / dblclick / drag / wheel (e.g., ["Shift"])
   timestamp?: number; // When action was created
   result?: ActionResult;
 }
 
+/**
+ * Direction of a swipe gesture
+ */
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * A point in CSS pixels, relative to the viewport
+ */
+export interface InputPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Modifier keys that can be held during pointer input
+ */
+export type KeyModifier = 'Alt' | 'Control' | 'Meta' | 'Shift';
+
 /**
  * Result of executing an action
  */
@@ -36,18 +79,155 @@ export interface PageState {
   errors?: string[]; // Console errors at this point
 }
 
+/**
+ * Where the browser runs: remote Browserbase session or local Chromium
+ */
+export type BrowserProviderName = 'browserbase' | 'local';
+
+/**
+ * Named viewport / device emulation preset (see DEVICE_PROFILES)
+ */
+export type DeviceProfileName =
+  | 'desktop'
+  | 'desktop-hd'
+  | 'iphone'
+  | 'iphone-landscape'
+  | 'android-tablet'
+  | 'android-tablet-landscape';
+
+/**
+ * Kind of local game build being served
+ */
+export type LocalSourceKind = 'directory' | 'file' | 'zip';
+
+/**
+ * A local game build (folder, HTML file or zip) served by the built-in static server
+ */
+export interface LocalGameSource {
+  path: string; // Absolute path to the directory, file or zip as given by the user
+  kind: LocalSourceKind;
+  entry: string; // HTML entry point relative to the served root
+}
+
+/**
+ * LLM backend used for game analysis and evaluation
+ */
+export type LLMProviderName = 'openai' | 'anthropic' | 'google' | 'openai-compatible';
+
+/**
+ * Which LLM call site a model is used for
+ * - analysis: upfront game/controls analysis (GameAnalyzer)
+ * - state: per-action game state checks (GameStateAnalyzer) - called often, a cheap model is fine
+ * - evaluation: final playability assessment (AIEvaluator) - use the strongest model
+ */
+export type ModelRole = 'analysis' | 'state' | 'evaluation';
+
+/**
+ * LLM provider and per-role model selection
+ * Unset fields fall back to QA_LLM_* / QA_MODEL_* environment variables, then provider defaults
+ */
+export interface LLMConfig {
+  provider?: LLMProviderName;
+  baseUrl?: string; // Required for openai-compatible; optional override for openai
+  apiKey?: string; // Overrides the provider's API key environment variable
+  model?: string; // Model for every role unless overridden in models
+  models?: Partial<Record<ModelRole, string>>;
+}
+
+/**
+ * Where file-based settings for a run came from
+ */
+export interface ConfigSource {
+  path: string;
+  overrides: string[]; // "match" patterns of the overrides that applied, in order
+}
+
+/**
+ * Limits for the autonomous interaction loop
+ */
+export interface InteractionSettings {
+  maxActions?: number; // Action cycles per test (default: 10)
+  timePerAction?: number; // Milliseconds budgeted per action (default: 2000)
+  maxSuccessfulActions?: number; // Stop after this many state-changing actions (default: 2)
+  maxConsecutiveFailures?: number; // Stop after this many actions in a row with no change (default: 3)
+  inputMode?: InputMode; // How primitive inputs (keys, typing, coordinate clicks, waits) are sent (default: 'direct')
+}
+
+/**
+ * 'direct': straight to the page's input APIs; 'act': through Stagehand act() (observe + LLM call per input)
+ */
+export type InputMode = 'direct' | 'act';
+
+/**
+ * Network recording (network.har) settings
+ */
+export interface HarSettings {
+  enabled?: boolean; // Record a HAR file (default: true)
+  maxBodySize?: number; // Largest text response body kept, in bytes; 0 keeps none (default: 65536)
+  maxTotalBodySize?: number; // Bodies stop being kept after this many bytes in total (default: 5 MB)
+}
+
+/**
+ * Session recording (frames/ + recording.json) settings
+ */
+export interface RecordingSettings {
+  enabled?: boolean; // Record frames for the whole session (default: false)
+  fps?: number; // Frames kept per second at most (default: 5)
+  quality?: number; // JPEG quality 1-100 (default: 60)
+  maxFrames?: number; // Frames kept at most; later frames are dropped (default: 1500)
+  video?: boolean; // Also assemble recording.webm when ffmpeg is on PATH (default: true)
+}
+
+/**
+ * Limits for frame pacing during interaction; crossing one raises a "performance" issue
+ */
+export interface PerformanceThresholds {
+  minFps?: number; // Average frames per second (default: 30)
+  maxP95FrameTime?: number; // 95th percentile frame time in ms (default: 50)
+  maxLongTasks?: number; // Main-thread tasks over 50ms (default: 10)
+}
+
+/**
+ * Limits for JS heap growth during interaction; steady growth past them raises a memory leak issue
+ */
+export interface MemoryThresholds {
+  maxGrowthRate?: number; // Retained heap growth in KB per second (default: 100)
+}
+
 /**
  * Configuration for QA test execution
  */
 export interface QAConfig {
-  gameUrl: string;
+  gameUrl: string; // http(s) URL, file:// URL, or local path (directory, .html, .zip)
   timeout?: number;
   screenshotCount?: number;
   outputDir?: string;
   headed?: boolean;
+  browser?: BrowserProviderName;
+  device?: DeviceProfileName; // Viewport and touch emulation (default: desktop)
+  llm?: LLMConfig;
+  diffThreshold?: number; // Fraction of changed pixels (0-1) that counts as a state change
+  interaction?: InteractionSettings;
+  timeouts?: TimeoutOverrides; // Replaces OPERATION_TIMEOUTS entries for this run
+  budget?: PhaseBudgets; // Explicit per-phase budgets in ms (others are derived from timeout)
+  reports?: ReportFormat[]; // Extra report files to write next to test-output.json (default: json only)
+  har?: HarSettings; // Network recording and body capture limits
+  recording?: RecordingSettings; // Frame recording of the whole session (off by default)
+  performance?: PerformanceThresholds; // Frame rate / jank limits for "performance" issues
+  memory?: MemoryThresholds; // Heap growth limit for memory leak issues
+  configSource?: ConfigSource; // Config file (and matching overrides) that contributed settings
+  runId?: string; // Appended to the evidence directory name to isolate concurrent runs
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
 }
 
+/**
+ * Report formats written for each run
+ * - json: test-output.json (always written - the viewer reads it)
+ * - junit: junit.xml for CI dashboards
+ * - md: report.md summary for PR comments
+ */
+export type ReportFormat = 'json' | 'junit' | 'md';
+
 /**
  * Result of a single game test
  */
@@ -68,7 +248,7 @@ export interface TestResult {
  * Represents an issue found during testing
  */
 export interface Issue {
-  type: 'crash' | 'unresponsive' | 'load_failure' | 'rendering' | 'other';
+  type: 'crash' | 'unresponsive' | 'load_failure' | 'rendering' | 'performance' | 'other';
   severity: 'critical' | 'major' | 'minor';
   description: string;
   detected_at_ms: number;
@@ -83,6 +263,9 @@ export interface TestMetadata {
   screens_navigated: number;
   browser_errors: number;
   agent_version: string;
+  device_profile?: DeviceProfileName; // Device the run emulated
+  device_emulated?: boolean; // false when the profile couldn't be applied (the backend's default viewport was used)
+  evidence_dir?: string; // Directory holding screenshots, logs and manifest for this run
   [key: string]: any;
 }
 
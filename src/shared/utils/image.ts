@@ -0,0 +1,116 @@
+/**
+ * Image utilities for screenshot processing
+ * Pure-JS PNG decoding, downscaling and JPEG encoding (no native dependencies)
+ */
+
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+
+/**
+ * Decoded RGBA image
+ */
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Buffer; // RGBA, 4 bytes per pixel
+}
+
+/**
+ * Decode a PNG buffer into RGBA pixels
+ *
+ * @param buffer - PNG file contents
+ * @returns Decoded image
+ */
+export function decodePng(buffer: Buffer): RawImage {
+  const png = PNG.sync.read(buffer);
+  return { width: png.width, height: png.height, data: png.data };
+}
+
+/**
+ * Encode RGBA pixels as PNG
+ *
+ * @param image - Image to encode
+ * @returns PNG file contents
+ */
+export function encodePng(image: RawImage): Buffer {
+  const png = new PNG({ width: image.width, height: image.height });
+  image.data.copy(png.data);
+  return PNG.sync.write(png);
+}
+
+/**
+ * Downscale an image to fit within maxDimension (longest side), preserving aspect ratio
+ * Uses box-filter averaging so text and sprites stay legible
+ *
+ * @param image - Source image
+ * @param maxDimension - Maximum width/height in pixels
+ * @returns Resized image (or the original if already small enough)
+ */
+export function downscaleImage(image: RawImage, maxDimension: number): RawImage {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  if (scale >= 1) return image;
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = Buffer.alloc(width * height * 4);
+  const xRatio = image.width / width;
+  const yRatio = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const srcY0 = Math.floor(y * yRatio);
+    const srcY1 = Math.min(image.height, Math.max(srcY0 + 1, Math.floor((y + 1) * yRatio)));
+
+    for (let x = 0; x < width; x++) {
+      const srcX0 = Math.floor(x * xRatio);
+      const srcX1 = Math.min(image.width, Math.max(srcX0 + 1, Math.floor((x + 1) * xRatio)));
+
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = srcY0; sy < srcY1; sy++) {
+        for (let sx = srcX0; sx < srcX1; sx++) {
+          const idx = (sy * image.width + sx) * 4;
+          r += image.data[idx]!;
+          g += image.data[idx + 1]!;
+          b += image.data[idx + 2]!;
+          a += image.data[idx + 3]!;
+        }
+      }
+
+      const count = (srcY1 - srcY0) * (srcX1 - srcX0);
+      const out = (y * width + x) * 4;
+      data[out] = r / count;
+      data[out + 1] = g / count;
+      data[out + 2] = b / count;
+      data[out + 3] = a / count;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode RGBA pixels as JPEG (alpha is dropped)
+ *
+ * @param image - Image to encode
+ * @param quality - JPEG quality 1-100
+ * @returns JPEG file contents
+ */
+export function encodeJpeg(image: RawImage, quality: number = 75): Buffer {
+  return jpeg.encode({ width: image.width, height: image.height, data: image.data }, quality).data;
+}
+
+/**
+ * Re-encode a PNG screenshot as a downscaled JPEG suitable for vision models
+ *
+ * @param pngBuffer - PNG file contents
+ * @param maxDimension - Maximum width/height in pixels
+ * @param quality - JPEG quality 1-100
+ * @returns JPEG bytes and final dimensions
+ */
+export function pngToModelJpeg(
+  pngBuffer: Buffer,
+  maxDimension: number,
+  quality: number
+): { data: Buffer; width: number; height: number } {
+  const resized = downscaleImage(decodePng(pngBuffer), maxDimension);
+  return { data: encodeJpeg(resized, quality), width: resized.width, height: resized.height };
+}
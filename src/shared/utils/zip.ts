@@ -0,0 +1,94 @@
+/**
+ * Minimal ZIP extraction utilities
+ * Supports stored and deflated entries, which covers archives produced by
+ * common zip tools and build pipelines. No external dependencies.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/**
+ * Locate the End Of Central Directory record (scans backwards past any archive comment)
+ */
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const minOffset = Math.max(0, buffer.length - 0xffff - 22);
+  for (let offset = buffer.length - 22; offset >= minOffset; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error('Not a valid zip archive (end of central directory not found)');
+}
+
+/**
+ * Extract a zip archive into a directory
+ *
+ * @param zipPath - Path to the .zip file
+ * @param targetDir - Directory to extract into (created if missing)
+ * @returns Relative paths of extracted files
+ */
+export async function extractZip(zipPath: string, targetDir: string): Promise<string[]> {
+  const buffer = await readFile(zipPath);
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  const root = resolve(targetDir);
+  const extracted: string[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIR_SIGNATURE) {
+      throw new Error(`Corrupt zip archive: bad central directory entry at ${offset}`);
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directory entries carry no data
+    if (name.endsWith('/')) continue;
+
+    // Guard against "zip slip" entries escaping the target directory
+    const destination = resolve(root, name);
+    if (destination !== root && !destination.startsWith(root + sep)) {
+      throw new Error(`Refusing to extract zip entry outside target directory: ${name}`);
+    }
+
+    if (buffer.readUInt32LE(localHeaderOffset) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip archive: bad local header for ${name}`);
+    }
+    const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+    const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+    if (method === METHOD_STORED) {
+      content = data;
+    } else if (method === METHOD_DEFLATE) {
+      content = inflateRawSync(data);
+    } else {
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+
+    await mkdir(dirname(destination), { recursive: true });
+    await writeFile(destination, content);
+    extracted.push(name);
+  }
+
+  return extracted;
+}
@@ -0,0 +1,216 @@
+/**
+ * Timeout budget for a whole test run
+ *
+ * Splits one overall budget (--timeout / config "timeout") into phases:
+ * - navigation: browser start, page load, first screenshot
+ * - analysis: game analysis and action set building
+ * - interaction: the action loop
+ * - evaluation: the AI evaluation call
+ *
+ * Each phase must finish by its cumulative deadline, so time an early phase doesn't use
+ * rolls into the later ones. Whatever the phases don't claim is kept for setup and saving results.
+ */
+
+import { TimeoutError } from './timeout-utils.js';
+
+export type BudgetPhase = 'navigation' | 'analysis' | 'interaction' | 'evaluation';
+
+/**
+ * Phases in the order a test runs them
+ */
+export const BUDGET_PHASES: BudgetPhase[] = ['navigation', 'analysis', 'interaction', 'evaluation'];
+
+/**
+ * Share of the overall budget each phase gets when not set explicitly
+ * Sums to 0.9 - the last 10% covers setup and writing evidence
+ */
+export const DEFAULT_PHASE_SHARES: Record<BudgetPhase, number> = {
+  navigation: 0.15,
+  analysis: 0.15,
+  interaction: 0.4,
+  evaluation: 0.2,
+};
+
+/**
+ * Explicit per-phase budgets in milliseconds (e.g., from a config file)
+ */
+export type PhaseBudgets = Partial<Record<BudgetPhase, number>>;
+
+/**
+ * Timing of one phase, as reported in result metadata
+ */
+export interface PhaseReport {
+  phase: BudgetPhase;
+  budget_ms: number; // Time available when the phase started
+  used_ms: number;
+  exhausted: boolean;
+}
+
+/**
+ * Budget summary for result metadata
+ */
+export interface TimeoutBudgetReport {
+  total_ms: number;
+  elapsed_ms: number;
+  exhausted_phase: BudgetPhase | null; // First phase that ran out of time
+  phases: PhaseReport[];
+}
+
+/**
+ * A phase ran past its deadline
+ */
+export class BudgetExhaustedError extends TimeoutError {
+  constructor(
+    public phase: BudgetPhase,
+    public budgetMs: number
+  ) {
+    super(`${phase} phase`, budgetMs);
+    this.name = 'BudgetExhaustedError';
+  }
+}
+
+/**
+ * Tracks elapsed time against the overall budget and its phases
+ */
+export class TimeoutBudget {
+  private readonly total: number;
+  private readonly allotments: Record<BudgetPhase, number>;
+  private readonly startTime: number = Date.now(); // The clock starts at construction
+  private currentPhase: BudgetPhase | null = null;
+  private phaseStarts = new Map<BudgetPhase, { startedAt: number; budget: number }>();
+  private reports: PhaseReport[] = [];
+
+  /**
+   * @param totalMs - Overall budget in milliseconds
+   * @param phases - Explicit phase budgets (others get their default share of totalMs)
+   */
+  constructor(totalMs: number, phases: PhaseBudgets = {}) {
+    this.total = totalMs;
+    this.allotments = Object.fromEntries(
+      BUDGET_PHASES.map((phase) => [phase, phases[phase] ?? Math.round(totalMs * DEFAULT_PHASE_SHARES[phase])])
+    ) as Record<BudgetPhase, number>;
+  }
+
+  /**
+   * Get the overall budget in milliseconds
+   */
+  getTotal(): number {
+    return this.total;
+  }
+
+  /**
+   * Get time left in the overall budget
+   */
+  remaining(): number {
+    return Math.max(0, this.total - (Date.now() - this.startTime));
+  }
+
+  /**
+   * Get time left before a phase's deadline
+   * The deadline is the sum of this and all earlier phases' allotments, capped at the overall budget
+   *
+   * @param phase - Phase to check
+   * @returns Milliseconds left (0 when the deadline has passed)
+   */
+  remainingFor(phase: BudgetPhase): number {
+    const cumulative = BUDGET_PHASES.slice(0, BUDGET_PHASES.indexOf(phase) + 1).reduce(
+      (sum, p) => sum + this.allotments[p],
+      0
+    );
+    const deadline = this.startTime + Math.min(cumulative, this.total);
+    return Math.max(0, deadline - Date.now());
+  }
+
+  /**
+   * Get the phase currently running (null between phases)
+   */
+  getCurrentPhase(): BudgetPhase | null {
+    return this.currentPhase;
+  }
+
+  /**
+   * Mark a phase as started
+   * Use with end() for phases that stop themselves when time runs out; use run() to enforce the deadline
+   *
+   * @param phase - Phase starting
+   * @returns Milliseconds available to the phase
+   */
+  begin(phase: BudgetPhase): number {
+    const budget = this.remainingFor(phase);
+    this.currentPhase = phase;
+    this.phaseStarts.set(phase, { startedAt: Date.now(), budget });
+    return budget;
+  }
+
+  /**
+   * Mark a phase as finished
+   * The phase counts as exhausted if its deadline (or the overall budget) has passed
+   *
+   * @param phase - Phase finishing
+   */
+  end(phase: BudgetPhase): void {
+    const started = this.phaseStarts.get(phase);
+    if (!started) return;
+    this.phaseStarts.delete(phase);
+
+    const usedMs = Date.now() - started.startedAt;
+    const exhausted = usedMs >= started.budget || this.remaining() === 0;
+    this.reports.push({ phase, budget_ms: started.budget, used_ms: usedMs, exhausted });
+    if (exhausted) {
+      console.warn(`⚠ Timeout budget: ${phase} phase used all of its ${started.budget}ms`);
+    }
+    if (this.currentPhase === phase) {
+      this.currentPhase = null;
+    }
+  }
+
+  /**
+   * Run a phase, rejecting with BudgetExhaustedError if it passes its deadline
+   * The underlying work is not cancelled, only abandoned
+   *
+   * @param phase - Phase to run
+   * @param fn - Work for the phase
+   * @returns Result of fn
+   */
+  async run<T>(phase: BudgetPhase, fn: () => Promise<T>): Promise<T> {
+    const budget = this.begin(phase);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      if (budget === 0) {
+        throw new BudgetExhaustedError(phase, 0);
+      }
+      const deadline = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new BudgetExhaustedError(phase, budget)), budget);
+      });
+      return await Promise.race([fn(), deadline]);
+    } finally {
+      clearTimeout(timer);
+      this.end(phase);
+    }
+  }
+
+  /**
+   * Summarize the budget for result metadata
+   * Phases still running (e.g., when the overall budget ran out) are included as they stand
+   */
+  getReport(): TimeoutBudgetReport {
+    const phases = [...this.reports];
+    for (const [phase, started] of this.phaseStarts) {
+      const usedMs = Date.now() - started.startedAt;
+      phases.push({
+        phase,
+        budget_ms: started.budget,
+        used_ms: usedMs,
+        exhausted: usedMs >= started.budget || this.remaining() === 0,
+      });
+    }
+
+    return {
+      total_ms: this.total,
+      elapsed_ms: Date.now() - this.startTime,
+      exhausted_phase: phases.find((p) => p.exhausted)?.phase ?? null,
+      phases,
+    };
+  }
+}
@@ -65,17 +65,23 @@ export const OPERATION_TIMEOUTS = {
   // AI operations
   AI_EVALUATION: 90_000, // 90 seconds - GPT-4V vision analysis
 
-  // Overall test
-  OVERALL_TEST: 120_000, // 2 minutes - entire test execution
+  // Overall test (QAConfig.timeout / --timeout takes precedence)
+  OVERALL_TEST: 300_000, // 5 minutes - entire test execution, split into phases by TimeoutBudget
 } as const;
 
 export type OperationTimeoutKey = keyof typeof OPERATION_TIMEOUTS;
 
+/**
+ * Per-run replacements for OPERATION_TIMEOUTS (e.g., from a config file)
+ */
+export type TimeoutOverrides = Partial<Record<OperationTimeoutKey, number>>;
+
 /**
  * Get timeout value for an operation
  * @param operation - The operation key
+ * @param overrides - Per-run overrides (default: none)
  * @returns Timeout in milliseconds
  */
-export function getTimeout(operation: OperationTimeoutKey): number {
-  return OPERATION_TIMEOUTS[operation];
+export function getTimeout(operation: OperationTimeoutKey, overrides: TimeoutOverrides = {}): number {
+  return overrides[operation] ?? OPERATION_TIMEOUTS[operation];
 }
@@ -43,9 +43,11 @@ export async function GET(
         contentType = 'image/png';
       } else if (filenamePath.endsWith('.jpg') || filenamePath.endsWith('.jpeg')) {
         contentType = 'image/jpeg';
+      } else if (filenamePath.endsWith('.webm')) {
+        contentType = 'video/webm';
       } else if (filenamePath.endsWith('.log')) {
         contentType = 'text/plain';
-      } else if (filenamePath.endsWith('.json')) {
+      } else if (filenamePath.endsWith('.json') || filenamePath.endsWith('.har')) {
         contentType = 'application/json';
       }
 
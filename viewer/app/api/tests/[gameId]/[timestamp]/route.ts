@@ -24,6 +24,15 @@ interface TestManifest {
   testStartTime: number;
   testEndTime?: number;
   totalDuration?: number;
+  recording?: string;
+}
+
+interface BaselinePointer {
+  run: string;
+  marked_at: string;
+  game_url: string;
+  status: string;
+  playability_score: number;
 }
 
 export async function GET(
@@ -92,11 +101,32 @@ export async function GET(
         testOutput = manifest;
       }
 
+      // Try to read the game's baseline pointer (baseline.json next to the run directories)
+      let baseline: BaselinePointer | null = null;
+      try {
+        const baselinePath = join(resultsDir, gameId, 'baseline.json');
+        baseline = JSON.parse(await readFile(baselinePath, 'utf-8'));
+      } catch {
+        // No baseline marked for this game
+      }
+
+      // Try to read the frame recording index if the session was recorded
+      let recording: unknown = null;
+      if (manifest.recording) {
+        try {
+          recording = JSON.parse(await readFile(join(testPath, manifest.recording), 'utf-8'));
+        } catch {
+          // Recording index missing or unreadable
+        }
+      }
+
       console.log(`✓ Test details loaded successfully`);
       return NextResponse.json({
         manifest,
         consoleLog: consoleLogContent,
         testOutput,
+        baseline,
+        recording,
       });
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
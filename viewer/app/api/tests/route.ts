@@ -28,6 +28,7 @@ interface TestManifest {
 interface TestRun {
   gameId: string;
   timestamp: string;
+  directory: string; // Run directory name (timestamp, plus a run suffix for batch runs)
   gameUrl: string;
   testId: string;
   screenshotCount: number;
@@ -109,6 +110,7 @@ export async function GET() {
             testRuns.push({
               gameId: manifest.gameId,
               timestamp: manifest.timestamp,
+              directory: timestamp,
               gameUrl: manifest.gameUrl,
               testId: manifest.testId,
               screenshotCount: manifest.screenshots.length,
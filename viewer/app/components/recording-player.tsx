@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+
+// recording.json written by the CLI when the session was recorded (--record)
+export interface RecordingIndex {
+  fps: number;
+  duration_ms: number;
+  frames: Array<{ file: string; offset_ms: number }>;
+  dropped_frames: number;
+  markers: Array<{ offset_ms: number; kind: 'action' | 'screenshot' | 'error'; label: string; ok: boolean }>;
+  video?: string;
+}
+
+interface RecordingPlayerProps {
+  recording: RecordingIndex;
+  baseUrl: string; // Files in the run directory are served under this URL
+}
+
+const MARKER_COLORS: Record<RecordingIndex['markers'][number]['kind'], string> = {
+  action: 'bg-blue-500',
+  screenshot: 'bg-purple-500',
+  error: 'bg-red-500',
+};
+
+export default function RecordingPlayer({ recording, baseUrl }: RecordingPlayerProps) {
+  const { frames, markers } = recording;
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const duration = Math.max(recording.duration_ms, 1);
+
+  // Advance in real time: each frame stays up until the next frame's offset
+  useEffect(() => {
+    if (!playing) return;
+    const current = frames[index];
+    const next = frames[index + 1];
+    const timer = setTimeout(
+      () => {
+        if (next) {
+          setIndex(index + 1);
+        } else {
+          setPlaying(false);
+        }
+      },
+      next && current ? next.offset_ms - current.offset_ms : 0
+    );
+    return () => clearTimeout(timer);
+  }, [playing, index, frames]);
+
+  const frameAt = (ms: number) => {
+    let i = 0;
+    while ((frames[i + 1]?.offset_ms ?? Infinity) <= ms) i++;
+    return i;
+  };
+
+  const togglePlay = () => {
+    if (!playing && index >= frames.length - 1) {
+      setIndex(0);
+    }
+    setPlaying(!playing);
+  };
+
+  const frame = frames[index];
+  if (!frame) return null;
+
+  return (
+    <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-black dark:text-zinc-50">
+          Recording ({frames.length} frames, {(recording.duration_ms / 1000).toFixed(1)}s)
+        </h2>
+        {recording.video && (
+          <a
+            href={`${baseUrl}/${recording.video}`}
+            download={recording.video}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Download video
+          </a>
+        )}
+      </div>
+      <div className="relative aspect-video bg-black rounded mb-3">
+        <Image
+          src={`${baseUrl}/${frame.file}`}
+          alt={`Frame ${index + 1} of ${frames.length}`}
+          fill
+          unoptimized
+          className="object-contain"
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlay}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline w-12 text-left"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={index}
+          onChange={(e) => {
+            setPlaying(false);
+            setIndex(Number(e.target.value));
+          }}
+          className="flex-1"
+        />
+        <span className="text-xs font-mono text-zinc-600 dark:text-zinc-400 w-14 text-right">
+          {(frame.offset_ms / 1000).toFixed(1)}s
+        </span>
+      </div>
+      {/* Inputs, screenshots and page errors on the same timeline as the slider */}
+      <div className="relative h-4 mt-2 ml-[60px] mr-[68px]">
+        {markers.map((marker, i) => (
+          <button
+            key={i}
+            title={`${(marker.offset_ms / 1000).toFixed(1)}s ${marker.kind}: ${marker.label}`}
+            onClick={() => {
+              setPlaying(false);
+              setIndex(frameAt(marker.offset_ms));
+            }}
+            className={`absolute top-0 h-4 w-1 rounded-sm ${MARKER_COLORS[marker.kind]} ${
+              marker.ok ? '' : 'ring-1 ring-red-600'
+            }`}
+            style={{ left: `${(marker.offset_ms / duration) * 100}%` }}
+          />
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+        Markers: <span className="text-blue-600 dark:text-blue-400">inputs</span>,{' '}
+        <span className="text-purple-600 dark:text-purple-400">screenshots</span>,{' '}
+        <span className="text-red-600 dark:text-red-400">page errors</span>
+        {recording.dropped_frames > 0 && ` · ${recording.dropped_frames} frames dropped (frame limit)`}
+      </p>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import TestForm from './components/test-form';
 interface TestRun {
   gameId: string;
   timestamp: string;
+  directory?: string;
   gameUrl: string;
   testId: string;
   screenshotCount: number;
@@ -97,15 +98,16 @@ export default async function Home() {
         ) : (
           <div className="grid gap-4">
             {tests.map((test) => {
-              // Convert ISO timestamp to directory format (YYYY-MM-DDTHH-MM-SS)
-              // The directory name format matches what EvidenceCapture generates
+              // Prefer the actual run directory (batch runs add a suffix); otherwise
+              // convert ISO timestamp to directory format (YYYY-MM-DDTHH-MM-SS)
               const date = new Date(test.timestamp);
-              const timestampPath = date.toISOString().replace(/[:.]/g, '-').substring(0, 19);
+              const timestampPath =
+                test.directory ?? date.toISOString().replace(/[:.]/g, '-').substring(0, 19);
               const testUrl = `/test/${test.gameId}/${timestampPath}`;
 
               return (
                 <Link
-                  key={`${test.gameId}-${test.timestamp}`}
+                  key={`${test.gameId}-${test.directory ?? test.timestamp}`}
                   href={testUrl}
                   className="block bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 hover:shadow-lg transition-shadow"
                 >
@@ -2,6 +2,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { notFound } from 'next/navigation';
 import JsonViewer from '../../../components/json-viewer';
+import RecordingPlayer, { type RecordingIndex } from '../../../components/recording-player';
 
 interface Screenshot {
   filename: string;
@@ -26,12 +27,53 @@ interface TestManifest {
   testStartTime: number;
   testEndTime?: number;
   totalDuration?: number;
+  har?: string;
+  recording?: string;
+}
+
+// metadata.network written by the CLI when network recording is enabled
+interface NetworkSummary {
+  request_count: number;
+  failed_count: number;
+  total_bytes: number;
+  bytes_by_type: Record<string, number>;
+  slowest: Array<{ url: string; resource_type: string; time_ms: number; bytes: number }>;
+  failed: Array<{ url: string; resource_type: string; status: number; error?: string }>;
+  bodies_truncated: number;
+}
+
+interface BaselinePointer {
+  run: string;
+  marked_at: string;
+  game_url: string;
+  status: string;
+  playability_score: number;
+}
+
+interface ComparedIssue {
+  type: string;
+  severity: string;
+  description: string;
+}
+
+// metadata.baseline_comparison written by the CLI when the game has a baseline
+interface BaselineComparison {
+  baseline_run: string;
+  marked_at: string;
+  score: { baseline: number; candidate: number; delta: number };
+  issues: { new: ComparedIssue[]; resolved: ComparedIssue[]; unchanged: number };
+  console_errors: { baseline: number; candidate: number; delta: number; new_messages: string[] };
+  control_response_rate: { baseline: number | null; candidate: number | null; delta: number | null };
+  screenshots: Array<{ index: number; description: string; diff_ratio: number | null }>;
+  regressions: string[];
 }
 
 interface TestDetails {
   manifest: TestManifest;
   consoleLog: string;
   testOutput?: any; // The JSON output from the CLI
+  baseline?: BaselinePointer | null;
+  recording?: RecordingIndex | null;
 }
 
 async function getTestDetails(
@@ -87,6 +129,17 @@ function formatDuration(ms?: number): string {
   return `${minutes}m ${remainingSeconds}s`;
 }
 
+function formatDelta(value: number, digits = 0): string {
+  const text = value.toFixed(digits);
+  return value > 0 ? `+${text}` : text;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function getScreenshotUrl(gameId: string, timestamp: string, filename: string): string {
   // Always use API route - it will check both runtime and static directories
   return `/api/screenshots/${gameId}/${timestamp}/${filename}`;
@@ -109,7 +162,10 @@ export default async function TestDetailPage({
     notFound();
   }
 
-  const { manifest, consoleLog, testOutput } = testDetails;
+  const { manifest, consoleLog, testOutput, baseline, recording } = testDetails;
+  const comparison: BaselineComparison | undefined = testOutput?.metadata?.baseline_comparison;
+  const isBaseline = baseline?.run === timestamp;
+  const network: NetworkSummary | undefined = testOutput?.metadata?.network;
 
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-black">
@@ -128,8 +184,117 @@ export default async function TestDetailPage({
           <p className="text-zinc-600 dark:text-zinc-400 break-all">
             {manifest.gameUrl}
           </p>
+          {isBaseline && (
+            <span className="inline-block mt-2 px-2 py-1 rounded text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+              Golden baseline for this game
+            </span>
+          )}
         </div>
 
+        {/* Baseline Comparison Section */}
+        {comparison && (
+          <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-black dark:text-zinc-50">
+                Baseline Comparison
+              </h2>
+              <Link
+                href={`/test/${gameId}/${comparison.baseline_run}`}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                View baseline run →
+              </Link>
+            </div>
+            {comparison.regressions.length === 0 ? (
+              <p className="text-sm text-green-700 dark:text-green-400 mb-4">
+                ✓ No regressions against the baseline
+              </p>
+            ) : (
+              <ul className="text-sm text-red-600 dark:text-red-400 mb-4 list-disc list-inside">
+                {comparison.regressions.map((regression, index) => (
+                  <li key={index}>{regression}</li>
+                ))}
+              </ul>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Score:</span>
+                <span className="ml-2 text-black dark:text-zinc-50">
+                  {comparison.score.baseline} → {comparison.score.candidate} ({formatDelta(comparison.score.delta)})
+                </span>
+              </div>
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Issues:</span>
+                <span className="ml-2 text-black dark:text-zinc-50">
+                  {comparison.issues.new.length} new, {comparison.issues.resolved.length} resolved,{' '}
+                  {comparison.issues.unchanged} unchanged
+                </span>
+              </div>
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Console errors:</span>
+                <span className="ml-2 text-black dark:text-zinc-50">
+                  {comparison.console_errors.baseline} → {comparison.console_errors.candidate} (
+                  {formatDelta(comparison.console_errors.delta)})
+                </span>
+              </div>
+              {comparison.control_response_rate.delta !== null && (
+                <div>
+                  <span className="text-zinc-600 dark:text-zinc-400">Response rate:</span>
+                  <span className="ml-2 text-black dark:text-zinc-50">
+                    {comparison.control_response_rate.baseline?.toFixed(1)}% →{' '}
+                    {comparison.control_response_rate.candidate?.toFixed(1)}% (
+                    {formatDelta(comparison.control_response_rate.delta, 1)})
+                  </span>
+                </div>
+              )}
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Baseline run:</span>
+                <span className="ml-2 font-mono text-black dark:text-zinc-50 text-xs">
+                  {comparison.baseline_run}
+                </span>
+              </div>
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Marked:</span>
+                <span className="ml-2 text-black dark:text-zinc-50">
+                  {formatTimestamp(comparison.marked_at)}
+                </span>
+              </div>
+            </div>
+            {comparison.issues.new.length > 0 && (
+              <div className="mt-4 text-sm">
+                <h3 className="font-medium text-black dark:text-zinc-50 mb-1">New issues</h3>
+                <ul className="list-disc list-inside text-zinc-700 dark:text-zinc-300">
+                  {comparison.issues.new.map((issue, index) => (
+                    <li key={index}>
+                      [{issue.severity}] {issue.type}: {issue.description}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {comparison.console_errors.new_messages.length > 0 && (
+              <div className="mt-4 text-sm">
+                <h3 className="font-medium text-black dark:text-zinc-50 mb-1">New console errors</h3>
+                <ul className="list-disc list-inside font-mono text-xs text-zinc-700 dark:text-zinc-300">
+                  {comparison.console_errors.new_messages.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {comparison.screenshots.length > 0 && (
+              <p className="mt-4 text-xs text-zinc-600 dark:text-zinc-400">
+                Screenshot diffs:{' '}
+                {comparison.screenshots
+                  .map((pair) =>
+                    pair.diff_ratio === null ? `#${pair.index} n/a` : `#${pair.index} ${(pair.diff_ratio * 100).toFixed(2)}%`
+                  )
+                  .join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Test Output JSON */}
         {testOutput && <JsonViewer data={testOutput} title="Test Results (JSON)" />}
 
@@ -163,6 +328,14 @@ export default async function TestDetailPage({
                 {formatDuration(manifest.totalDuration)}
               </span>
             </div>
+            {testOutput?.metadata?.device_profile && (
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Device:</span>
+                <span className="ml-2 font-mono text-black dark:text-zinc-50">
+                  {testOutput.metadata.device_profile}
+                </span>
+              </div>
+            )}
             <div>
               <span className="text-zinc-600 dark:text-zinc-400">Screenshots:</span>
               <span className="ml-2 text-black dark:text-zinc-50">
@@ -178,6 +351,11 @@ export default async function TestDetailPage({
           </div>
         </div>
 
+        {/* Recording Section */}
+        {recording && recording.frames.length > 0 && (
+          <RecordingPlayer recording={recording} baseUrl={`/api/screenshots/${gameId}/${timestamp}`} />
+        )}
+
         {/* Screenshots Section */}
         {manifest.screenshots.length > 0 && (
           <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 mb-6">
@@ -227,6 +405,76 @@ export default async function TestDetailPage({
           </div>
         )}
 
+        {/* Network Section */}
+        {network && (
+          <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-black dark:text-zinc-50">
+                Network
+              </h2>
+              {manifest.har && (
+                <a
+                  href={getScreenshotUrl(gameId, timestamp, manifest.har)}
+                  download={manifest.har}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  Download HAR
+                </a>
+              )}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm mb-4">
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Requests:</span>
+                <span className="ml-2 text-black dark:text-zinc-50">{network.request_count}</span>
+              </div>
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Failed:</span>
+                <span
+                  className={`ml-2 ${
+                    network.failed_count > 0 ? 'text-red-600 dark:text-red-400' : 'text-black dark:text-zinc-50'
+                  }`}
+                >
+                  {network.failed_count}
+                </span>
+              </div>
+              <div>
+                <span className="text-zinc-600 dark:text-zinc-400">Transferred:</span>
+                <span className="ml-2 text-black dark:text-zinc-50">{formatBytes(network.total_bytes)}</span>
+              </div>
+            </div>
+            {network.slowest.length > 0 && (
+              <div className="mb-4">
+                <h3 className="text-sm font-semibold text-black dark:text-zinc-50 mb-2">Slowest requests</h3>
+                <ul className="space-y-1 text-xs font-mono">
+                  {network.slowest.map((request, index) => (
+                    <li key={index} className="text-black dark:text-zinc-50 break-all">
+                      <span className="text-zinc-600 dark:text-zinc-400">
+                        {request.time_ms}ms · {request.resource_type} · {formatBytes(request.bytes)}
+                      </span>{' '}
+                      {request.url}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {network.failed.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-red-600 dark:text-red-400 mb-2">Failed requests</h3>
+                <ul className="space-y-1 text-xs font-mono">
+                  {network.failed.map((request, index) => (
+                    <li key={index} className="text-black dark:text-zinc-50 break-all">
+                      <span className="text-zinc-600 dark:text-zinc-400">
+                        {request.status > 0 ? `HTTP ${request.status}` : request.error ?? 'failed'} · {request.resource_type}
+                      </span>{' '}
+                      {request.url}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Console Logs Section */}
         {consoleLog && (
           <div className="bg-white dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6 mb-6">